@@ -1,3 +1,38 @@
 export const COMMAND_GO_TO_HEADING = 'headingNavigator.goToHeading';
 export const CODEMIRROR_CONTENT_SCRIPT_ID = 'headingNavigatorPanel';
+export const VIEWER_CONTENT_SCRIPT_ID = 'headingNavigatorViewer';
 export const EDITOR_COMMAND_TOGGLE_PANEL = 'headingNavigator.togglePanel';
+export const COMMAND_PROMOTE_SECTION = 'headingNavigator.promoteSection';
+export const COMMAND_DEMOTE_SECTION = 'headingNavigator.demoteSection';
+export const EDITOR_COMMAND_PROMOTE_HEADING = 'headingNavigator.promoteHeading';
+export const EDITOR_COMMAND_DEMOTE_HEADING = 'headingNavigator.demoteHeading';
+export const COMMAND_INSERT_TABLE_OF_CONTENTS = 'headingNavigator.insertTableOfContents';
+export const EDITOR_COMMAND_INSERT_TABLE_OF_CONTENTS = 'headingNavigator.insertTableOfContentsAtCursor';
+export const COMMAND_COPY_SECTION = 'headingNavigator.copySection';
+export const EDITOR_COMMAND_COPY_SECTION = 'headingNavigator.copyCurrentSection';
+export const COMMAND_NUMBER_HEADINGS = 'headingNavigator.numberHeadings';
+export const COMMAND_REMOVE_HEADING_NUMBERS = 'headingNavigator.removeHeadingNumbers';
+export const EDITOR_COMMAND_APPLY_OUTLINE_NUMBERING = 'headingNavigator.applyOutlineNumbering';
+export const COMMAND_SEARCH_ALL_HEADINGS = 'headingNavigator.searchAllHeadings';
+export const EDITOR_COMMAND_GO_TO_ANCHOR = 'headingNavigator.goToAnchor';
+export const COMMAND_CHECK_HEADING_LINKS = 'headingNavigator.checkHeadingLinks';
+export const COMMAND_CHECK_NOTEBOOK_HEADING_LINKS = 'headingNavigator.checkNotebookHeadingLinks';
+export const EDITOR_COMMAND_SELECT_RANGE = 'headingNavigator.selectRange';
+export const EDITOR_COMMAND_REPLACE_RANGE = 'headingNavigator.replaceRange';
+export const COMMAND_NAVIGATE_BACK = 'headingNavigator.navigateBack';
+export const COMMAND_NAVIGATE_FORWARD = 'headingNavigator.navigateForward';
+export const EDITOR_COMMAND_JUMP_BACK = 'headingNavigator.jumpBack';
+export const EDITOR_COMMAND_JUMP_FORWARD = 'headingNavigator.jumpForward';
+export const COMMAND_GO_TO_NEXT_HEADING = 'headingNavigator.goToNextHeading';
+export const COMMAND_GO_TO_PREVIOUS_HEADING = 'headingNavigator.goToPreviousHeading';
+export const COMMAND_GO_TO_NEXT_SAME_LEVEL_HEADING = 'headingNavigator.goToNextSameLevelHeading';
+export const COMMAND_GO_TO_PREVIOUS_SAME_LEVEL_HEADING = 'headingNavigator.goToPreviousSameLevelHeading';
+export const COMMAND_GO_TO_PARENT_HEADING = 'headingNavigator.goToParentHeading';
+export const COMMAND_GO_TO_FIRST_CHILD_HEADING = 'headingNavigator.goToFirstChildHeading';
+export const EDITOR_COMMAND_JUMP_TO_HEADING = 'headingNavigator.jumpToHeading';
+export const COMMAND_TOGGLE_OUTLINE = 'headingNavigator.toggleOutline';
+export const EDITOR_COMMAND_SET_OUTLINE_SYNC = 'headingNavigator.setOutlineSync';
+export const COMMAND_TOGGLE_FOCUS_MODE = 'headingNavigator.toggleFocusMode';
+export const EDITOR_COMMAND_TOGGLE_FOCUS_MODE = 'headingNavigator.toggleFocusModeInEditor';
+export const EDITOR_COMMAND_SET_BREADCRUMB_BAR = 'headingNavigator.setBreadcrumbBar';
+export const OUTLINE_PANEL_ID = 'headingNavigatorOutline';
@@ -0,0 +1,262 @@
+/**
+ * Breadcrumb bar: shows the path of the heading at the top of the viewport above the editor text
+ * (e.g. `Guide › Install › Linux`).
+ *
+ * The path follows scrolling rather than the cursor. Scroll positions are read in CodeMirror's
+ * measure phase, and the headings come from the shared `HeadingTracker`. Each crumb jumps to its
+ * heading, and its arrow opens a menu of the heading's siblings.
+ *
+ * See:
+ * - headingTracker.ts - Parses the headings
+ * - headingTree.ts - Ancestors and siblings of a heading
+ * - theme/panelTheme.ts - Bar and menu styles
+ * - headingNavigator.ts - Registers this extension and the editor command that toggles it
+ */
+
+import type { Extension } from '@codemirror/state';
+import { EditorView, ViewPlugin } from '@codemirror/view';
+import type { HeadingItem } from '../types';
+import { findSectionHeading } from '../headingSections';
+import { buildHeadingTree, getAncestors, getSiblings, type HeadingTree } from '../headingTree';
+import type { HeadingTracker, HeadingTrackerListener } from './headingTracker';
+import { createBreadcrumbBarCss } from './theme/panelTheme';
+
+const BREADCRUMB_STYLE_ID = 'heading-navigator-breadcrumb-styles';
+const BREADCRUMB_BAR_HEIGHT_PX = 24;
+const BREADCRUMB_SEPARATOR = '›';
+
+export class BreadcrumbBar {
+    readonly extension: Extension = [
+        ViewPlugin.define(() => {
+            const onScroll = () => this.requestPathUpdate();
+            this.view.scrollDOM.addEventListener('scroll', onScroll, { passive: true });
+            return {
+                destroy: () => this.view.scrollDOM.removeEventListener('scroll', onScroll),
+            };
+        }),
+        // Scrolling to a position (e.g. a heading) puts it below the bar instead of under it
+        EditorView.scrollMargins.of(() => (this.enabled ? { top: BREADCRUMB_BAR_HEIGHT_PX } : null)),
+    ];
+
+    private enabled = false;
+    private tree: HeadingTree = new Map();
+    // Heading ids of the displayed path, to skip re-rendering while scrolling within a section
+    private pathKey = '';
+    private bar: HTMLElement | null = null;
+    private menu: HTMLElement | null = null;
+    private closeMenuListeners: (() => void) | null = null;
+    private readonly listener: HeadingTrackerListener = {
+        headingsChanged: () => {
+            this.tree = buildHeadingTree(this.tracker.getHeadings());
+            // Headings may have been renamed without changing the path's ids
+            this.pathKey = '';
+            this.requestPathUpdate();
+        },
+        geometryChanged: () => this.requestPathUpdate(),
+    };
+
+    constructor(
+        private readonly view: EditorView,
+        private readonly tracker: HeadingTracker,
+        private readonly onNavigate: (heading: HeadingItem) => void
+    ) {}
+
+    /**
+     * Shows or hides the bar.
+     */
+    setEnabled(enabled: boolean): void {
+        this.enabled = enabled;
+
+        if (enabled) {
+            // Keeps the bar's height free above the first line
+            this.view.scrollDOM.style.paddingTop = `${BREADCRUMB_BAR_HEIGHT_PX}px`;
+            this.view.requestMeasure();
+            this.tracker.subscribe(this.listener);
+            return;
+        }
+
+        this.tracker.unsubscribe(this.listener);
+        this.closeMenu();
+        this.bar?.remove();
+        this.bar = null;
+        this.view.scrollDOM.style.paddingTop = '';
+        this.view.requestMeasure();
+        this.tree = new Map();
+        this.pathKey = '';
+    }
+
+    /**
+     * Finds the line at the top of the viewport in the next measure phase and shows its path.
+     */
+    private requestPathUpdate(): void {
+        // Cached heading offsets are only valid when no edit is pending
+        if (!this.enabled || this.tracker.isPending()) {
+            return;
+        }
+
+        this.view.requestMeasure({
+            key: this,
+            read: (view) => {
+                // The first line below the bar
+                const textTop = view.scrollDOM.getBoundingClientRect().top + BREADCRUMB_BAR_HEIGHT_PX;
+                return view.lineBlockAtHeight(textTop - view.documentTop).from;
+            },
+            write: (position) => this.renderPath(position),
+        });
+    }
+
+    private renderPath(position: number): void {
+        if (!this.enabled) {
+            return;
+        }
+
+        const heading = findSectionHeading(this.tracker.getHeadings(), position);
+        const path = heading ? [...getAncestors(this.tree, heading.id), heading] : [];
+        const pathKey = path.map((crumb) => crumb.id).join('\n');
+        if (pathKey === this.pathKey && this.bar) {
+            return;
+        }
+
+        this.pathKey = pathKey;
+        this.closeMenu();
+        const bar = this.ensureBar();
+        // The bar stays up without a path (text before the first heading), so the text doesn't jump
+        bar.replaceChildren(...path.map((crumb, index) => this.createCrumb(crumb, index > 0)));
+    }
+
+    private ensureBar(): HTMLElement {
+        if (this.bar?.isConnected) {
+            return this.bar;
+        }
+
+        ensureBreadcrumbStyles(this.view);
+        const bar = document.createElement('nav');
+        bar.className = 'heading-navigator-breadcrumbs';
+        bar.setAttribute('aria-label', 'Heading path');
+        // Keep the editor focused and its selection intact when clicking crumbs
+        bar.addEventListener('mousedown', (event) => event.preventDefault());
+        this.view.dom.appendChild(bar);
+        this.bar = bar;
+        return bar;
+    }
+
+    private createCrumb(heading: HeadingItem, withSeparator: boolean): HTMLElement {
+        const crumb = document.createElement('span');
+        crumb.className = 'heading-navigator-crumb';
+
+        if (withSeparator) {
+            const separator = document.createElement('span');
+            separator.className = 'heading-navigator-crumb-separator';
+            separator.textContent = BREADCRUMB_SEPARATOR;
+            separator.setAttribute('aria-hidden', 'true');
+            crumb.appendChild(separator);
+        }
+
+        const text = document.createElement('button');
+        text.type = 'button';
+        text.className = 'heading-navigator-crumb-text';
+        text.textContent = heading.text;
+        text.title = `Go to "${heading.text}"`;
+        text.addEventListener('click', () => this.navigate(heading));
+        crumb.appendChild(text);
+
+        const siblings = document.createElement('button');
+        siblings.type = 'button';
+        siblings.className = 'heading-navigator-crumb-siblings';
+        siblings.title = 'Show sibling headings';
+        siblings.setAttribute('aria-haspopup', 'menu');
+        siblings.setAttribute('aria-expanded', 'false');
+        siblings.addEventListener('click', () => {
+            if (siblings.getAttribute('aria-expanded') === 'true') {
+                this.closeMenu();
+            } else {
+                this.openMenu(heading, siblings);
+            }
+        });
+        crumb.appendChild(siblings);
+
+        return crumb;
+    }
+
+    private openMenu(heading: HeadingItem, anchor: HTMLElement): void {
+        this.closeMenu();
+
+        const menu = document.createElement('ul');
+        menu.className = 'heading-navigator-crumb-menu';
+        menu.setAttribute('role', 'menu');
+        menu.addEventListener('mousedown', (event) => event.preventDefault());
+
+        for (const sibling of getSiblings(this.tree, heading.id)) {
+            const item = document.createElement('li');
+            item.className = 'heading-navigator-crumb-menu-item';
+            item.classList.toggle('is-current', sibling.id === heading.id);
+            item.setAttribute('role', 'menuitem');
+            item.textContent = sibling.text;
+            item.title = sibling.text;
+            item.addEventListener('click', () => this.navigate(sibling));
+            menu.appendChild(item);
+        }
+
+        const editorRect = this.view.dom.getBoundingClientRect();
+        const anchorRect = anchor.getBoundingClientRect();
+        menu.style.top = `${anchorRect.bottom - editorRect.top + 2}px`;
+        menu.style.left = `${Math.max(0, anchorRect.left - editorRect.left)}px`;
+
+        this.view.dom.appendChild(menu);
+        anchor.setAttribute('aria-expanded', 'true');
+        this.menu = menu;
+
+        const doc = this.view.dom.ownerDocument;
+        const onPointerDown = (event: MouseEvent) => {
+            if (!menu.contains(event.target as Node) && !anchor.contains(event.target as Node)) {
+                this.closeMenu();
+            }
+        };
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                event.preventDefault();
+                event.stopPropagation();
+                this.closeMenu();
+            }
+        };
+        doc.addEventListener('mousedown', onPointerDown, true);
+        doc.addEventListener('keydown', onKeyDown, true);
+        this.closeMenuListeners = () => {
+            doc.removeEventListener('mousedown', onPointerDown, true);
+            doc.removeEventListener('keydown', onKeyDown, true);
+            anchor.setAttribute('aria-expanded', 'false');
+        };
+    }
+
+    private closeMenu(): void {
+        this.closeMenuListeners?.();
+        this.closeMenuListeners = null;
+        this.menu?.remove();
+        this.menu = null;
+    }
+
+    private navigate(target: HeadingItem): void {
+        this.closeMenu();
+
+        // Offsets of the clicked heading are stale while an edit is waiting to be parsed
+        const from = this.tracker.mapPos(target.from);
+        this.tracker.flush();
+
+        const heading = this.tracker.getHeadings().find((candidate) => candidate.from === from);
+        if (heading) {
+            this.onNavigate(heading);
+        }
+    }
+}
+
+function ensureBreadcrumbStyles(view: EditorView): void {
+    const doc = view.dom.ownerDocument;
+    if (doc.getElementById(BREADCRUMB_STYLE_ID)) {
+        return;
+    }
+
+    const style = doc.createElement('style');
+    style.id = BREADCRUMB_STYLE_ID;
+    style.textContent = createBreadcrumbBarCss(BREADCRUMB_BAR_HEIGHT_PX);
+    (doc.head ?? doc.body).appendChild(style);
+}
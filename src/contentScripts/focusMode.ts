@@ -0,0 +1,202 @@
+/**
+ * Focus mode: dims or hides everything outside the section containing the cursor.
+ *
+ * The focused range follows the cursor. Cursor moves are handled right after the update that
+ * made them, and edits once the `HeadingTracker` has re-parsed them; until then the decorations
+ * are mapped through the edits, so typing inside the section doesn't flicker. Hiding uses block
+ * decorations, which CodeMirror only accepts from a state field, so the range is computed
+ * outside of updates and the decorations are handed to the field with an effect.
+ *
+ * See:
+ * - headingTracker.ts - Parses the headings
+ * - sectionFocus.ts - Focused section for a cursor position
+ * - headingNavigator.ts - Registers this extension, the editor command and the panel action
+ */
+
+import { StateEffect, StateField, type Extension } from '@codemirror/state';
+import { Decoration, EditorView, ViewPlugin, WidgetType, type DecorationSet } from '@codemirror/view';
+import type { FocusModeStyle } from '../types';
+import type { SectionRange } from '../headingSections';
+import { getFocusRange } from '../sectionFocus';
+import type { HeadingTracker, HeadingTrackerListener } from './headingTracker';
+import logger from '../logger';
+
+const setFocusDecorations = StateEffect.define<DecorationSet>();
+
+const focusDecorations = StateField.define<DecorationSet>({
+    create: () => Decoration.none,
+    update: (decorations, transaction) => {
+        for (const effect of transaction.effects) {
+            if (effect.is(setFocusDecorations)) {
+                return effect.value;
+            }
+        }
+        return decorations.map(transaction.changes);
+    },
+    provide: (field) => EditorView.decorations.from(field),
+});
+
+const unfocusedLine = Decoration.line({ class: 'cm-headingNavigator-unfocused' });
+
+const focusModeTheme = EditorView.baseTheme({
+    '.cm-headingNavigator-unfocused': {
+        opacity: '0.35',
+    },
+    '.cm-headingNavigator-focusHidden': {
+        padding: '2px 0',
+        fontSize: '0.85em',
+        fontStyle: 'italic',
+        opacity: '0.6',
+    },
+});
+
+/**
+ * Placeholder for the lines hidden above or below the focused section.
+ */
+class HiddenLinesWidget extends WidgetType {
+    constructor(private readonly lineCount: number) {
+        super();
+    }
+
+    eq(other: HiddenLinesWidget): boolean {
+        return other.lineCount === this.lineCount;
+    }
+
+    toDOM(): HTMLElement {
+        const element = document.createElement('div');
+        element.className = 'cm-headingNavigator-focusHidden';
+        element.textContent = `${this.lineCount} ${this.lineCount === 1 ? 'line' : 'lines'} hidden by focus mode`;
+        return element;
+    }
+}
+
+export class FocusMode {
+    readonly extension: Extension = [
+        focusDecorations,
+        focusModeTheme,
+        // Drops a scheduled range update when the editor is destroyed
+        ViewPlugin.define(() => ({ destroy: () => this.cancel() })),
+    ];
+
+    private style: FocusModeStyle | null = null;
+    private timeoutId: number | null = null;
+    private focusRange: SectionRange | null = null;
+    private readonly listener: HeadingTrackerListener = {
+        headingsChanged: () => this.refresh(true),
+        // Decorations can't be dispatched from inside an update
+        selectionChanged: () => this.scheduleRangeUpdate(),
+    };
+
+    constructor(
+        private readonly view: EditorView,
+        private readonly tracker: HeadingTracker
+    ) {}
+
+    isEnabled(): boolean {
+        return this.style !== null;
+    }
+
+    /**
+     * Turns focus mode on with the given style, or off if it is on.
+     *
+     * @returns Whether focus mode is now on
+     */
+    toggle(style: FocusModeStyle): boolean {
+        if (this.style) {
+            this.disable();
+        } else {
+            this.style = style;
+            this.focusRange = null;
+            this.tracker.subscribe(this.listener);
+        }
+        return this.isEnabled();
+    }
+
+    private disable(): void {
+        this.style = null;
+        this.cancel();
+        this.tracker.unsubscribe(this.listener);
+        this.focusRange = null;
+        this.view.dispatch({ effects: setFocusDecorations.of(Decoration.none) });
+    }
+
+    private scheduleRangeUpdate(): void {
+        this.cancel();
+        this.timeoutId = window.setTimeout(() => {
+            this.timeoutId = null;
+            this.refresh(false);
+        }, 0);
+    }
+
+    private cancel(): void {
+        if (this.timeoutId !== null) {
+            window.clearTimeout(this.timeoutId);
+            this.timeoutId = null;
+        }
+    }
+
+    /**
+     * Recomputes the focused section, rebuilding the decorations when it moved or the document
+     * was re-parsed.
+     */
+    private refresh(docChanged: boolean): void {
+        if (!this.style || this.tracker.isPending()) {
+            return;
+        }
+
+        try {
+            const { state } = this.view;
+            const range = getFocusRange(
+                this.tracker.getContent(),
+                this.tracker.getHeadings(),
+                state.selection.main.head
+            );
+            const rangeChanged = range?.from !== this.focusRange?.from || range?.to !== this.focusRange?.to;
+            if (!docChanged && !rangeChanged) {
+                return;
+            }
+
+            this.focusRange = range;
+            this.view.dispatch({ effects: setFocusDecorations.of(this.buildDecorations(range)) });
+        } catch (error) {
+            logger.error('Failed to update focus mode', error);
+        }
+    }
+
+    private buildDecorations(range: SectionRange | null): DecorationSet {
+        const { doc } = this.view.state;
+        if (!range || !this.style) {
+            return Decoration.none;
+        }
+
+        // Section ranges start at a line start, so the text above ends with the line break
+        // before the section, which stays visible
+        const unfocused: SectionRange[] = [];
+        if (range.from > 0) {
+            unfocused.push({ from: 0, to: range.from - 1 });
+        }
+        if (range.to < doc.length) {
+            unfocused.push({ from: range.to, to: doc.length });
+        }
+
+        if (this.style === 'dim') {
+            const decorations = [];
+            for (const part of unfocused) {
+                for (let number = doc.lineAt(part.from).number; number <= doc.lineAt(part.to).number; number++) {
+                    decorations.push(unfocusedLine.range(doc.line(number).from));
+                }
+            }
+            return Decoration.set(decorations);
+        }
+
+        return Decoration.set(
+            unfocused.map((part) => {
+                const lineCount = doc.lineAt(part.to).number - doc.lineAt(part.from).number + 1;
+                return Decoration.replace({ widget: new HiddenLinesWidget(lineCount), block: true }).range(
+                    part.from,
+                    part.to
+                );
+            })
+        );
+    }
+}
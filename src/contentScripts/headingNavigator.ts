@@ -24,15 +24,89 @@
  * - ui/headingPanel.ts - Floating panel UI implementation
  */
 
-import { EditorSelection, EditorState } from '@codemirror/state';
+import { codeFolding, foldEffect, foldedRanges, foldState, unfoldEffect } from '@codemirror/language';
+import { EditorSelection, EditorState, StateEffect } from '@codemirror/state';
 import { EditorView, ViewUpdate } from '@codemirror/view';
+import type { ChangedRange } from '@lezer/common';
 import type { CodeMirrorControl, ContentScriptContext, MarkdownEditorContentScriptModule } from 'api/types';
-import { EDITOR_COMMAND_TOGGLE_PANEL } from '../constants';
-import type { HeadingItem, PanelDimensions } from '../types';
+import {
+    EDITOR_COMMAND_APPLY_OUTLINE_NUMBERING,
+    EDITOR_COMMAND_COPY_SECTION,
+    EDITOR_COMMAND_DEMOTE_HEADING,
+    EDITOR_COMMAND_GO_TO_ANCHOR,
+    EDITOR_COMMAND_INSERT_TABLE_OF_CONTENTS,
+    EDITOR_COMMAND_JUMP_BACK,
+    EDITOR_COMMAND_JUMP_FORWARD,
+    EDITOR_COMMAND_JUMP_TO_HEADING,
+    EDITOR_COMMAND_PROMOTE_HEADING,
+    EDITOR_COMMAND_REPLACE_RANGE,
+    EDITOR_COMMAND_SELECT_RANGE,
+    EDITOR_COMMAND_SET_BREADCRUMB_BAR,
+    EDITOR_COMMAND_SET_OUTLINE_SYNC,
+    EDITOR_COMMAND_TOGGLE_FOCUS_MODE,
+    EDITOR_COMMAND_TOGGLE_PANEL,
+} from '../constants';
+import type {
+    EditorRangeReplacement,
+    EditorRangeTarget,
+    FocusModeCommandOptions,
+    HeadingBacklinkCount,
+    HeadingItem,
+    HeadingLevelCommandOptions,
+    HeadingNavigationTarget,
+    HeadingReference,
+    PanelOptions,
+    TableOfContentsOptions,
+} from '../types';
 import type { ContentScriptToPluginMessage } from '../messages';
-import { extractHeadings } from '../headingExtractor';
+import { extractHeadings, IncrementalHeadingExtractor } from '../headingExtractor';
+import { computeAnchorLinkChanges, mapRenamedAnchors } from '../headingLinks';
+import { computeOutlineNumberingChanges, type OutlineNumberingAction } from '../outlineNumbering';
+import { computeHeadingRename } from '../headingRename';
+import { JumpHistory } from '../jumpHistory';
+import {
+    normalizeHeadingReferences,
+    recordHeadingVisit,
+    renameHeadingReferences,
+    resolveHeadingReferences,
+    toggleHeadingReference,
+} from '../headingReferences';
+import { buildHeadingTree, getAncestors } from '../headingTree';
+import { SectionStatisticsTracker, type DocumentChangeMapping } from '../sectionStatistics';
+import {
+    computeHeadingLevelChange,
+    computeSectionMove,
+    findActiveHeadingId,
+    findHeadingJumpTarget,
+    findSectionHeading,
+    getSectionText,
+    HEADING_JUMPS,
+    type HeadingJump,
+    type HeadingLevelDelta,
+    type SectionMoveDirection,
+    type SectionRange,
+    type TextChange,
+} from '../headingSections';
+import {
+    findFoldedHeadingIds,
+    getFoldRangesExcept,
+    getFoldRangesToLevel,
+    getSectionFoldRange,
+} from '../headingFolding';
+import {
+    computeTableOfContentsInsert,
+    computeTableOfContentsRefresh,
+    findTableOfContentsBlock,
+    normalizeTableOfContentsOptions,
+} from '../tableOfContents';
 import { HeadingPanel, type PanelCloseReason } from './ui/headingPanel';
-import { normalizePanelDimensions } from '../panelDimensions';
+import { createTableOfContentsSync } from './tableOfContentsSync';
+import { OutlineSync } from './outlineSync';
+import { FocusMode } from './focusMode';
+import { BreadcrumbBar } from './breadcrumbBar';
+import { HeadingTracker } from './headingTracker';
+import { normalizeFocusModeStyle } from '../sectionFocus';
+import { normalizePanelOptions } from '../panelOptions';
 import logger from '../logger';
 
 // Track active verification timeouts per editor. WeakMap ensures automatic
@@ -252,6 +326,16 @@ function isSameSelection(a: SelectionLike, b: SelectionLike): boolean {
     return normalizedA.from === normalizedB.from && normalizedA.to === normalizedB.to;
 }
 
+/**
+ * Space kept free at the top of the viewport when scrolling to a position (e.g. by the breadcrumb
+ * bar), combined the way CodeMirror combines scroll margins.
+ */
+function getScrollTopMargin(view: EditorView): number {
+    return view.state
+        .facet(EditorView.scrollMargins)
+        .reduce((margin, getMargins) => Math.max(margin, getMargins(view)?.top ?? 0), 0);
+}
+
 function measureSelectionBlock(
     view: EditorView,
     selection: { from: number; to: number }
@@ -267,7 +351,8 @@ function measureSelectionBlock(
         return null;
     }
 
-    const blockTopOffset = start.top - rect.top;
+    // Offset from where scrollIntoView puts the block, below any scroll margin
+    const blockTopOffset = start.top - rect.top - getScrollTopMargin(view);
     const viewportTop = scrollDOM.scrollTop;
 
     return {
@@ -277,25 +362,42 @@ function measureSelectionBlock(
     };
 }
 
-function computeHeadings(state: EditorState): HeadingItem[] {
-    return extractHeadings(state.doc.toString());
+/**
+ * Editor position recorded in the jump history.
+ */
+interface JumpPosition {
+    from: number;
+    to: number;
+    scrollSnapshot: ReturnType<EditorView['scrollSnapshot']> | null;
 }
 
-function findActiveHeadingId(headings: HeadingItem[], position: number): string | null {
-    if (!headings.length) {
-        return null;
-    }
+function computeHeadings(extractor: IncrementalHeadingExtractor, state: EditorState): HeadingItem[] {
+    return extractor.extract(state.doc);
+}
 
-    let candidate: HeadingItem | null = null;
-    for (const heading of headings) {
-        if (heading.from <= position) {
-            candidate = heading;
-        } else {
-            break;
-        }
-    }
+/**
+ * Recomputes headings after a document change, re-parsing only the edited ranges.
+ *
+ * Large notes make a full parse per keystroke noticeably slow, so the extractor reuses
+ * the previous syntax tree and headings for everything outside `update.changes`.
+ */
+function computeHeadingsAfterChange(extractor: IncrementalHeadingExtractor, update: ViewUpdate): HeadingItem[] {
+    const changedRanges: ChangedRange[] = [];
+    update.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+        changedRanges.push({ fromA, toA, fromB, toB });
+    });
+
+    return extractor.update(update.state.doc, changedRanges);
+}
 
-    return candidate?.id ?? headings[0].id;
+function normalizeBacklinkCounts(raw: unknown): HeadingBacklinkCount[] {
+    if (!Array.isArray(raw)) {
+        return [];
+    }
+    return raw.filter(
+        (entry): entry is HeadingBacklinkCount =>
+            typeof entry?.anchor === 'string' && Number.isInteger(entry?.count) && entry.count > 0
+    );
 }
 
 function setEditorSelection(view: EditorView, heading: HeadingItem, focusEditor: boolean): void {
@@ -330,12 +432,221 @@ function setEditorSelection(view: EditorView, heading: HeadingItem, focusEditor:
     }
 }
 
+/**
+ * Moves a heading's section (including its subtree) past its previous or next sibling.
+ *
+ * Applied as a single transaction so one undo restores the original order. The cursor follows
+ * the moved heading, which keeps it selected when the panel re-renders from the update listener.
+ *
+ * @returns true if the section was moved, false if there was no sibling to move past
+ */
+function moveSection(
+    view: EditorView,
+    headings: HeadingItem[],
+    heading: HeadingItem,
+    direction: SectionMoveDirection
+): boolean {
+    try {
+        const move = computeSectionMove(view.state.doc.toString(), headings, heading.id, direction);
+        if (!move) {
+            return false;
+        }
+
+        cancelPendingVerification(view);
+
+        view.dispatch({
+            changes: move.change,
+            selection: EditorSelection.single(move.headingFrom),
+            effects: EditorView.scrollIntoView(move.headingFrom, { y: 'start' }),
+            userEvent: 'move.section',
+        });
+
+        return true;
+    } catch (error) {
+        logger.error('Failed to move section', error);
+        return false;
+    }
+}
+
+/**
+ * Promotes or demotes a heading (optionally with its subheadings) in a single transaction.
+ *
+ * @returns true if the document changed, false if the change would leave the H1-H6 range
+ */
+function changeHeadingLevel(
+    view: EditorView,
+    headings: HeadingItem[],
+    heading: HeadingItem,
+    delta: HeadingLevelDelta,
+    includeSubheadings: boolean
+): boolean {
+    try {
+        const changes = computeHeadingLevelChange(
+            view.state.doc.toString(),
+            headings,
+            heading.id,
+            delta,
+            includeSubheadings
+        );
+        if (!changes) {
+            logger.info('Heading level change refused because it would leave the H1-H6 range', {
+                headingId: heading.id,
+                delta,
+            });
+            return false;
+        }
+
+        view.dispatch({
+            changes,
+            userEvent: delta < 0 ? 'input.promoteHeading' : 'input.demoteHeading',
+        });
+
+        return true;
+    } catch (error) {
+        logger.error('Failed to change heading level', error);
+        return false;
+    }
+}
+
+function getFoldedRanges(state: EditorState): SectionRange[] {
+    const ranges: SectionRange[] = [];
+    foldedRanges(state).between(0, state.doc.length, (from, to) => {
+        ranges.push({ from, to });
+    });
+    return ranges;
+}
+
+/**
+ * Unfolds and then folds ranges in one transaction.
+ *
+ * Editors without folding support get it on first use, like CodeMirror's own fold commands.
+ */
+function dispatchFolds(view: EditorView, fold: SectionRange[], unfold: SectionRange[]): void {
+    const effects: StateEffect<unknown>[] = [
+        ...unfold.map((range) => unfoldEffect.of(range)),
+        ...fold.map((range) => foldEffect.of(range)),
+    ];
+    if (!effects.length) {
+        return;
+    }
+
+    if (!view.state.field(foldState, false)) {
+        effects.push(StateEffect.appendConfig.of(codeFolding()));
+    }
+    view.dispatch({ effects });
+}
+
+/**
+ * Folds a heading's section, or unfolds it if it is folded.
+ */
+function toggleSectionFold(view: EditorView, headings: HeadingItem[], heading: HeadingItem): void {
+    try {
+        const folded = getFoldedRanges(view.state).filter((range) => range.from === heading.to);
+        if (folded.length) {
+            dispatchFolds(view, [], folded);
+            return;
+        }
+
+        const index = headings.findIndex((item) => item.id === heading.id);
+        const range = index >= 0 ? getSectionFoldRange(view.state.doc.toString(), headings, index) : null;
+        if (range) {
+            dispatchFolds(view, [range], []);
+        }
+    } catch (error) {
+        logger.error('Failed to toggle section fold', error);
+    }
+}
+
+/**
+ * Replaces the editor's folds with the given ones.
+ */
+function replaceFolds(view: EditorView, compute: (content: string) => SectionRange[]): void {
+    try {
+        dispatchFolds(view, compute(view.state.doc.toString()), getFoldedRanges(view.state));
+    } catch (error) {
+        logger.error('Failed to fold sections', error);
+    }
+}
+
+/**
+ * Inserts a table-of-contents block below the cursor line, or regenerates the note's existing
+ * block (only one managed block per note is supported).
+ *
+ * @returns true if the document changed
+ */
+function insertTableOfContents(view: EditorView, headings: HeadingItem[], options: TableOfContentsOptions): boolean {
+    try {
+        const content = view.state.doc.toString();
+        if (findTableOfContentsBlock(content)) {
+            const refresh = computeTableOfContentsRefresh(content, headings, options);
+            if (!refresh) {
+                return false;
+            }
+            view.dispatch({ changes: refresh, userEvent: 'input.tableOfContents' });
+            return true;
+        }
+
+        // Insert on an empty line in place, otherwise after the cursor line so it isn't split
+        const line = view.state.doc.lineAt(view.state.selection.main.head);
+        const position = line.text.trim() ? line.to : line.from;
+        const change = computeTableOfContentsInsert(content, headings, position, options);
+
+        view.dispatch({
+            changes: change,
+            effects: EditorView.scrollIntoView(position),
+            userEvent: 'input.tableOfContents',
+        });
+
+        return true;
+    } catch (error) {
+        logger.error('Failed to insert table of contents', error);
+        return false;
+    }
+}
+
+interface OutlineNumberingEdit {
+    /** Heading and link changes, in document order */
+    changes: TextChange[];
+    /** Old anchor → new anchor, for every heading whose anchor changes */
+    renamedAnchors: Map<string, string>;
+    sameNoteLinkCount: number;
+}
+
+/**
+ * Computes the edit that writes, updates or removes outline numbers in the heading text and
+ * points links in the note at the changed anchors.
+ *
+ * @returns null when the numbers are already as requested
+ */
+function computeOutlineNumbering(
+    state: EditorState,
+    headings: HeadingItem[],
+    action: OutlineNumberingAction,
+    noteId: string | null
+): OutlineNumberingEdit | null {
+    const content = state.doc.toString();
+    const headingChanges = computeOutlineNumberingChanges(content, headings, action);
+    if (!headingChanges.length) {
+        return null;
+    }
+
+    const numbered = state.update({ changes: headingChanges }).state.doc.toString();
+    const renamedAnchors = mapRenamedAnchors(headings, extractHeadings(numbered));
+    const linkChanges = computeAnchorLinkChanges(content, renamedAnchors, noteId, true);
+
+    return {
+        changes: [...headingChanges, ...linkChanges].sort((a, b) => a.from - b.from),
+        renamedAnchors,
+        sameNoteLinkCount: linkChanges.length,
+    };
+}
+
 /**
  * Builds the CodeMirror content script module that powers the heading navigator panel.
  *
  * Registers listeners and commands on the provided editor control, keeps the heading list
  * and active selection in sync with document changes, and routes panel actions (preview,
- * select, copy, close) back to the editor or plugin host as needed.
+ * select, copy, move, close) back to the editor or plugin host as needed.
  *
  * @param context - Messaging bridge used when the panel requests privileged actions
  * @returns Content script module consumed by Joplin's editor runtime
@@ -349,17 +660,44 @@ export default function headingNavigator(context: ContentScriptContext): Markdow
             const view = editorControl.editor as EditorView;
             let panel: HeadingPanel | null = null;
             let headings: HeadingItem[] = [];
-            let panelDimensions: PanelDimensions = normalizePanelDimensions();
+            const headingExtractor = new IncrementalHeadingExtractor();
+            let panelOptions: PanelOptions = normalizePanelOptions();
             let initialSelectionRange: { from: number; to: number } | null = null;
             let initialScrollSnapshot: ReturnType<EditorView['scrollSnapshot']> | null = null;
             const noteIdFacet = editorControl.joplinExtensions?.noteIdFacet;
+            // Keyed by note id: the editor view is reused when another note is opened
+            const jumpHistories = new Map<string, JumpHistory<JumpPosition>>();
+            // Pinned headings of the note the panel was last opened for
+            let pins: HeadingReference[] = [];
+            let pinsNoteId: string | null = null;
+            let pinsRequest = 0;
+            // Recently visited headings of the note the panel was last opened for, most recent first
+            let recents: HeadingReference[] = [];
+            let recentsNoteId: string | null = null;
+            let recentsRequest = 0;
+            let recentsLoad: Promise<void> = Promise.resolve();
+            // Backlink counts of the note the panel was last opened for
+            let backlinkCounts: HeadingBacklinkCount[] = [];
+            let backlinksNoteId: string | null = null;
+            let backlinksRequest = 0;
+            // Section statistics are only kept up to date while the panel is open
+            const sectionStatisticsTracker = new SectionStatisticsTracker();
+            // Headings for the outline sync, focus mode and breadcrumb bar, parsed while any is on
+            const headingTracker = new HeadingTracker(view);
+            const focusMode = new FocusMode(view, headingTracker);
+            const breadcrumbBar = new BreadcrumbBar(view, headingTracker, (heading) => {
+                if (panel?.isOpen()) {
+                    closePanel();
+                }
+                setEditorSelection(view, heading, true);
+            });
 
-            const resolveNoteId = (): string | null => {
+            const resolveNoteId = (state: EditorState = view.state): string | null => {
                 if (!noteIdFacet) {
                     return null;
                 }
                 try {
-                    const value = view.state.facet(noteIdFacet);
+                    const value = state.facet(noteIdFacet);
                     if (Array.isArray(value)) {
                         const candidate = value[0];
                         return typeof candidate === 'string' && candidate ? candidate : null;
@@ -385,6 +723,7 @@ export default function headingNavigator(context: ContentScriptContext): Markdow
                     noteId,
                     headingText: heading.text,
                     headingAnchor: heading.anchor,
+                    headingPath: getAncestors(buildHeadingTree(headings), heading.id).map((ancestor) => ancestor.text),
                 };
 
                 try {
@@ -394,6 +733,355 @@ export default function headingNavigator(context: ContentScriptContext): Markdow
                 }
             };
 
+            /**
+             * Sends a section's Markdown to the host, which writes it to the clipboard in the
+             * configured format.
+             */
+            const sendCopySectionRequest = async (
+                sectionHeadings: HeadingItem[],
+                heading: HeadingItem
+            ): Promise<boolean> => {
+                const index = sectionHeadings.findIndex((item) => item.id === heading.id);
+                if (index < 0) {
+                    return false;
+                }
+
+                const content = view.state.doc.toString();
+                const message: ContentScriptToPluginMessage = {
+                    type: 'copySection',
+                    markdown: getSectionText(content, sectionHeadings, index),
+                    rebasedMarkdown: getSectionText(content, sectionHeadings, index, true),
+                };
+
+                try {
+                    await context.postMessage(message);
+                    return true;
+                } catch (error) {
+                    logger.error('Failed to request section copy', error);
+                    return false;
+                }
+            };
+
+            const savePins = async (noteId: string): Promise<void> => {
+                const message: ContentScriptToPluginMessage = { type: 'savePinnedHeadings', noteId, pins };
+                try {
+                    await context.postMessage(message);
+                } catch (error) {
+                    logger.error('Failed to save pinned headings', error);
+                }
+            };
+
+            /**
+             * Loads the note's pinned headings into the open panel. References whose heading was
+             * renamed or moved are refreshed and saved back.
+             */
+            const loadPins = async (): Promise<void> => {
+                const noteId = resolveNoteId();
+                const request = ++pinsRequest;
+                if (noteId !== pinsNoteId) {
+                    pins = [];
+                    pinsNoteId = noteId;
+                }
+                panel?.setPins(pins);
+                if (!noteId) {
+                    return;
+                }
+
+                try {
+                    const message: ContentScriptToPluginMessage = { type: 'getPinnedHeadings', noteId };
+                    const stored = normalizeHeadingReferences(await context.postMessage(message));
+                    if (request !== pinsRequest) {
+                        return;
+                    }
+
+                    const resolved = resolveHeadingReferences(stored, headings);
+                    pins = resolved.references;
+                    panel?.setPins(pins);
+                    if (resolved.changed) {
+                        await savePins(noteId);
+                    }
+                } catch (error) {
+                    logger.error('Failed to load pinned headings', error);
+                }
+            };
+
+            /**
+             * Refreshes the backlink counts; the previous counts of the same note are shown until
+             * the host has searched the other notes.
+             */
+            const loadBacklinkCounts = async (): Promise<void> => {
+                const noteId = resolveNoteId();
+                const request = ++backlinksRequest;
+                if (noteId !== backlinksNoteId) {
+                    backlinkCounts = [];
+                    backlinksNoteId = noteId;
+                }
+                panel?.setBacklinkCounts(backlinkCounts);
+                if (!noteId || !panelOptions.showBacklinkCounts) {
+                    return;
+                }
+
+                try {
+                    const message: ContentScriptToPluginMessage = { type: 'getHeadingBacklinkCounts', noteId };
+                    const response = await context.postMessage(message);
+                    if (request !== backlinksRequest) {
+                        return;
+                    }
+
+                    backlinkCounts = normalizeBacklinkCounts(response);
+                    panel?.setBacklinkCounts(backlinkCounts);
+                } catch (error) {
+                    logger.error('Failed to load heading backlink counts', error);
+                }
+            };
+
+            const showBacklinks = (heading: HeadingItem): void => {
+                const noteId = resolveNoteId();
+                if (!noteId) {
+                    return;
+                }
+
+                // The host lists the links in a dialog and may open another note
+                closePanel();
+                const message: ContentScriptToPluginMessage = {
+                    type: 'showHeadingBacklinks',
+                    noteId,
+                    anchor: heading.anchor,
+                    headingText: heading.text,
+                };
+                context
+                    .postMessage(message)
+                    .catch((error) => logger.error('Failed to request heading backlinks', error));
+            };
+
+            const togglePin = (heading: HeadingItem): void => {
+                const noteId = resolveNoteId();
+                if (!noteId) {
+                    logger.warn('Unable to pin heading because the active note id is unavailable', {
+                        headingId: heading.id,
+                    });
+                    return;
+                }
+
+                // A load still in flight would overwrite the toggled pins
+                pinsRequest++;
+                pins = toggleHeadingReference(pins, headings, heading);
+                panel?.setPins(pins);
+                void savePins(noteId);
+            };
+
+            const saveRecents = async (noteId: string): Promise<void> => {
+                const message: ContentScriptToPluginMessage = { type: 'saveRecentHeadings', noteId, headings: recents };
+                try {
+                    await context.postMessage(message);
+                } catch (error) {
+                    logger.error('Failed to save recent headings', error);
+                }
+            };
+
+            const loadRecents = async (): Promise<void> => {
+                const noteId = resolveNoteId();
+                const request = ++recentsRequest;
+                if (noteId !== recentsNoteId) {
+                    recents = [];
+                    recentsNoteId = noteId;
+                }
+                panel?.setRecents(recents);
+                if (!noteId || !panelOptions.recentHeadingsCount) {
+                    return;
+                }
+
+                try {
+                    const message: ContentScriptToPluginMessage = { type: 'getRecentHeadings', noteId };
+                    const stored = normalizeHeadingReferences(await context.postMessage(message));
+                    if (request !== recentsRequest) {
+                        return;
+                    }
+
+                    recents = stored;
+                    panel?.setRecents(recents);
+                } catch (error) {
+                    logger.error('Failed to load recent headings', error);
+                }
+            };
+
+            /**
+             * Records a jump from the panel: both the section it was opened from and the selected
+             * heading become recent, so the previous section is listed when jumping back.
+             */
+            const recordVisit = (heading: HeadingItem): void => {
+                const noteId = resolveNoteId();
+                const limit = panelOptions.recentHeadingsCount;
+                if (!noteId || !limit || noteId !== recentsNoteId) {
+                    return;
+                }
+
+                const visitHeadings = headings;
+                const origin = initialSelectionRange
+                    ? findSectionHeading(visitHeadings, initialSelectionRange.from)
+                    : null;
+
+                // Wait for the stored list so the visit isn't recorded on top of an empty one
+                void recentsLoad.then(() => {
+                    if (noteId !== recentsNoteId) {
+                        return;
+                    }
+                    // The current heading is never listed, so one extra entry is kept
+                    if (origin && origin.id !== heading.id) {
+                        recents = recordHeadingVisit(recents, visitHeadings, origin, limit + 1);
+                    }
+                    recents = recordHeadingVisit(recents, visitHeadings, heading, limit + 1);
+                    return saveRecents(noteId);
+                });
+            };
+
+            /**
+             * Has the host point the links in other notes at anchors the editor has just renamed.
+             * Sent after the edit, so links never point at a rename that wasn't applied.
+             */
+            const updateLinksInOtherNotes = async (noteId: string, renamedAnchors: Map<string, string>) => {
+                const message: ContentScriptToPluginMessage = {
+                    type: 'updateHeadingLinks',
+                    noteId,
+                    renamedAnchors: [...renamedAnchors],
+                };
+                try {
+                    await context.postMessage(message);
+                } catch (error) {
+                    logger.error('Failed to update heading links in other notes', error);
+                }
+            };
+
+            /**
+             * Renames a heading and updates the links in the note. When links point to the
+             * heading, the host previews the change first; links in other notes are updated once
+             * the rename is applied.
+             */
+            const renameHeading = async (heading: HeadingItem, text: string): Promise<void> => {
+                try {
+                    const noteId = resolveNoteId();
+                    const doc = view.state.doc;
+                    let rename = computeHeadingRename(doc.toString(), getCurrentHeadings(), heading.id, text, noteId);
+                    if (!rename) {
+                        return;
+                    }
+
+                    if (noteId && rename.renamedAnchors.size) {
+                        const message: ContentScriptToPluginMessage = {
+                            type: 'renameHeading',
+                            noteId,
+                            oldText: heading.text,
+                            newText: text.trim(),
+                            renamedAnchors: [...rename.renamedAnchors],
+                            sameNoteLinkCount: rename.changes.length - 1,
+                        };
+                        if (!(await context.postMessage(message)) || resolveNoteId() !== noteId) {
+                            return;
+                        }
+
+                        // The note may have been edited while the preview was open
+                        if (view.state.doc !== doc) {
+                            const currentHeadings = getCurrentHeadings();
+                            const current = currentHeadings.find((item) => item.anchor === heading.anchor);
+                            rename = current
+                                ? computeHeadingRename(
+                                      view.state.doc.toString(),
+                                      currentHeadings,
+                                      current.id,
+                                      text,
+                                      noteId
+                                  )
+                                : null;
+                            if (!rename) {
+                                logger.warn('Heading changed while renaming; rename not applied', {
+                                    anchor: heading.anchor,
+                                });
+                                return;
+                            }
+                        }
+                    }
+
+                    const { changes, renamedAnchors } = rename;
+                    view.dispatch({ changes, userEvent: 'input.renameHeading' });
+
+                    const renamedHeadings = getCurrentHeadings();
+                    if (noteId && noteId === pinsNoteId) {
+                        pins = renameHeadingReferences(pins, renamedAnchors, renamedHeadings);
+                        panel?.setPins(pins);
+                        void savePins(noteId);
+                    }
+                    if (noteId && noteId === recentsNoteId) {
+                        recents = renameHeadingReferences(recents, renamedAnchors, renamedHeadings);
+                        panel?.setRecents(recents);
+                        void saveRecents(noteId);
+                    }
+
+                    if (noteId && renamedAnchors.size) {
+                        await updateLinksInOtherNotes(noteId, renamedAnchors);
+                        // Links in other notes now point to the new anchors
+                        if (panel?.isOpen()) {
+                            void loadBacklinkCounts();
+                        }
+                    }
+                } catch (error) {
+                    logger.error('Failed to rename heading', error);
+                }
+            };
+
+            const getJumpHistory = (): JumpHistory<JumpPosition> => {
+                const noteId = resolveNoteId() ?? '';
+                let history = jumpHistories.get(noteId);
+                if (!history) {
+                    history = new JumpHistory<JumpPosition>();
+                    jumpHistories.set(noteId, history);
+                }
+                return history;
+            };
+
+            /**
+             * Records the position the panel was opened from; previews have already moved the
+             * cursor by the time a heading is selected.
+             */
+            const recordJump = (): void => {
+                if (initialSelectionRange) {
+                    getJumpHistory().push({ ...initialSelectionRange, scrollSnapshot: initialScrollSnapshot });
+                }
+            };
+
+            const navigateJumpHistory = (direction: 'back' | 'forward'): boolean => {
+                const history = getJumpHistory();
+                const selection = view.state.selection.main;
+                const current: JumpPosition = {
+                    from: selection.from,
+                    to: selection.to,
+                    scrollSnapshot: view.scrollSnapshot(),
+                };
+                const target = direction === 'back' ? history.back(current) : history.forward(current);
+                if (!target) {
+                    return false;
+                }
+
+                if (panel?.isOpen()) {
+                    closePanel();
+                }
+                cancelPendingVerification(view);
+
+                try {
+                    // Positions are mapped through edits, but the note may have been changed elsewhere
+                    const length = view.state.doc.length;
+                    view.dispatch({
+                        selection: EditorSelection.range(Math.min(target.from, length), Math.min(target.to, length)),
+                        effects: target.scrollSnapshot ?? EditorView.scrollIntoView(Math.min(target.to, length)),
+                        userEvent: 'select',
+                    });
+                    view.focus();
+                    return true;
+                } catch (error) {
+                    logger.warn('Failed to restore position from jump history', error);
+                    return false;
+                }
+            };
+
             const ensurePanel = (): HeadingPanel => {
                 if (!panel) {
                     panel = new HeadingPanel(
@@ -403,6 +1091,8 @@ export default function headingNavigator(context: ContentScriptContext): Markdow
                                 setEditorSelection(view, heading, false);
                             },
                             onSelect: (heading) => {
+                                recordJump();
+                                recordVisit(heading);
                                 setEditorSelection(view, heading, true);
                                 closePanel(true);
                             },
@@ -412,22 +1102,85 @@ export default function headingNavigator(context: ContentScriptContext): Markdow
                             onCopy: (heading) => {
                                 void sendCopyRequest(heading);
                             },
+                            onCopySection: (heading) => {
+                                void sendCopySectionRequest(headings, heading);
+                            },
+                            onMoveSection: (heading, direction) => {
+                                moveSection(view, headings, heading, direction);
+                            },
+                            onChangeLevel: (heading, delta, includeSubheadings) => {
+                                changeHeadingLevel(view, headings, heading, delta, includeSubheadings);
+                            },
+                            onTogglePin: (heading) => {
+                                togglePin(heading);
+                            },
+                            onRename: (heading, text) => {
+                                void renameHeading(heading, text);
+                            },
+                            onShowBacklinks: (heading) => {
+                                showBacklinks(heading);
+                            },
+                            onToggleFold: (heading) => {
+                                toggleSectionFold(view, headings, heading);
+                            },
+                            onFoldOthers: (heading) => {
+                                replaceFolds(view, (content) => getFoldRangesExcept(content, headings, heading.id));
+                            },
+                            onToggleFocusMode: () => {
+                                panel?.setFocusMode(focusMode.toggle(panelOptions.focusModeStyle));
+                            },
+                            onFoldToLevel: (level) => {
+                                replaceFolds(view, (content) =>
+                                    level > 0 ? getFoldRangesToLevel(content, headings, level) : []
+                                );
+                            },
                         },
-                        panelDimensions
+                        panelOptions
                     );
                 }
 
                 return panel;
             };
 
+            /**
+             * Recounts the sections touched by `changes` (all sections without them) and hands the
+             * statistics to the panel, which shows them with its next render.
+             */
+            const updateSectionStatistics = (changes?: DocumentChangeMapping): void => {
+                if (!panel || !panelOptions.showSectionStatistics) {
+                    return;
+                }
+
+                const { doc } = view.state;
+                panel.setSectionStatistics(
+                    sectionStatisticsTracker.update(
+                        headings,
+                        doc.length,
+                        (from, to) => doc.sliceString(from, to),
+                        changes
+                    )
+                );
+            };
+
+            const updateFoldedHeadings = (): void => {
+                panel?.setFoldedHeadings(findFoldedHeadingIds(headings, getFoldedRanges(view.state)));
+            };
+
             const openPanel = (): void => {
-                headings = computeHeadings(view.state);
+                headings = computeHeadings(headingExtractor, view.state);
                 const activeHeadingId = findActiveHeadingId(headings, view.state.selection.main.head);
                 const selection = view.state.selection.main;
                 initialSelectionRange = { from: selection.from, to: selection.to };
                 initialScrollSnapshot = view.scrollSnapshot();
 
-                ensurePanel().open(headings, activeHeadingId);
+                const headingPanel = ensurePanel();
+                updateSectionStatistics();
+                updateFoldedHeadings();
+                headingPanel.setFocusMode(focusMode.isEnabled());
+                headingPanel.open(headings, activeHeadingId);
+                void loadPins();
+                recentsLoad = loadRecents();
+                void loadBacklinkCounts();
             };
 
             const updatePanel = (): void => {
@@ -442,6 +1195,9 @@ export default function headingNavigator(context: ContentScriptContext): Markdow
             const closePanel = (focusEditor = false, restoreOriginalPosition = false): void => {
                 panel?.destroy();
                 panel = null;
+                // Edits made while the panel is closed aren't tracked, so the cached tree goes stale
+                headingExtractor.reset();
+                sectionStatisticsTracker.reset();
 
                 if (restoreOriginalPosition && initialSelectionRange) {
                     cancelPendingVerification(view);
@@ -467,11 +1223,11 @@ export default function headingNavigator(context: ContentScriptContext): Markdow
                 ensureEditorFocus(view, focusEditor);
             };
 
-            const togglePanel = (dimensions?: PanelDimensions): void => {
-                if (dimensions) {
-                    panelDimensions = normalizePanelDimensions(dimensions);
+            const togglePanel = (options?: Partial<PanelOptions>): void => {
+                if (options) {
+                    panelOptions = normalizePanelOptions(options);
                     if (panel) {
-                        panel.setOptions(panelDimensions);
+                        panel.setOptions(panelOptions);
                     }
                 }
 
@@ -482,22 +1238,256 @@ export default function headingNavigator(context: ContentScriptContext): Markdow
                 }
             };
 
+            // The cached list is only kept current while the panel is open
+            const getCurrentHeadings = (): HeadingItem[] => {
+                if (panel?.isOpen()) {
+                    return headings;
+                }
+                return computeHeadings(headingExtractor, view.state);
+            };
+
+            const changeCurrentSectionLevel = (
+                delta: HeadingLevelDelta,
+                options?: HeadingLevelCommandOptions
+            ): boolean => {
+                const currentHeadings = getCurrentHeadings();
+                const heading = findSectionHeading(currentHeadings, view.state.selection.main.head);
+                if (!heading) {
+                    return false;
+                }
+
+                const includeSubheadings = options?.includeSubheadings ?? panelOptions.includeSubheadings;
+                return changeHeadingLevel(view, currentHeadings, heading, delta, includeSubheadings);
+            };
+
+            /**
+             * Moves the cursor to a heading relative to the cursor without opening the panel.
+             *
+             * @returns false when there is no heading in that direction
+             */
+            const jumpToHeading = (jump: HeadingJump): boolean => {
+                if (!HEADING_JUMPS.includes(jump)) {
+                    return false;
+                }
+
+                const target = findHeadingJumpTarget(getCurrentHeadings(), view.state.selection.main.head, jump);
+                if (!target) {
+                    return false;
+                }
+
+                setEditorSelection(view, target, true);
+                return true;
+            };
+
+            const copyCurrentSection = async (): Promise<boolean> => {
+                const currentHeadings = getCurrentHeadings();
+                const heading = findSectionHeading(currentHeadings, view.state.selection.main.head);
+                return heading ? sendCopySectionRequest(currentHeadings, heading) : false;
+            };
+
+            /**
+             * Writes, updates or removes outline numbers and the links in the note, in a single
+             * transaction. When anchors change, the host first updates the links in other notes.
+             *
+             * @returns true if the document changed
+             */
+            const applyCurrentOutlineNumbering = async (action: OutlineNumberingAction): Promise<boolean> => {
+                try {
+                    const noteId = resolveNoteId();
+                    const doc = view.state.doc;
+                    let numbering = computeOutlineNumbering(view.state, getCurrentHeadings(), action, noteId);
+                    if (!numbering) {
+                        return false;
+                    }
+
+                    if (noteId && numbering.renamedAnchors.size) {
+                        const message: ContentScriptToPluginMessage = {
+                            type: 'outlineNumbering',
+                            noteId,
+                            action,
+                            renamedAnchors: [...numbering.renamedAnchors],
+                            sameNoteLinkCount: numbering.sameNoteLinkCount,
+                        };
+                        if (!(await context.postMessage(message)) || resolveNoteId() !== noteId) {
+                            return false;
+                        }
+
+                        // The note may have been edited while the preview was open
+                        if (view.state.doc !== doc) {
+                            numbering = computeOutlineNumbering(view.state, getCurrentHeadings(), action, noteId);
+                            if (!numbering) {
+                                return false;
+                            }
+                        }
+                    }
+
+                    view.dispatch({ changes: numbering.changes, userEvent: 'input.outlineNumbering' });
+                    if (noteId && numbering.renamedAnchors.size) {
+                        await updateLinksInOtherNotes(noteId, numbering.renamedAnchors);
+                    }
+                    return true;
+                } catch (error) {
+                    logger.error('Failed to update outline numbering', error);
+                    return false;
+                }
+            };
+
+            const insertCurrentTableOfContents = (options?: Partial<TableOfContentsOptions>): boolean => {
+                return insertTableOfContents(view, getCurrentHeadings(), normalizeTableOfContentsOptions(options));
+            };
+
+            /**
+             * Scrolls to the heading with the given anchor.
+             *
+             * Returns false while another note is loaded so the host can retry until the editor
+             * has switched to the target note.
+             */
+            const goToAnchor = (target?: HeadingNavigationTarget): boolean => {
+                if (!target?.anchor || (target.noteId && resolveNoteId() !== target.noteId)) {
+                    return false;
+                }
+
+                const heading = getCurrentHeadings().find((candidate) => candidate.anchor === target.anchor);
+                if (!heading) {
+                    return false;
+                }
+
+                if (panel?.isOpen()) {
+                    closePanel();
+                }
+                setEditorSelection(view, heading, true);
+                return true;
+            };
+
+            const isRangeInCurrentNote = (target?: EditorRangeTarget): target is EditorRangeTarget =>
+                Boolean(target) &&
+                resolveNoteId() === target.noteId &&
+                target.from >= 0 &&
+                target.from <= target.to &&
+                target.to <= view.state.doc.length;
+
+            const selectRange = (target?: EditorRangeTarget): boolean => {
+                if (!isRangeInCurrentNote(target)) {
+                    return false;
+                }
+
+                if (panel?.isOpen()) {
+                    closePanel();
+                }
+                const selection = EditorSelection.single(target.from, target.to);
+                view.dispatch({ selection, effects: EditorView.scrollIntoView(selection.main, { y: 'center' }) });
+                view.focus();
+                return true;
+            };
+
+            const replaceRange = (replacement?: EditorRangeReplacement): boolean => {
+                if (
+                    !isRangeInCurrentNote(replacement) ||
+                    view.state.doc.sliceString(replacement.from, replacement.to) !== replacement.expected
+                ) {
+                    return false;
+                }
+
+                view.dispatch({
+                    changes: { from: replacement.from, to: replacement.to, insert: replacement.insert },
+                    userEvent: 'input.replaceRange',
+                });
+                return true;
+            };
+
+            const loadTableOfContentsOptions = async (): Promise<TableOfContentsOptions | null> => {
+                const message: ContentScriptToPluginMessage = { type: 'getTableOfContentsOptions' };
+                const response = await context.postMessage(message);
+                return response && typeof response === 'object'
+                    ? normalizeTableOfContentsOptions(response as Partial<TableOfContentsOptions>)
+                    : null;
+            };
+
             const updateListener = EditorView.updateListener.of((update: ViewUpdate) => {
+                // Loading another note replaces the document; the old note's positions stay as they are
+                const noteId = resolveNoteId(update.state);
+                if (update.docChanged && noteId === resolveNoteId(update.startState)) {
+                    jumpHistories.get(noteId ?? '')?.map((position) => ({
+                        from: update.changes.mapPos(position.from),
+                        to: update.changes.mapPos(position.to),
+                        scrollSnapshot: position.scrollSnapshot?.map(update.changes) ?? null,
+                    }));
+                }
+
                 // Skip all work when panel is closed - headings are computed fresh in openPanel()
                 if (!panel || !panel.isOpen()) {
                     return;
                 }
 
+                const foldsChanged = foldedRanges(update.startState) !== foldedRanges(update.state);
                 if (update.docChanged) {
-                    headings = computeHeadings(update.state);
-                    updatePanel();
-                } else if (update.selectionSet) {
+                    headings = computeHeadingsAfterChange(headingExtractor, update);
+                    updateSectionStatistics(update.changes);
+                }
+                if (update.docChanged || foldsChanged) {
+                    updateFoldedHeadings();
+                }
+                if (update.docChanged || update.selectionSet || foldsChanged) {
                     updatePanel();
                 }
             });
 
             editorControl.addExtension(updateListener);
+            editorControl.addExtension(createTableOfContentsSync(loadTableOfContentsOptions));
+
+            const outlineSync = new OutlineSync(
+                view,
+                headingTracker,
+                (message) => context.postMessage(message),
+                resolveNoteId
+            );
+            editorControl.addExtension(headingTracker.extension);
+            editorControl.addExtension(focusMode.extension);
+            editorControl.addExtension(breadcrumbBar.extension);
             editorControl.registerCommand(EDITOR_COMMAND_TOGGLE_PANEL, togglePanel);
+            editorControl.registerCommand(EDITOR_COMMAND_PROMOTE_HEADING, (options?: HeadingLevelCommandOptions) =>
+                changeCurrentSectionLevel(-1, options)
+            );
+            editorControl.registerCommand(EDITOR_COMMAND_DEMOTE_HEADING, (options?: HeadingLevelCommandOptions) =>
+                changeCurrentSectionLevel(1, options)
+            );
+            editorControl.registerCommand(EDITOR_COMMAND_COPY_SECTION, copyCurrentSection);
+            editorControl.registerCommand(EDITOR_COMMAND_INSERT_TABLE_OF_CONTENTS, insertCurrentTableOfContents);
+            editorControl.registerCommand(EDITOR_COMMAND_GO_TO_ANCHOR, goToAnchor);
+            editorControl.registerCommand(EDITOR_COMMAND_APPLY_OUTLINE_NUMBERING, (action?: OutlineNumberingAction) =>
+                applyCurrentOutlineNumbering(action === 'strip' ? 'strip' : 'number')
+            );
+            editorControl.registerCommand(EDITOR_COMMAND_JUMP_TO_HEADING, jumpToHeading);
+            editorControl.registerCommand(EDITOR_COMMAND_SELECT_RANGE, selectRange);
+            editorControl.registerCommand(EDITOR_COMMAND_REPLACE_RANGE, replaceRange);
+            editorControl.registerCommand(EDITOR_COMMAND_TOGGLE_FOCUS_MODE, (options?: FocusModeCommandOptions) =>
+                focusMode.toggle(normalizeFocusModeStyle(options?.style).value)
+            );
+            editorControl.registerCommand(EDITOR_COMMAND_JUMP_BACK, () => navigateJumpHistory('back'));
+            editorControl.registerCommand(EDITOR_COMMAND_JUMP_FORWARD, () => navigateJumpHistory('forward'));
+            editorControl.registerCommand(EDITOR_COMMAND_SET_OUTLINE_SYNC, (enabled: boolean) =>
+                outlineSync.setEnabled(Boolean(enabled))
+            );
+            editorControl.registerCommand(EDITOR_COMMAND_SET_BREADCRUMB_BAR, (enabled: boolean) =>
+                breadcrumbBar.setEnabled(Boolean(enabled))
+            );
+
+            const breadcrumbBarMessage: ContentScriptToPluginMessage = { type: 'getBreadcrumbBarEnabled' };
+            context
+                .postMessage(breadcrumbBarMessage)
+                .then((enabled) => breadcrumbBar.setEnabled(enabled === true))
+                .catch((error) => logger.warn('Failed to load breadcrumb bar setting', error));
+
+            // The host only enables syncing when the sidebar is shown, which may predate this editor
+            const outlineVisibleMessage: ContentScriptToPluginMessage = { type: 'getOutlineVisible' };
+            context
+                .postMessage(outlineVisibleMessage)
+                .then((visible) => {
+                    if (visible === true) {
+                        outlineSync.setEnabled(true);
+                    }
+                })
+                .catch((error) => logger.warn('Failed to load outline sidebar visibility', error));
         },
     };
 }
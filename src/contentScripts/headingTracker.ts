@@ -0,0 +1,203 @@
+/**
+ * Keeps the editor's headings up to date for the editor features that follow them in the
+ * background: the outline sync, focus mode and the breadcrumb bar.
+ *
+ * The note is only parsed while at least one listener is subscribed. Document edits are
+ * debounced and re-parsed incrementally, and listeners are told once the new headings are ready.
+ * Cursor and geometry changes are passed on right away, but only while no edit is pending, since
+ * heading offsets are stale until the edit has been parsed.
+ *
+ * The tracker is a view plugin: CodeMirror recreates view plugins when the editor state is
+ * replaced (e.g. when Joplin loads another note), which triggers a full re-parse.
+ *
+ * See:
+ * - outlineSync.ts, focusMode.ts, breadcrumbBar.ts - Listeners
+ * - headingNavigator.ts - Creates the tracker and registers its extension
+ */
+
+import { ChangeSet, Text } from '@codemirror/state';
+import { EditorView, ViewPlugin, ViewUpdate } from '@codemirror/view';
+import type { ChangedRange } from '@lezer/common';
+import type { HeadingItem } from '../types';
+import { IncrementalHeadingExtractor } from '../headingExtractor';
+import logger from '../logger';
+
+// Batches keystrokes so the note isn't re-parsed for every character typed
+const HEADING_UPDATE_DELAY_MS = 200;
+
+export interface HeadingTrackerListener {
+    /** The headings were re-parsed, or the listener was just subscribed */
+    headingsChanged(): void;
+    /** The cursor moved; called during the editor update */
+    selectionChanged?(): void;
+    /** The editor's layout changed; called during the editor update */
+    geometryChanged?(): void;
+}
+
+export class HeadingTracker {
+    readonly extension = ViewPlugin.define(() => {
+        this.scheduleFullParse();
+        return {
+            update: (update: ViewUpdate) => this.handleUpdate(update),
+            // A pending parse would read the state of a destroyed editor
+            destroy: () => this.cancel(),
+        };
+    });
+
+    private readonly listeners = new Set<HeadingTrackerListener>();
+    private timeoutId: number | null = null;
+    private pendingChanges: ChangeSet | null = null;
+    private needsFullParse = true;
+    private doc: Text = Text.empty;
+    private content: string | null = null;
+    private headings: HeadingItem[] = [];
+    private readonly extractor = new IncrementalHeadingExtractor();
+
+    constructor(private readonly view: EditorView) {}
+
+    /**
+     * Starts notifying a listener. It is told about the current headings right away when they are
+     * up to date, or once the pending parse is done.
+     */
+    subscribe(listener: HeadingTrackerListener): void {
+        this.listeners.add(listener);
+
+        if (this.needsFullParse && this.timeoutId === null) {
+            this.schedule(0);
+        } else if (!this.isPending()) {
+            listener.headingsChanged();
+        }
+    }
+
+    /**
+     * Stops notifying a listener. Without listeners, the parsed note is dropped.
+     */
+    unsubscribe(listener: HeadingTrackerListener): void {
+        this.listeners.delete(listener);
+        if (this.listeners.size) {
+            return;
+        }
+
+        this.cancel();
+        this.extractor.reset();
+        this.needsFullParse = true;
+        this.pendingChanges = null;
+        this.doc = Text.empty;
+        this.content = null;
+        this.headings = [];
+    }
+
+    getHeadings(): HeadingItem[] {
+        return this.headings;
+    }
+
+    /**
+     * Document text the headings were parsed from. Built on first use after each parse, since
+     * most listeners don't need it.
+     */
+    getContent(): string {
+        this.content ??= this.doc.toString();
+        return this.content;
+    }
+
+    /**
+     * Whether an edit is waiting to be parsed, making the current heading offsets stale.
+     */
+    isPending(): boolean {
+        return this.timeoutId !== null;
+    }
+
+    /**
+     * Maps a position in the parsed document to the current document.
+     */
+    mapPos(position: number): number {
+        return this.pendingChanges?.mapPos(position) ?? position;
+    }
+
+    /**
+     * Parses a pending edit right away and notifies the listeners.
+     */
+    flush(): void {
+        if (this.isPending()) {
+            this.cancel();
+            this.refresh();
+        }
+    }
+
+    private handleUpdate(update: ViewUpdate): void {
+        if (!this.listeners.size) {
+            return;
+        }
+
+        if (update.docChanged) {
+            this.pendingChanges = this.pendingChanges ? this.pendingChanges.compose(update.changes) : update.changes;
+            this.schedule(HEADING_UPDATE_DELAY_MS);
+            return;
+        }
+
+        if (this.isPending()) {
+            return;
+        }
+        for (const listener of this.listeners) {
+            if (update.selectionSet) {
+                listener.selectionChanged?.();
+            }
+            if (update.geometryChanged) {
+                listener.geometryChanged?.();
+            }
+        }
+    }
+
+    private scheduleFullParse(): void {
+        this.needsFullParse = true;
+        this.pendingChanges = null;
+        this.schedule(0);
+    }
+
+    private schedule(delay: number): void {
+        if (!this.listeners.size) {
+            return;
+        }
+
+        this.cancel();
+        this.timeoutId = window.setTimeout(() => {
+            this.timeoutId = null;
+            this.refresh();
+        }, delay);
+    }
+
+    private cancel(): void {
+        if (this.timeoutId !== null) {
+            window.clearTimeout(this.timeoutId);
+            this.timeoutId = null;
+        }
+    }
+
+    private refresh(): void {
+        try {
+            const { doc } = this.view.state;
+            if (this.needsFullParse || !this.pendingChanges) {
+                this.headings = this.extractor.extract(doc);
+            } else {
+                const changedRanges: ChangedRange[] = [];
+                this.pendingChanges.iterChangedRanges((fromA, toA, fromB, toB) => {
+                    changedRanges.push({ fromA, toA, fromB, toB });
+                });
+                this.headings = this.extractor.update(doc, changedRanges);
+            }
+
+            this.doc = doc;
+            this.content = null;
+
+            this.needsFullParse = false;
+            this.pendingChanges = null;
+        } catch (error) {
+            logger.error('Failed to update tracked headings', error);
+            return;
+        }
+
+        for (const listener of this.listeners) {
+            listener.headingsChanged();
+        }
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * Pushes the current note's headings and active heading to the plugin host for the outline
+ * sidebar.
+ *
+ * Syncing is off until the host enables it (when the sidebar is shown), so editors don't post
+ * anything while the outline is hidden. The headings come from the shared `HeadingTracker`;
+ * cursor movement only posts the active heading, and only when it changes.
+ *
+ * See:
+ * - headingTracker.ts - Parses the headings
+ * - outlinePanel.ts - Host-side sidebar that receives these messages
+ * - messages.ts - Message protocol definitions
+ */
+
+import { EditorView } from '@codemirror/view';
+import type { ContentScriptToPluginMessage } from '../messages';
+import { findActiveHeadingId } from '../headingSections';
+import type { HeadingTracker, HeadingTrackerListener } from './headingTracker';
+import logger from '../logger';
+
+export class OutlineSync {
+    private activeHeadingId: string | null = null;
+    private readonly listener: HeadingTrackerListener = {
+        headingsChanged: () => this.postHeadings(),
+        selectionChanged: () => this.postActiveHeading(),
+    };
+
+    constructor(
+        private readonly view: EditorView,
+        private readonly tracker: HeadingTracker,
+        private readonly postMessage: (message: ContentScriptToPluginMessage) => Promise<unknown>,
+        private readonly resolveNoteId: () => string | null
+    ) {}
+
+    /**
+     * Starts or stops syncing. Enabling always posts a fresh heading list.
+     */
+    setEnabled(enabled: boolean): void {
+        if (enabled) {
+            this.tracker.subscribe(this.listener);
+        } else {
+            this.tracker.unsubscribe(this.listener);
+            this.activeHeadingId = null;
+        }
+    }
+
+    private postHeadings(): void {
+        const headings = this.tracker.getHeadings();
+        this.activeHeadingId = findActiveHeadingId(headings, this.view.state.selection.main.head);
+
+        this.send({
+            type: 'outlineUpdate',
+            noteId: this.resolveNoteId(),
+            headings,
+            activeHeadingId: this.activeHeadingId,
+        });
+    }
+
+    private postActiveHeading(): void {
+        const activeHeadingId = findActiveHeadingId(this.tracker.getHeadings(), this.view.state.selection.main.head);
+        if (activeHeadingId === this.activeHeadingId) {
+            return;
+        }
+
+        this.activeHeadingId = activeHeadingId;
+        this.send({ type: 'outlineActiveHeading', noteId: this.resolveNoteId(), activeHeadingId });
+    }
+
+    private send(message: ContentScriptToPluginMessage): void {
+        this.postMessage(message).catch((error) => {
+            logger.error('Failed to send outline update', error);
+        });
+    }
+}
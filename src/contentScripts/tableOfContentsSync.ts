@@ -0,0 +1,105 @@
+/**
+ * Keeps a managed table-of-contents block in sync with the note's headings.
+ *
+ * Only edits made by the user (typing, undo, or the plugin's own heading commands) trigger a refresh:
+ * loading a note also changes the document, and regenerating its TOC then would modify a note
+ * the user only opened. Edits are debounced; once typing pauses, the TOC settings are fetched from the plugin host
+ * and the block is regenerated if its content no longer matches the headings. The refresh is
+ * kept out of the undo history so undoing an edit doesn't stop at the regenerated TOC.
+ *
+ * Notes without a TOC block are skipped before any parsing or host round-trip happens.
+ *
+ * See:
+ * - tableOfContents.ts - Block rendering and change computation
+ * - headingNavigator.ts - Registers this extension and the insert command
+ */
+
+import { Transaction } from '@codemirror/state';
+import { EditorView, ViewPlugin, ViewUpdate } from '@codemirror/view';
+import type { TableOfContentsOptions } from '../types';
+import { extractHeadings } from '../headingExtractor';
+import { computeTableOfContentsRefresh, TOC_START_MARKER } from '../tableOfContents';
+import logger from '../logger';
+
+// Long enough to not regenerate the TOC on every keystroke while typing a heading
+const TOC_REFRESH_DELAY_MS = 600;
+
+const USER_EDIT_EVENTS = ['input', 'delete', 'undo', 'redo', 'move'];
+const TOC_REFRESH_EVENT = 'input.tableOfContents';
+
+function isUserEdit(transaction: Transaction): boolean {
+    return (
+        transaction.docChanged &&
+        USER_EDIT_EVENTS.some((event) => transaction.isUserEvent(event)) &&
+        !transaction.isUserEvent(TOC_REFRESH_EVENT)
+    );
+}
+
+/**
+ * Creates the auto-refresh extension.
+ *
+ * @param loadOptions - Resolves the current TOC settings (from the plugin host)
+ */
+export function createTableOfContentsSync(loadOptions: () => Promise<TableOfContentsOptions | null>) {
+    return ViewPlugin.fromClass(
+        class {
+            private timeoutId: number | null = null;
+            private destroyed = false;
+
+            constructor(private readonly view: EditorView) {}
+
+            update(update: ViewUpdate): void {
+                if (!update.transactions.some(isUserEdit)) {
+                    return;
+                }
+
+                // Never dispatch from inside an update; schedule the refresh instead
+                this.cancel();
+                this.timeoutId = window.setTimeout(() => {
+                    this.timeoutId = null;
+                    void this.refresh();
+                }, TOC_REFRESH_DELAY_MS);
+            }
+
+            destroy(): void {
+                this.destroyed = true;
+                this.cancel();
+            }
+
+            private cancel(): void {
+                if (this.timeoutId !== null) {
+                    window.clearTimeout(this.timeoutId);
+                    this.timeoutId = null;
+                }
+            }
+
+            private async refresh(): Promise<void> {
+                if (!this.view.state.doc.toString().includes(TOC_START_MARKER)) {
+                    return;
+                }
+
+                try {
+                    const options = await loadOptions();
+                    // The editor may have been destroyed or edited again while waiting for the host
+                    if (!options?.autoRefresh || this.destroyed || this.timeoutId !== null) {
+                        return;
+                    }
+
+                    const content = this.view.state.doc.toString();
+                    const change = computeTableOfContentsRefresh(content, extractHeadings(content), options);
+                    if (!change) {
+                        return;
+                    }
+
+                    this.view.dispatch({
+                        changes: change,
+                        annotations: Transaction.addToHistory.of(false),
+                        userEvent: TOC_REFRESH_EVENT,
+                    });
+                } catch (error) {
+                    logger.error('Failed to refresh table of contents', error);
+                }
+            }
+        }
+    );
+}
@@ -16,7 +16,10 @@ describe('createPanelCss', () => {
         expect(css).toContain('.heading-navigator-list');
         expect(css).toContain('.heading-navigator-item');
         expect(css).toContain('.heading-navigator-item-level');
+        expect(css).toContain('.heading-navigator-item-path');
         expect(css).toContain('.heading-navigator-item-text');
+        expect(css).toContain('.heading-navigator-item-match');
+        expect(css).toContain('.heading-navigator-toggle');
         expect(css).toContain('.heading-navigator-copy-button');
         expect(css).toContain('.heading-navigator-empty');
     });
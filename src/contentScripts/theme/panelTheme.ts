@@ -1,9 +1,10 @@
 /**
- * Theme styling for the heading navigator panel.
+ * Theme styling for the heading navigator panel and the breadcrumb bar.
  *
  * Uses Joplin's CSS variables to automatically integrate with the active theme.
  *
  * @see createPanelCss - Generates panel styles using CSS variables
+ * @see createBreadcrumbBarCss - Generates breadcrumb bar styles using the same variables
  */
 
 import type { PanelDimensions } from '../../types';
@@ -43,6 +44,11 @@ export function createPanelCss(dimensions: PanelDimensions): string {
     overflow: hidden;
 }
 
+/* The viewer has no positioned editor container, so stay fixed to the viewport */
+.heading-navigator-panel.is-viewer {
+    position: fixed;
+}
+
 .heading-navigator-input {
     padding: 8px;
     border: none;
@@ -53,6 +59,15 @@ export function createPanelCss(dimensions: PanelDimensions): string {
     outline: none;
 }
 
+.heading-navigator-panel.is-renaming .heading-navigator-input {
+    border-bottom-color: var(--joplin-color, #32373f);
+}
+
+/* In focus mode the selected section is the focused one, so it is marked in the list too */
+.heading-navigator-panel.is-focus-mode .heading-navigator-item.is-selected {
+    box-shadow: inset 3px 0 0 var(--joplin-color, #32373f);
+}
+
 .heading-navigator-input::placeholder {
     color: var(--joplin-color-faded, #7c8b9e);
 }
@@ -84,6 +99,34 @@ export function createPanelCss(dimensions: PanelDimensions): string {
     color: var(--joplin-color, #131313);
 }
 
+.heading-navigator-levels {
+    display: flex;
+    gap: 4px;
+    padding: 4px 8px;
+    border-bottom: 1px solid var(--joplin-divider-color, #dddddd);
+}
+
+.heading-navigator-level-chip {
+    padding: 1px 6px;
+    border: 1px solid var(--joplin-divider-color, #dddddd);
+    border-radius: 10px;
+    background-color: transparent;
+    color: var(--joplin-color-faded, #7c8b9e);
+    font: inherit;
+    font-size: 11px;
+    cursor: pointer;
+}
+
+.heading-navigator-level-chip:hover {
+    background-color: var(--joplin-background-color-hover3, rgba(203, 218, 241, 0.3));
+}
+
+.heading-navigator-level-chip.is-active {
+    border-color: var(--joplin-selected-color, #cbdaf1);
+    background-color: var(--joplin-selected-color, #cbdaf1);
+    color: var(--joplin-color, #32373f);
+}
+
 .heading-navigator-list {
     margin: 0;
     padding: 0;
@@ -112,22 +155,174 @@ export function createPanelCss(dimensions: PanelDimensions): string {
     display: flex;
     flex-direction: column;
     gap: 2px;
-    padding: 8px 52px 8px 12px;
+    padding: 8px 68px 8px 12px;
     cursor: pointer;
     background-color: transparent;
 }
 
+/* Depth guide lines, one per indentation step (12px, matching the panel's per-level indent) */
+.heading-navigator-item::before {
+    content: '';
+    position: absolute;
+    top: 0;
+    bottom: 0;
+    left: 16px;
+    width: calc(var(--heading-navigator-guide-count, 0) * 12px);
+    background-image: repeating-linear-gradient(
+        to right,
+        var(--joplin-divider-color, #dddddd) 0 1px,
+        transparent 1px 12px
+    );
+    pointer-events: none;
+}
+
+.heading-navigator-toggle {
+    position: absolute;
+    top: 50%;
+    transform: translateY(-50%);
+    width: 16px;
+    height: 16px;
+    padding: 0;
+    border: none;
+    border-radius: 3px;
+    background-color: transparent;
+    color: var(--joplin-color-faded, #7c8b9e);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    cursor: pointer;
+}
+
+.heading-navigator-toggle[hidden] {
+    display: none;
+}
+
+.heading-navigator-toggle::before {
+    content: '';
+    border-left: 5px solid currentColor;
+    border-top: 4px solid transparent;
+    border-bottom: 4px solid transparent;
+    transform: rotate(90deg);
+    transition: transform 120ms ease-out;
+}
+
+.heading-navigator-item.is-collapsed .heading-navigator-toggle::before {
+    transform: rotate(0deg);
+}
+
+.heading-navigator-toggle:hover {
+    background-color: var(--joplin-background-color-hover3, rgba(203, 218, 241, 0.3));
+    color: var(--joplin-color, #32373f);
+}
+
+.heading-navigator-toggle:disabled {
+    cursor: default;
+    opacity: 0.5;
+}
+
+.heading-navigator-item.is-context .heading-navigator-item-text {
+    color: var(--joplin-color-faded, #7c8b9e);
+}
+
 .heading-navigator-item.is-selected {
     background-color: var(--joplin-selected-color, #e5e5e5);
     color: var(--joplin-color, #131313);
 }
 
+.heading-navigator-item-meta {
+    display: flex;
+    gap: 6px;
+    min-width: 0;
+    font-size: 11px;
+}
+
 .heading-navigator-item-level {
+    flex-shrink: 0;
     font-size: 11px;
     color: var(--joplin-color-faded, #7c8b9e);
 }
 
-.heading-navigator-item.is-selected .heading-navigator-item-level {
+/* Sections folded in the editor */
+.heading-navigator-item.is-folded .heading-navigator-item-level::after {
+    content: ' · folded';
+    font-style: italic;
+}
+
+.heading-navigator-item-number {
+    flex-shrink: 0;
+    font-size: 11px;
+    font-weight: 600;
+    font-variant-numeric: tabular-nums;
+}
+
+.heading-navigator-item-number:empty {
+    display: none;
+}
+
+.heading-navigator-item-backlinks {
+    flex-shrink: 0;
+    padding: 0 5px;
+    border: none;
+    border-radius: 8px;
+    background-color: var(--joplin-background-color-hover3, rgba(203, 218, 241, 0.5));
+    color: inherit;
+    font: inherit;
+    font-size: 10px;
+    line-height: 14px;
+    cursor: pointer;
+}
+
+.heading-navigator-item-backlinks:empty {
+    display: none;
+}
+
+.heading-navigator-item-backlinks:hover {
+    text-decoration: underline;
+}
+
+.heading-navigator-item-path {
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    color: var(--joplin-color-faded, #7c8b9e);
+    opacity: 0.85;
+}
+
+.heading-navigator-item-path:empty {
+    display: none;
+}
+
+.heading-navigator-item-path::before {
+    content: '· ';
+}
+
+.heading-navigator-item-stats {
+    flex-shrink: 0;
+    margin-left: auto;
+    color: var(--joplin-color-faded, #7c8b9e);
+    font-variant-numeric: tabular-nums;
+    white-space: nowrap;
+}
+
+.heading-navigator-item-stats:empty {
+    display: none;
+}
+
+/* Section size relative to the largest section of the note */
+.heading-navigator-item-size {
+    position: absolute;
+    left: 0;
+    bottom: 0;
+    height: 2px;
+    max-width: 100%;
+    background-color: var(--joplin-color-faded, #7c8b9e);
+    opacity: 0.35;
+    pointer-events: none;
+}
+
+.heading-navigator-item.is-selected .heading-navigator-item-level,
+.heading-navigator-item.is-selected .heading-navigator-item-stats,
+.heading-navigator-item.is-selected .heading-navigator-item-path {
     color: inherit;
     opacity: 0.85;
 }
@@ -139,6 +334,15 @@ export function createPanelCss(dimensions: PanelDimensions): string {
     font-weight: 400;
 }
 
+.heading-navigator-item-match {
+    background-color: transparent;
+    color: inherit;
+    font-weight: 700;
+    text-decoration: underline;
+    text-decoration-color: var(--joplin-color-faded, #7c8b9e);
+    text-underline-offset: 2px;
+}
+
 .heading-navigator-copy-button {
     position: absolute;
     top: 50%;
@@ -206,6 +410,66 @@ export function createPanelCss(dimensions: PanelDimensions): string {
     color: inherit;
 }
 
+.heading-navigator-pin-button {
+    position: absolute;
+    top: 50%;
+    transform: translateY(-50%);
+    right: 40px;
+    width: 24px;
+    height: 24px;
+    padding: 4px;
+    border: none;
+    border-radius: 4px;
+    background-color: transparent;
+    color: var(--joplin-color-faded, #7c8b9e);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    cursor: pointer;
+    opacity: 0;
+    pointer-events: none;
+    transition: opacity 160ms ease-out, color 120ms ease-out;
+}
+
+.heading-navigator-pin-button svg {
+    width: 14px;
+    height: 14px;
+    fill: none;
+    stroke: currentColor;
+    stroke-width: 2;
+    stroke-linejoin: round;
+}
+
+.heading-navigator-item:hover .heading-navigator-pin-button,
+.heading-navigator-item:focus-within .heading-navigator-pin-button,
+.heading-navigator-item.is-pinned .heading-navigator-pin-button {
+    opacity: 1;
+    pointer-events: auto;
+}
+
+.heading-navigator-pin-button:hover {
+    background-color: var(--joplin-background-color-hover3, rgba(203, 218, 241, 0.3));
+    color: var(--joplin-color, #32373f);
+}
+
+.heading-navigator-item.is-pinned .heading-navigator-pin-button svg {
+    fill: currentColor;
+}
+
+.heading-navigator-item.is-selected .heading-navigator-pin-button {
+    color: inherit;
+}
+
+.heading-navigator-group-label {
+    padding: 8px 12px 4px;
+    font-size: 11px;
+    font-weight: 600;
+    text-transform: uppercase;
+    letter-spacing: 0.04em;
+    color: var(--joplin-color-faded, #7c8b9e);
+    cursor: default;
+}
+
 .heading-navigator-empty {
     padding: 12px;
     color: var(--joplin-color-faded, #7c8b9e);
@@ -213,3 +477,123 @@ export function createPanelCss(dimensions: PanelDimensions): string {
 }
 `;
 }
+
+/**
+ * @param barHeight - Height of the bar in pixels; the editor pads its text by the same amount
+ */
+export function createBreadcrumbBarCss(barHeight: number): string {
+    return `
+.heading-navigator-breadcrumbs {
+    position: absolute;
+    top: 0;
+    left: 0;
+    right: 0;
+    z-index: 1000;
+    box-sizing: border-box;
+    height: ${barHeight}px;
+    display: flex;
+    align-items: center;
+    gap: 2px;
+    min-width: 0;
+    padding: 2px 8px;
+    font-family: system-ui, sans-serif !important;
+    font-size: 12px;
+    background-color: var(--joplin-background-color3, #f4f5f6);
+    color: var(--joplin-color-faded, #7c8b9e);
+    border-bottom: 1px solid var(--joplin-divider-color, #dddddd);
+    white-space: nowrap;
+    overflow: hidden;
+}
+
+.heading-navigator-crumb {
+    display: flex;
+    align-items: center;
+    min-width: 0;
+}
+
+.heading-navigator-crumb-separator {
+    flex-shrink: 0;
+    padding: 0 2px;
+}
+
+.heading-navigator-crumb-text,
+.heading-navigator-crumb-siblings {
+    padding: 1px 4px;
+    border: none;
+    border-radius: 3px;
+    background-color: transparent;
+    color: inherit;
+    font: inherit;
+    cursor: pointer;
+}
+
+.heading-navigator-crumb-text {
+    min-width: 0;
+    overflow: hidden;
+    text-overflow: ellipsis;
+}
+
+.heading-navigator-crumb:last-child .heading-navigator-crumb-text {
+    color: var(--joplin-color, #32373f);
+}
+
+.heading-navigator-crumb-siblings {
+    flex-shrink: 0;
+    padding: 1px 2px;
+}
+
+.heading-navigator-crumb-siblings::before {
+    content: '';
+    display: block;
+    border-top: 4px solid currentColor;
+    border-left: 4px solid transparent;
+    border-right: 4px solid transparent;
+}
+
+.heading-navigator-crumb-text:hover,
+.heading-navigator-crumb-siblings:hover,
+.heading-navigator-crumb-siblings[aria-expanded='true'] {
+    background-color: var(--joplin-background-color-hover3, rgba(203, 218, 241, 0.3));
+    color: var(--joplin-color, #32373f);
+}
+
+.heading-navigator-crumb-menu {
+    position: absolute;
+    z-index: 1001;
+    min-width: 160px;
+    max-width: 320px;
+    max-height: 50%;
+    margin: 0;
+    padding: 4px 0;
+    list-style: none;
+    overflow-y: auto;
+    font-family: system-ui, sans-serif !important;
+    font-size: 13px;
+    background-color: var(--joplin-background-color3, #f4f5f6);
+    color: var(--joplin-color, #32373f);
+    border: 1px solid var(--joplin-divider-color, #dddddd);
+    border-radius: 6px;
+    box-shadow: 0 8px 24px rgba(0, 0, 0, 0.25);
+}
+
+.heading-navigator-crumb-menu[hidden] {
+    display: none;
+}
+
+.heading-navigator-crumb-menu-item {
+    padding: 4px 12px;
+    white-space: nowrap;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    cursor: pointer;
+}
+
+.heading-navigator-crumb-menu-item:hover {
+    background-color: var(--joplin-background-color-hover3, rgba(203, 218, 241, 0.3));
+}
+
+.heading-navigator-crumb-menu-item.is-current {
+    font-weight: 600;
+}
+`;
+}
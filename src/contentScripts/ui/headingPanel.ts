@@ -1,33 +1,107 @@
 import { EditorView } from '@codemirror/view';
-import type { HeadingItem, PanelDimensions } from '../../types';
+import type { HeadingBacklinkCount, HeadingItem, HeadingReference, PanelDimensions, PanelOptions } from '../../types';
+import { filterHeadings } from '../../headingFilter';
+import {
+    buildHeadingTree,
+    getAncestors,
+    getHeadingsToCollapse,
+    getVisibleHeadings,
+    revealMatches,
+    type HeadingTree,
+} from '../../headingTree';
+import { MAX_HEADING_LEVEL, type HeadingLevelDelta, type SectionMoveDirection } from '../../headingSections';
+import { resolveHeadingReferences } from '../../headingReferences';
+import { findHeadingTextRange } from '../../headingRename';
+import { computeOutlineNumbers } from '../../outlineNumbering';
+import {
+    describeSectionStatistics,
+    formatSectionStatistics,
+    sortHeadingsBySectionSize,
+    type SectionStatistics,
+} from '../../sectionStatistics';
 import { createPanelCss } from '../theme/panelTheme';
 import { CopyButtonController } from './copyButtonController';
 
 const PANEL_STYLE_ID = 'heading-navigator-styles';
-const INDENT_BASE_PX = 12;
+// Leaves room for the disclosure toggle to the left of top-level headings
+const INDENT_BASE_PX = 28;
 const INDENT_PER_LEVEL_PX = 12;
 const FILTER_DEBOUNCE_MS = 150;
 const PREVIEW_DEBOUNCE_MS = 30;
+// Distance between the disclosure toggle's left edge and the heading's indentation
+const TOGGLE_OFFSET_PX = 20;
 
 export type PanelCloseReason = 'escape' | 'blur';
 
+/**
+ * Groups of headings listed above the tree while the filter is empty.
+ */
+export type PanelGroupId = 'pinned' | 'recent';
+
+interface PanelGroup {
+    id: PanelGroupId;
+    label: string;
+    headings: HeadingItem[];
+}
+
+/**
+ * A list row: a heading (in the tree, or repeated in a group) or a group label.
+ *
+ * Rows are keyed separately from heading ids because a grouped heading is also listed in the tree.
+ */
+type PanelRow =
+    | { kind: 'heading'; key: string; heading: HeadingItem; group: PanelGroupId | null }
+    | { kind: 'label'; key: string; label: string };
+
+type HeadingRow = Extract<PanelRow, { kind: 'heading' }>;
+
+function getRowKey(headingId: string, group: PanelGroupId | null): string {
+    return group ? `${group}:${headingId}` : headingId;
+}
+
 export interface PanelCallbacks {
     onPreview: (heading: HeadingItem) => void;
     onSelect: (heading: HeadingItem) => void;
     onClose: (reason: PanelCloseReason) => void;
     onCopy: (heading: HeadingItem) => void;
+    onCopySection: (heading: HeadingItem) => void;
+    onTogglePin: (heading: HeadingItem) => void;
+    onRename: (heading: HeadingItem, text: string) => void;
+    onShowBacklinks: (heading: HeadingItem) => void;
+    onToggleFold: (heading: HeadingItem) => void;
+    onFoldOthers: (heading: HeadingItem) => void;
+    onToggleFocusMode: () => void;
+    /** Folds the editor's sections at `level` and deeper; 0 unfolds everything */
+    onFoldToLevel: (level: number) => void;
+    onMoveSection: (heading: HeadingItem, direction: SectionMoveDirection) => void;
+    onChangeLevel: (heading: HeadingItem, delta: HeadingLevelDelta, includeSubheadings: boolean) => void;
 }
 
 /**
  * Floating panel UI for heading navigation with filtering, keyboard navigation, and copy functionality.
  *
  * Manages a filterable list of document headings with:
- * - Real-time search filtering
- * - Keyboard navigation (arrow keys, tab, enter, escape)
+ * - Real-time search filtering (fuzzy, substring or prefix) with ranked results and match highlighting,
+ *   including breadcrumb path queries (`setup > linux`) and ancestor breadcrumbs on filtered rows
+ * - Collapsible tree of the heading hierarchy with depth guide lines; ancestors of filter
+ *   matches are revealed as dimmed context rows
+ * - Keyboard navigation (arrow keys, tab, enter, escape; left/right collapse, expand and
+ *   jump to parent or first child; Alt+1…6 collapse to level, Alt+0 expand all)
+ * - Section reordering (Alt+Up/Alt+Down move the selected section past its sibling)
+ * - Promote/demote (Alt+Left/Alt+Right; Shift inverts the "include subheadings" option)
  * - Mouse selection and hover interactions
  * - Incremental DOM rendering for performance
  * - Theme-aware styling derived from editor
- * - Copy-to-clipboard for individual headings
+ * - Copy-to-clipboard for individual headings, and for whole sections (Alt+C)
+ * - Pinned headings (star button or Alt+P) and recently visited headings listed in groups above the tree
+ * - Renaming the selected heading in the filter input (F2; Enter applies, Escape cancels)
+ * - Backlink count badges; clicking one (or Alt+B) lists the notes linking to the heading
+ * - Optional section statistics (words, reading time) with size bars; Alt+S sorts siblings by size
+ * - Editor folding: Alt+F folds/unfolds the selected section, Alt+Shift+F folds all other sections,
+ *   Alt+Shift+1…6 folds to a level and Alt+Shift+0 unfolds all; folded headings are marked
+ * - Focus mode toggle (Alt+Z); the selected heading's section is focused as the selection moves
+ * - Level range filter: Ctrl+1…6 or the level chips set the deepest level listed; deeper headings
+ *   only match a filter when the "filter deeper headings" option is on
  *
  * @example
  * ```typescript
@@ -48,15 +122,75 @@ export class HeadingPanel {
 
     private readonly input: HTMLInputElement;
 
+    private readonly levelChips: HTMLDivElement;
+
     private readonly list: HTMLUListElement;
 
     private headings: HeadingItem[] = [];
 
+    // Rows currently displayed, in document order (matches plus revealed ancestors while filtering)
     private filtered: HeadingItem[] = [];
 
+    private tree: HeadingTree = new Map();
+
+    // Outline numbers (1., 1.1, ...) by heading id
+    private outlineNumbers = new Map<string, string>();
+
+    // Keyed by anchor rather than id so collapse state survives edits that shift heading offsets
+    private collapsedAnchors = new Set<string>();
+
+    // Ancestors shown only to give context to filter matches
+    private contextIds = new Set<string>();
+
+    private filterActive = false;
+
+    // Heading being renamed in the input (F2), and the filter text to restore afterwards
+    private renaming: { heading: HeadingItem; filterText: string } | null = null;
+
+    // Matched character indices per heading id for the current filter
+    private matchIndices = new Map<string, number[]>();
+
     private selectedHeadingId: string | null = null;
 
-    private options: PanelDimensions;
+    // Group of the selected row, or null when the selection is in the tree
+    private selectedGroup: PanelGroupId | null = null;
+
+    private pins: HeadingReference[] = [];
+
+    private pinnedIds = new Set<string>();
+
+    // Recently visited headings, most recent first
+    private recents: HeadingReference[] = [];
+
+    private groups: PanelGroup[] = [];
+
+    // Number of other notes linking to each heading, by anchor
+    private backlinkCounts = new Map<string, number>();
+
+    // Word and character counts by heading id, and the largest section's size for the size bars
+    private sectionStatistics = new Map<string, SectionStatistics>();
+
+    private largestSectionCharacters = 0;
+
+    // Headings whose section is folded in the editor
+    private foldedIds = new Set<string>();
+
+    // Lists siblings largest section first instead of in document order (Alt+S)
+    private sortBySize = false;
+
+    // Whether the editor is in focus mode, where moving through the list switches the focused section
+    private focusMode = false;
+
+    // Deepest heading level listed; starts at the configured default each time the panel is created
+    private maxLevel: number;
+
+    // Rows currently displayed: group labels and grouped headings, then the tree rows
+    private rows: PanelRow[] = [];
+
+    // Heading containing the cursor when the panel opened; used to tie-break ranked matches
+    private originHeadingId: string | null = null;
+
+    private options: PanelOptions;
 
     private lastPreviewedId: string | null = null;
 
@@ -72,39 +206,82 @@ export class HeadingPanel {
 
     private readonly onCopy: (heading: HeadingItem) => void;
 
+    private readonly onCopySection: (heading: HeadingItem) => void;
+
+    private readonly onTogglePin: (heading: HeadingItem) => void;
+
+    private readonly onRename: (heading: HeadingItem, text: string) => void;
+
+    private readonly onShowBacklinks: (heading: HeadingItem) => void;
+
+    private readonly onToggleFold: (heading: HeadingItem) => void;
+
+    private readonly onFoldOthers: (heading: HeadingItem) => void;
+
+    private readonly onToggleFocusMode: () => void;
+
+    private readonly onFoldToLevel: (level: number) => void;
+
+    private readonly onMoveSection: (heading: HeadingItem, direction: SectionMoveDirection) => void;
+
+    private readonly onChangeLevel: (
+        heading: HeadingItem,
+        delta: HeadingLevelDelta,
+        includeSubheadings: boolean
+    ) => void;
+
     private readonly handleInputListener: () => void;
 
     private readonly handleKeyDownListener: (event: KeyboardEvent) => void;
 
     private readonly handleListClickListener: (event: MouseEvent) => void;
 
+    private readonly handleLevelChipClickListener: (event: MouseEvent) => void;
+
     private readonly handleDocumentMouseDownListener: (event: MouseEvent) => void;
 
     private readonly copyButtonController = new CopyButtonController();
 
-    public constructor(view: EditorView, callbacks: PanelCallbacks, options: PanelDimensions) {
+    public constructor(view: EditorView, callbacks: PanelCallbacks, options: PanelOptions) {
         this.view = view;
         this.onPreview = callbacks.onPreview;
         this.onSelect = callbacks.onSelect;
         this.onClose = callbacks.onClose;
         this.onCopy = callbacks.onCopy;
+        this.onCopySection = callbacks.onCopySection;
+        this.onTogglePin = callbacks.onTogglePin;
+        this.onRename = callbacks.onRename;
+        this.onShowBacklinks = callbacks.onShowBacklinks;
+        this.onToggleFold = callbacks.onToggleFold;
+        this.onFoldOthers = callbacks.onFoldOthers;
+        this.onToggleFocusMode = callbacks.onToggleFocusMode;
+        this.onFoldToLevel = callbacks.onFoldToLevel;
+        this.onMoveSection = callbacks.onMoveSection;
+        this.onChangeLevel = callbacks.onChangeLevel;
         this.options = options;
+        this.maxLevel = options.maxLevel;
 
         this.container = document.createElement('div');
         this.container.className = 'heading-navigator-panel';
 
         this.input = document.createElement('input');
         this.input.type = 'search';
-        this.input.placeholder = 'Filter headings';
+        this.input.placeholder = this.getFilterPlaceholder();
         this.input.className = 'heading-navigator-input';
         this.container.appendChild(this.input);
 
+        this.levelChips = createLevelChips();
+        this.container.appendChild(this.levelChips);
+        this.updateLevelChips();
+
         this.list = document.createElement('ul');
         this.list.className = 'heading-navigator-list';
         this.container.appendChild(this.list);
 
         this.handleInputListener = () => {
-            this.scheduleFilterUpdate();
+            if (!this.renaming) {
+                this.scheduleFilterUpdate();
+            }
         };
 
         this.handleKeyDownListener = (event: KeyboardEvent) => {
@@ -115,6 +292,14 @@ export class HeadingPanel {
             this.handleListClick(event);
         };
 
+        this.handleLevelChipClickListener = (event: MouseEvent) => {
+            const chip = (event.target as HTMLElement | null)?.closest<HTMLElement>('.heading-navigator-level-chip');
+            if (chip) {
+                this.finishRename(false);
+                this.setMaxLevel(Number(chip.dataset.level));
+            }
+        };
+
         this.handleDocumentMouseDownListener = (event: MouseEvent) => {
             const target = event.target as Node | null;
             if (target && !this.container.contains(target)) {
@@ -125,6 +310,7 @@ export class HeadingPanel {
         this.input.addEventListener('input', this.handleInputListener);
         this.input.addEventListener('keydown', this.handleKeyDownListener);
         this.list.addEventListener('click', this.handleListClickListener);
+        this.levelChips.addEventListener('click', this.handleLevelChipClickListener);
         this.view.dom.ownerDocument!.addEventListener('mousedown', this.handleDocumentMouseDownListener, true);
     }
 
@@ -139,8 +325,11 @@ export class HeadingPanel {
      */
     public open(headings: HeadingItem[], selectedId: string | null): void {
         this.mount();
+        this.finishRename(false);
         this.input.value = '';
         this.selectedHeadingId = selectedId;
+        this.selectedGroup = null;
+        this.originHeadingId = selectedId;
         this.lastPreviewedId = null;
         this.setHeadings(headings, '', true);
         requestAnimationFrame(() => {
@@ -161,11 +350,18 @@ export class HeadingPanel {
      * @param preserveFilter - Whether to keep the current filter text (default: true)
      */
     public update(headings: HeadingItem[], selectedId: string | null, preserveFilter = true): void {
-        const filterText = preserveFilter ? this.input.value : '';
+        const filterText = preserveFilter ? this.getFilterText() : '';
         if (!preserveFilter) {
-            this.input.value = '';
+            if (this.renaming) {
+                this.renaming.filterText = '';
+            } else {
+                this.input.value = '';
+            }
+        }
+        if (selectedId && selectedId !== this.selectedHeadingId) {
+            this.selectedHeadingId = selectedId;
+            this.selectedGroup = null;
         }
-        this.selectedHeadingId = selectedId ?? this.selectedHeadingId;
         this.setHeadings(headings, filterText, false);
     }
 
@@ -179,6 +375,7 @@ export class HeadingPanel {
         this.input.removeEventListener('input', this.handleInputListener);
         this.input.removeEventListener('keydown', this.handleKeyDownListener);
         this.list.removeEventListener('click', this.handleListClickListener);
+        this.levelChips.removeEventListener('click', this.handleLevelChipClickListener);
         this.view.dom.ownerDocument!.removeEventListener('mousedown', this.handleDocumentMouseDownListener, true);
         if (this.previewDebounceTimer !== null) {
             clearTimeout(this.previewDebounceTimer);
@@ -204,16 +401,135 @@ export class HeadingPanel {
     }
 
     /**
-     * Updates the panel's dimensions and regenerates styles if needed.
+     * Updates the panel's options and regenerates styles if needed.
      *
      * Triggers style regeneration only if dimensions actually changed, avoiding unnecessary
-     * CSS recalculation.
+     * CSS recalculation. A changed filter mode or level range is applied to the current rows.
      *
-     * @param options - New panel dimension configuration
+     * @param options - New panel configuration
      */
-    public setOptions(options: PanelDimensions): void {
+    public setOptions(options: PanelOptions): void {
+        const filterChanged =
+            options.filterMode !== this.options.filterMode ||
+            options.maxLevel !== this.options.maxLevel ||
+            options.filterBeyondMaxLevel !== this.options.filterBeyondMaxLevel;
+        if (options.maxLevel !== this.options.maxLevel) {
+            this.maxLevel = options.maxLevel;
+            this.updateLevelChips();
+        }
         this.options = options;
         ensurePanelStyles(this.view, this.options);
+        if (filterChanged && this.isOpen()) {
+            this.applyFilter(this.getFilterText());
+        }
+    }
+
+    /**
+     * Sets the note's pinned headings; they are resolved against the current headings on render.
+     */
+    public setPins(pins: HeadingReference[]): void {
+        this.pins = pins;
+        if (this.isOpen()) {
+            this.applyFilter(this.getFilterText());
+        }
+    }
+
+    /**
+     * Sets the note's recently visited headings, most recent first.
+     */
+    public setRecents(recents: HeadingReference[]): void {
+        this.recents = recents;
+        if (this.isOpen()) {
+            this.applyFilter(this.getFilterText());
+        }
+    }
+
+    /**
+     * Sets the number of other notes linking to each heading.
+     */
+    public setBacklinkCounts(counts: HeadingBacklinkCount[]): void {
+        this.backlinkCounts = new Map(counts.map(({ anchor, count }) => [anchor, count]));
+        if (this.isOpen()) {
+            this.applyFilter(this.getFilterText());
+        }
+    }
+
+    /**
+     * Sets the statistics of each section. They are shown with the next `open()` or `update()`,
+     * which the editor calls right after, so rows aren't rendered twice per edit.
+     */
+    public setSectionStatistics(statistics: Map<string, SectionStatistics>): void {
+        this.sectionStatistics = statistics;
+        this.largestSectionCharacters = Math.max(
+            0,
+            ...[...statistics.values()].map((section) => section.total.characters)
+        );
+    }
+
+    /**
+     * Sets the headings whose section is folded in the editor. Like the statistics, they are
+     * shown with the next `open()` or `update()`.
+     */
+    public setFoldedHeadings(headingIds: Set<string>): void {
+        this.foldedIds = headingIds;
+    }
+
+    /**
+     * Shows whether the editor is in focus mode.
+     */
+    public setFocusMode(enabled: boolean): void {
+        this.focusMode = enabled;
+        this.container.classList.toggle('is-focus-mode', enabled);
+        if (!this.renaming) {
+            this.input.placeholder = this.getFilterPlaceholder();
+        }
+    }
+
+    private getFilterPlaceholder(): string {
+        return this.focusMode ? 'Filter headings to focus' : 'Filter headings';
+    }
+
+    // While renaming, the input holds the heading text rather than the filter
+    private getFilterText(): string {
+        return this.renaming ? this.renaming.filterText : this.input.value;
+    }
+
+    private startRename(): void {
+        const heading = this.headings.find((item) => item.id === this.selectedHeadingId);
+        if (!heading || this.renaming) {
+            return;
+        }
+
+        if (this.filterDebounceTimer !== null) {
+            clearTimeout(this.filterDebounceTimer);
+            this.filterDebounceTimer = null;
+            this.applyFilter(this.input.value);
+        }
+
+        // The text range only depends on the document up to the end of the heading
+        const range = findHeadingTextRange(this.view.state.sliceDoc(0, heading.to), heading);
+        this.renaming = { heading, filterText: this.input.value };
+        this.input.value = this.view.state.sliceDoc(range.from, range.to);
+        this.input.placeholder = 'Heading text';
+        this.container.classList.add('is-renaming');
+        this.input.select();
+    }
+
+    private finishRename(apply: boolean): void {
+        const renaming = this.renaming;
+        if (!renaming) {
+            return;
+        }
+
+        const text = this.input.value;
+        this.renaming = null;
+        this.input.value = renaming.filterText;
+        this.input.placeholder = this.getFilterPlaceholder();
+        this.container.classList.remove('is-renaming');
+
+        if (apply) {
+            this.onRename(renaming.heading, text);
+        }
     }
 
     private mount(): void {
@@ -228,6 +544,8 @@ export class HeadingPanel {
 
     private setHeadings(headings: HeadingItem[], filterText = '', emitPreview = true): void {
         this.headings = headings;
+        this.tree = buildHeadingTree(headings);
+        this.outlineNumbers = computeOutlineNumbers(headings);
         this.applyFilter(filterText);
         if (emitPreview) {
             this.notifyPreview();
@@ -236,23 +554,253 @@ export class HeadingPanel {
         }
     }
 
-    private applyFilter(filterText: string): void {
-        const normalized = filterText.trim().toLowerCase();
-        if (!normalized) {
-            this.filtered = [...this.headings];
+    /**
+     * Filters headings using the configured mode and re-renders the tree.
+     *
+     * Without a filter, rows follow the collapse state. With a filter, matches are shown under
+     * their ancestors (ignoring collapse state), with sibling groups ordered by their best-ranked
+     * match, and the best-ranked match is the default selection.
+     *
+     * @param filterText - Current filter input value
+     * @param selectBestMatch - Select the top-ranked match (used when the user edits the filter
+     *   in fuzzy mode, where matches are ranked by relevance)
+     */
+    private applyFilter(filterText: string, selectBestMatch = false): void {
+        this.filterActive = filterText.trim().length > 0;
+        const matches = filterHeadings(this.headings, filterText, this.options.filterMode, this.originHeadingId).filter(
+            (match) => this.isLevelShown(match.heading)
+        );
+        this.matchIndices = new Map(matches.map((match) => [match.heading.id, match.indices]));
+
+        if (this.filterActive) {
+            this.filtered = revealMatches(
+                this.headings,
+                this.tree,
+                matches.map((match) => match.heading.id)
+            );
+            this.contextIds = new Set(
+                this.filtered.filter((heading) => !this.matchIndices.has(heading.id)).map((heading) => heading.id)
+            );
         } else {
-            this.filtered = this.headings.filter((heading) => heading.text.toLowerCase().includes(normalized));
+            this.filtered = getVisibleHeadings(this.headings, this.tree, (heading) => this.isCollapsed(heading)).filter(
+                (heading) => this.isLevelShown(heading)
+            );
+            this.contextIds = new Set();
+            this.selectShownAncestor();
+            if (this.sortBySize && this.options.showSectionStatistics) {
+                this.filtered = sortHeadingsBySectionSize(this.filtered, this.tree, this.sectionStatistics);
+            }
+        }
+
+        const pinned = resolveHeadingReferences(this.pins, this.headings).headings;
+        this.pinnedIds = new Set(pinned.map((heading) => heading.id));
+        this.groups = [];
+        if (!this.filterActive && pinned.length) {
+            this.groups.push({ id: 'pinned', label: 'Pinned', headings: pinned });
+        }
+
+        // The heading the panel was opened from is left out: it's where you already are
+        const recent = resolveHeadingReferences(this.recents, this.headings)
+            .headings.filter((heading) => heading.id !== this.originHeadingId)
+            .slice(0, this.options.recentHeadingsCount);
+        if (!this.filterActive && recent.length) {
+            this.groups.push({ id: 'recent', label: 'Recent', headings: recent });
         }
+        this.rows = this.buildRows();
 
-        if (this.filtered.length === 0) {
+        if (this.selectedGroup && !this.rows.some((row) => row.key === this.getSelectedRowKey())) {
+            this.selectedGroup = null;
+        }
+
+        const isRanked = this.options.filterMode === 'fuzzy' && this.filterActive;
+
+        if (matches.length === 0) {
             this.selectedHeadingId = null;
-        } else if (!this.selectedHeadingId || !this.filtered.find((h) => h.id === this.selectedHeadingId)) {
-            this.selectedHeadingId = this.filtered[0].id;
+            this.selectedGroup = null;
+        } else if (
+            (selectBestMatch && isRanked) ||
+            !this.selectedHeadingId ||
+            (!this.selectedGroup && !this.filtered.find((h) => h.id === this.selectedHeadingId))
+        ) {
+            this.selectedHeadingId = matches[0].heading.id;
+            this.selectedGroup = null;
         }
 
         this.render();
     }
 
+    private buildRows(): PanelRow[] {
+        const rows: PanelRow[] = [];
+        for (const group of this.groups) {
+            rows.push({ kind: 'label', key: `label:${group.id}`, label: group.label });
+            group.headings.forEach((heading) => {
+                rows.push({ kind: 'heading', key: getRowKey(heading.id, group.id), heading, group: group.id });
+            });
+        }
+
+        if (rows.length) {
+            rows.push({ kind: 'label', key: 'label:headings', label: 'Headings' });
+        }
+        this.filtered.forEach((heading) => {
+            rows.push({ kind: 'heading', key: heading.id, heading, group: null });
+        });
+
+        return rows;
+    }
+
+    private getSelectedRowKey(): string | null {
+        return this.selectedHeadingId ? getRowKey(this.selectedHeadingId, this.selectedGroup) : null;
+    }
+
+    /**
+     * Whether a heading is within the level range. Deeper headings are only listed as filter
+     * matches, and only when the user opted in.
+     */
+    private isLevelShown(heading: HeadingItem): boolean {
+        return heading.level <= this.maxLevel || (this.filterActive && this.options.filterBeyondMaxLevel);
+    }
+
+    private getShownChildIds(headingId: string): string[] {
+        return (this.tree.get(headingId)?.childIds ?? []).filter((id) => this.isLevelShown(this.tree.get(id)!.heading));
+    }
+
+    /**
+     * Moves a tree selection hidden by the level range to its deepest listed ancestor.
+     */
+    private selectShownAncestor(): void {
+        const selected = this.selectedHeadingId ? this.tree.get(this.selectedHeadingId)?.heading : undefined;
+        if (this.selectedGroup || !selected || this.isLevelShown(selected)) {
+            return;
+        }
+
+        const ancestor = getAncestors(this.tree, selected.id)
+            .reverse()
+            .find((candidate) => this.isLevelShown(candidate));
+        if (ancestor) {
+            this.selectedHeadingId = ancestor.id;
+        }
+    }
+
+    private setMaxLevel(level: number): void {
+        if (level === this.maxLevel) {
+            return;
+        }
+
+        this.maxLevel = level;
+        this.updateLevelChips();
+        this.refreshTree();
+    }
+
+    private updateLevelChips(): void {
+        this.levelChips.querySelectorAll<HTMLButtonElement>('.heading-navigator-level-chip').forEach((chip) => {
+            const shown = Number(chip.dataset.level) <= this.maxLevel;
+            chip.classList.toggle('is-active', shown);
+            chip.setAttribute('aria-pressed', String(shown));
+        });
+    }
+
+    private isCollapsed(heading: HeadingItem): boolean {
+        return !this.filterActive && this.collapsedAnchors.has(heading.anchor);
+    }
+
+    /**
+     * Collapses or expands a heading's children and re-renders.
+     *
+     * If the selection ends up hidden inside a collapsed section, the collapsed ancestor
+     * becomes the selection instead.
+     */
+    private setCollapsed(heading: HeadingItem, collapsed: boolean): void {
+        if (collapsed) {
+            this.collapsedAnchors.add(heading.anchor);
+        } else {
+            this.collapsedAnchors.delete(heading.anchor);
+        }
+        this.refreshTree();
+    }
+
+    private collapseToLevel(level: number): void {
+        this.collapsedAnchors = new Set(getHeadingsToCollapse(this.tree, level).map((heading) => heading.anchor));
+        this.refreshTree();
+    }
+
+    private expandAll(): void {
+        this.collapsedAnchors.clear();
+        this.refreshTree();
+    }
+
+    private refreshTree(): void {
+        if (this.selectedHeadingId && !this.filterActive) {
+            const hiddenBy = getAncestors(this.tree, this.selectedHeadingId).find((ancestor) =>
+                this.collapsedAnchors.has(ancestor.anchor)
+            );
+            if (hiddenBy) {
+                this.selectedHeadingId = hiddenBy.id;
+            }
+        }
+
+        this.applyFilter(this.getFilterText());
+        this.notifyPreview();
+    }
+
+    /**
+     * Left arrow: collapse the selected heading, or select its parent if already collapsed or a leaf.
+     */
+    private collapseOrSelectParent(): void {
+        const node = this.selectedHeadingId ? this.tree.get(this.selectedHeadingId) : undefined;
+        if (!node) {
+            return;
+        }
+
+        if (this.getShownChildIds(node.heading.id).length && !this.isCollapsed(node.heading)) {
+            this.setCollapsed(node.heading, true);
+        } else if (node.parentId) {
+            this.selectHeading(node.parentId);
+        }
+    }
+
+    /**
+     * Right arrow: expand the selected heading, or select its first child if already expanded.
+     */
+    private expandOrSelectChild(): void {
+        const node = this.selectedHeadingId ? this.tree.get(this.selectedHeadingId) : undefined;
+        const childIds = node ? this.getShownChildIds(node.heading.id) : [];
+        if (!node || !childIds.length) {
+            return;
+        }
+
+        if (this.isCollapsed(node.heading)) {
+            this.setCollapsed(node.heading, false);
+        } else {
+            this.selectHeading(childIds[0]);
+        }
+    }
+
+    /**
+     * Asks the editor to move the selected section. The editor applies the edit and calls
+     * `update()` with the moved heading selected once the document change is processed.
+     */
+    private requestSectionMove(direction: SectionMoveDirection): void {
+        const heading = this.headings.find((item) => item.id === this.selectedHeadingId);
+        if (heading) {
+            this.onMoveSection(heading, direction);
+        }
+    }
+
+    private requestLevelChange(delta: HeadingLevelDelta, includeSubheadings: boolean): void {
+        const heading = this.headings.find((item) => item.id === this.selectedHeadingId);
+        if (heading) {
+            this.onChangeLevel(heading, delta, includeSubheadings);
+        }
+    }
+
+    private selectHeading(headingId: string): void {
+        this.selectedHeadingId = headingId;
+        this.selectedGroup = null;
+        this.updateSelection();
+        this.scrollActiveItemIntoView();
+        this.notifyPreview();
+    }
+
     private scheduleFilterUpdate(): void {
         if (this.filterDebounceTimer !== null) {
             clearTimeout(this.filterDebounceTimer);
@@ -260,7 +808,7 @@ export class HeadingPanel {
 
         this.filterDebounceTimer = window.setTimeout(() => {
             this.filterDebounceTimer = null;
-            this.applyFilter(this.input.value);
+            this.applyFilter(this.input.value, true);
             this.notifyPreview(true);
         }, FILTER_DEBOUNCE_MS);
     }
@@ -316,7 +864,133 @@ export class HeadingPanel {
     }
 
     private handleKeyDown(event: KeyboardEvent): void {
+        // While renaming, keys edit the text; only Enter and Escape leave rename mode
+        if (this.renaming) {
+            if (event.key === 'Enter' || event.key === 'Escape') {
+                event.preventDefault();
+                this.finishRename(event.key === 'Enter');
+            }
+            return;
+        }
+
+        if (event.key === 'F2') {
+            event.preventDefault();
+            this.startRename();
+            return;
+        }
+
+        if (event.altKey && !event.ctrlKey && !event.metaKey && /^Digit[0-6]$/.test(event.code)) {
+            event.preventDefault();
+            const level = Number(event.code.slice('Digit'.length));
+            if (event.shiftKey) {
+                this.onFoldToLevel(level);
+            } else if (level === 0) {
+                this.expandAll();
+            } else {
+                this.collapseToLevel(level);
+            }
+            return;
+        }
+
+        if (event.ctrlKey && !event.altKey && !event.metaKey && /^Digit[1-6]$/.test(event.code)) {
+            event.preventDefault();
+            this.setMaxLevel(Number(event.code.slice('Digit'.length)));
+            return;
+        }
+
+        // Matched by code: Alt+C produces a different character on some layouts (e.g. macOS)
+        if (event.altKey && !event.ctrlKey && !event.metaKey && event.code === 'KeyC') {
+            event.preventDefault();
+            const heading = this.headings.find((item) => item.id === this.selectedHeadingId);
+            if (heading) {
+                this.onCopySection(heading);
+            }
+            return;
+        }
+
+        if (event.altKey && !event.ctrlKey && !event.metaKey && event.code === 'KeyB') {
+            event.preventDefault();
+            const heading = this.headings.find((item) => item.id === this.selectedHeadingId);
+            if (heading) {
+                this.onShowBacklinks(heading);
+            }
+            return;
+        }
+
+        if (event.altKey && !event.ctrlKey && !event.metaKey && event.code === 'KeyS') {
+            event.preventDefault();
+            if (this.options.showSectionStatistics) {
+                this.sortBySize = !this.sortBySize;
+                this.container.classList.toggle('is-sorted-by-size', this.sortBySize);
+                this.applyFilter(this.getFilterText());
+            }
+            return;
+        }
+
+        if (event.altKey && !event.ctrlKey && !event.metaKey && event.code === 'KeyF') {
+            event.preventDefault();
+            const heading = this.headings.find((item) => item.id === this.selectedHeadingId);
+            if (heading && event.shiftKey) {
+                this.onFoldOthers(heading);
+            } else if (heading) {
+                this.onToggleFold(heading);
+            }
+            return;
+        }
+
+        if (event.altKey && !event.ctrlKey && !event.metaKey && event.code === 'KeyZ') {
+            event.preventDefault();
+            this.onToggleFocusMode();
+            return;
+        }
+
+        if (event.altKey && !event.ctrlKey && !event.metaKey && event.code === 'KeyP') {
+            event.preventDefault();
+            const heading = this.headings.find((item) => item.id === this.selectedHeadingId);
+            if (heading) {
+                this.onTogglePin(heading);
+            }
+            return;
+        }
+
+        if (event.altKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+            event.preventDefault();
+            this.requestSectionMove(event.key === 'ArrowUp' ? 'up' : 'down');
+            return;
+        }
+
+        if (event.altKey && (event.key === 'ArrowLeft' || event.key === 'ArrowRight')) {
+            event.preventDefault();
+            const includeSubheadings = event.shiftKey
+                ? !this.options.includeSubheadings
+                : this.options.includeSubheadings;
+            this.requestLevelChange(event.key === 'ArrowLeft' ? -1 : 1, includeSubheadings);
+            return;
+        }
+
+        // Left/right drive the tree only while the filter is empty and a tree row is selected, so
+        // they still move the caret otherwise
+        const isTreeKey =
+            !this.input.value &&
+            !this.selectedGroup &&
+            !event.altKey &&
+            !event.ctrlKey &&
+            !event.metaKey &&
+            !event.shiftKey;
+
         switch (event.key) {
+            case 'ArrowLeft':
+                if (isTreeKey) {
+                    event.preventDefault();
+                    this.collapseOrSelectParent();
+                }
+                break;
+            case 'ArrowRight':
+                if (isTreeKey) {
+                    event.preventDefault();
+                    this.expandOrSelectChild();
+                }
+                break;
             case 'ArrowDown':
                 event.preventDefault();
                 this.moveSelection(1);
@@ -343,16 +1017,20 @@ export class HeadingPanel {
     }
 
     private moveSelection(delta: number): void {
-        if (!this.filtered.length) {
+        const headingRows = this.rows.filter((row): row is HeadingRow => row.kind === 'heading');
+        if (!headingRows.length) {
             this.selectedHeadingId = null;
+            this.selectedGroup = null;
             this.render();
             return;
         }
 
-        const currentIndex = this.filtered.findIndex((heading) => heading.id === this.selectedHeadingId);
-        // Wrap around list: adding filtered.length ensures negative deltas wrap correctly
-        const nextIndex = currentIndex >= 0 ? (currentIndex + delta + this.filtered.length) % this.filtered.length : 0;
-        this.selectedHeadingId = this.filtered[nextIndex].id;
+        const selectedKey = this.getSelectedRowKey();
+        const currentIndex = headingRows.findIndex((row) => row.key === selectedKey);
+        // Wrap around list: adding the row count ensures negative deltas wrap correctly
+        const nextIndex = currentIndex >= 0 ? (currentIndex + delta + headingRows.length) % headingRows.length : 0;
+        this.selectedHeadingId = headingRows[nextIndex].heading.id;
+        this.selectedGroup = headingRows[nextIndex].group;
         this.updateSelection();
         this.scrollActiveItemIntoView();
         this.notifyPreview();
@@ -371,6 +1049,49 @@ export class HeadingPanel {
 
     private handleListClick(event: MouseEvent): void {
         const target = event.target as HTMLElement | null;
+        this.finishRename(false);
+
+        // Handle disclosure toggle clicks
+        const toggle = target?.closest<HTMLButtonElement>('.heading-navigator-toggle');
+        if (toggle) {
+            event.stopPropagation();
+            event.preventDefault();
+
+            const headingId = toggle.closest<HTMLLIElement>('.heading-navigator-item')?.dataset.headingId;
+            const node = headingId ? this.tree.get(headingId) : undefined;
+            if (node && !this.filterActive) {
+                this.setCollapsed(node.heading, !this.isCollapsed(node.heading));
+            }
+            this.input.focus();
+            return;
+        }
+
+        const backlinksButton = target?.closest<HTMLButtonElement>('.heading-navigator-item-backlinks');
+        if (backlinksButton) {
+            event.stopPropagation();
+            event.preventDefault();
+
+            const headingId = backlinksButton.closest<HTMLLIElement>('.heading-navigator-item')?.dataset.headingId;
+            const heading = this.headings.find((item) => item.id === headingId);
+            if (heading) {
+                this.onShowBacklinks(heading);
+            }
+            return;
+        }
+
+        const pinButton = target?.closest<HTMLButtonElement>('.heading-navigator-pin-button');
+        if (pinButton) {
+            event.stopPropagation();
+            event.preventDefault();
+
+            const headingId = pinButton.closest<HTMLLIElement>('.heading-navigator-item')?.dataset.headingId;
+            const heading = this.headings.find((item) => item.id === headingId);
+            if (heading) {
+                this.onTogglePin(heading);
+            }
+            this.input.focus();
+            return;
+        }
 
         // Handle copy button clicks via delegation
         const copyButton = target?.closest<HTMLButtonElement>('.heading-navigator-copy-button');
@@ -411,6 +1132,7 @@ export class HeadingPanel {
         const heading = this.headings.find((item) => item.id === headingId);
         if (heading) {
             this.selectedHeadingId = heading.id;
+            this.selectedGroup = (itemElement.dataset.group as PanelGroupId | undefined) ?? null;
             this.confirmSelection();
         }
     }
@@ -436,7 +1158,9 @@ export class HeadingPanel {
         this.list.innerHTML = '';
         const empty = document.createElement('li');
         empty.className = 'heading-navigator-empty';
-        empty.textContent = 'No headings found';
+        // Only the level range hides every heading; say so, or the note looks empty
+        const hiddenByLevel = !this.filterActive && this.headings.length > 0 && this.maxLevel < MAX_HEADING_LEVEL;
+        empty.textContent = hiddenByLevel ? `No headings up to H${this.maxLevel}` : 'No headings found';
         this.list.appendChild(empty);
     }
 
@@ -452,9 +1176,9 @@ export class HeadingPanel {
     }
 
     /**
-     * Builds a map of existing heading items and removes empty state if present.
+     * Builds a map of existing rows and removes empty state if present.
      *
-     * @returns Map of heading IDs to their DOM elements
+     * @returns Map of row keys to their DOM elements
      */
     private buildItemMap(): Map<string, HTMLLIElement> {
         // Remove empty state node if it exists
@@ -465,10 +1189,10 @@ export class HeadingPanel {
 
         // Build a map of existing items
         const existingItems = new Map<string, HTMLLIElement>();
-        this.list.querySelectorAll<HTMLLIElement>('.heading-navigator-item').forEach((item) => {
-            const id = item.dataset.headingId;
-            if (id) {
-                existingItems.set(id, item);
+        this.list.querySelectorAll<HTMLLIElement>('[data-row-key]').forEach((item) => {
+            const key = item.dataset.rowKey;
+            if (key) {
+                existingItems.set(key, item);
             }
         });
 
@@ -483,16 +1207,16 @@ export class HeadingPanel {
      * @param existingItems - Map of existing items that will be modified by removing stale entries
      */
     private removeStaleItems(existingItems: Map<string, HTMLLIElement>): void {
-        const filteredIds = new Set(this.filtered.map((h) => h.id));
-        existingItems.forEach((item, id) => {
-            if (!filteredIds.has(id)) {
+        const rowKeys = new Set(this.rows.map((row) => row.key));
+        existingItems.forEach((item, key) => {
+            if (!rowKeys.has(key)) {
                 // Clean up copy button timer before removing
                 const copyButton = item.querySelector<HTMLButtonElement>('.heading-navigator-copy-button');
                 if (copyButton) {
                     this.copyButtonController.clearButton(copyButton);
                 }
                 item.remove();
-                existingItems.delete(id);
+                existingItems.delete(key);
             }
         });
     }
@@ -500,7 +1224,7 @@ export class HeadingPanel {
     /**
      * Updates or creates items in correct order and updates selection state.
      *
-     * For each filtered heading:
+     * For each row:
      * - Reuses existing DOM node if available, otherwise creates new one
      * - Updates content if changed
      * - Ensures correct DOM order
@@ -509,16 +1233,18 @@ export class HeadingPanel {
      * @param existingItems - Map of existing items to reuse
      */
     private updateAndOrderItems(existingItems: Map<string, HTMLLIElement>): void {
-        this.filtered.forEach((heading, index) => {
-            let item = existingItems.get(heading.id);
+        const selectedKey = this.getSelectedRowKey();
+
+        this.rows.forEach((row, index) => {
+            let item = existingItems.get(row.key);
 
             if (!item) {
                 // Create new item
-                item = this.createHeadingItem(heading);
-                existingItems.set(heading.id, item);
-            } else {
+                item = row.kind === 'label' ? this.createGroupLabel(row.key, row.label) : this.createHeadingItem(row);
+                existingItems.set(row.key, item);
+            } else if (row.kind === 'heading') {
                 // Update existing item if needed
-                this.updateHeadingItem(item, heading);
+                this.updateHeadingItem(item, row);
             }
 
             // Ensure correct order
@@ -528,42 +1254,122 @@ export class HeadingPanel {
             }
 
             // Update selection state
-            if (heading.id === this.selectedHeadingId) {
-                item.classList.add('is-selected');
-            } else {
-                item.classList.remove('is-selected');
-            }
+            item.classList.toggle('is-selected', row.key === selectedKey);
         });
     }
 
-    private createHeadingItem(heading: HeadingItem): HTMLLIElement {
+    private createGroupLabel(key: string, label: string): HTMLLIElement {
+        const item = document.createElement('li');
+        item.className = 'heading-navigator-group-label';
+        item.dataset.rowKey = key;
+        item.textContent = label;
+        return item;
+    }
+
+    /**
+     * Grouped rows are listed flat, without tree indentation.
+     */
+    private getIndentLevel(row: HeadingRow): number {
+        return row.group ? 1 : row.heading.level;
+    }
+
+    private createHeadingItem(row: HeadingRow): HTMLLIElement {
+        const { heading } = row;
+        const indentLevel = this.getIndentLevel(row);
         const item = document.createElement('li');
         item.className = 'heading-navigator-item';
+        item.dataset.rowKey = row.key;
         item.dataset.headingId = heading.id;
-        item.style.paddingLeft = `${INDENT_BASE_PX + (heading.level - 1) * INDENT_PER_LEVEL_PX}px`;
+        if (row.group) {
+            item.dataset.group = row.group;
+            item.classList.add('is-grouped');
+        }
+        item.style.paddingLeft = `${INDENT_BASE_PX + (indentLevel - 1) * INDENT_PER_LEVEL_PX}px`;
+        item.style.setProperty('--heading-navigator-guide-count', String(indentLevel - 1));
+
+        const toggle = document.createElement('button');
+        toggle.type = 'button';
+        toggle.className = 'heading-navigator-toggle';
+        toggle.tabIndex = -1;
+        toggle.style.left = `${INDENT_BASE_PX + (indentLevel - 1) * INDENT_PER_LEVEL_PX - TOGGLE_OFFSET_PX}px`;
+
+        const meta = document.createElement('div');
+        meta.className = 'heading-navigator-item-meta';
+
+        const number = document.createElement('span');
+        number.className = 'heading-navigator-item-number';
+        number.textContent = this.getOutlineNumberText(heading);
 
         const level = document.createElement('span');
         level.className = 'heading-navigator-item-level';
         level.textContent = `H${heading.level} · line ${heading.line + 1}`;
 
+        const backlinks = document.createElement('button');
+        backlinks.type = 'button';
+        backlinks.className = 'heading-navigator-item-backlinks';
+        backlinks.tabIndex = -1;
+        backlinks.title = 'Show notes linking to this heading';
+        backlinks.textContent = this.getBacklinksText(heading);
+
+        const path = document.createElement('span');
+        path.className = 'heading-navigator-item-path';
+        path.textContent = this.getBreadcrumbText(row);
+
+        const stats = document.createElement('span');
+        stats.className = 'heading-navigator-item-stats';
+
+        meta.appendChild(number);
+        meta.appendChild(level);
+        meta.appendChild(backlinks);
+        meta.appendChild(path);
+        meta.appendChild(stats);
+
         const text = document.createElement('span');
         text.className = 'heading-navigator-item-text';
-        text.textContent = heading.text;
+        renderHighlightedText(text, heading.text, this.matchIndices.get(heading.id) ?? []);
+
+        const sizeBar = document.createElement('span');
+        sizeBar.className = 'heading-navigator-item-size';
 
+        const pinButton = createPinButton();
         const copyButton = this.copyButtonController.createCopyButton();
 
-        item.appendChild(level);
+        item.appendChild(toggle);
+        item.appendChild(meta);
         item.appendChild(text);
+        item.appendChild(sizeBar);
+        item.appendChild(pinButton);
         item.appendChild(copyButton);
+        this.updateTreeState(item, row);
+        this.updateSectionStatistics(item, heading);
 
         return item;
     }
 
-    private updateHeadingItem(item: HTMLLIElement, heading: HeadingItem): void {
+    private updateHeadingItem(item: HTMLLIElement, row: HeadingRow): void {
+        const { heading } = row;
+        const indentLevel = this.getIndentLevel(row);
+
         // Update padding if level changed
-        const newPadding = `${INDENT_BASE_PX + (heading.level - 1) * INDENT_PER_LEVEL_PX}px`;
+        const newPadding = `${INDENT_BASE_PX + (indentLevel - 1) * INDENT_PER_LEVEL_PX}px`;
         if (item.style.paddingLeft !== newPadding) {
             item.style.paddingLeft = newPadding;
+            item.style.setProperty('--heading-navigator-guide-count', String(indentLevel - 1));
+            const toggle = item.querySelector<HTMLButtonElement>('.heading-navigator-toggle');
+            if (toggle) {
+                toggle.style.left = `${INDENT_BASE_PX + (indentLevel - 1) * INDENT_PER_LEVEL_PX - TOGGLE_OFFSET_PX}px`;
+            }
+        }
+
+        // The key of a tree row is the heading id, which changes when the heading moves
+        item.dataset.headingId = heading.id;
+        this.updateTreeState(item, row);
+
+        // Update outline number
+        const numberSpan = item.querySelector('.heading-navigator-item-number');
+        const newNumberText = this.getOutlineNumberText(heading);
+        if (numberSpan && numberSpan.textContent !== newNumberText) {
+            numberSpan.textContent = newNumberText;
         }
 
         // Update level text
@@ -573,21 +1379,128 @@ export class HeadingPanel {
             levelSpan.textContent = newLevelText;
         }
 
-        // Update heading text
-        const textSpan = item.querySelector('.heading-navigator-item-text');
-        if (textSpan && textSpan.textContent !== heading.text) {
-            textSpan.textContent = heading.text;
+        // Update backlink count
+        const backlinksButton = item.querySelector('.heading-navigator-item-backlinks');
+        const newBacklinksText = this.getBacklinksText(heading);
+        if (backlinksButton && backlinksButton.textContent !== newBacklinksText) {
+            backlinksButton.textContent = newBacklinksText;
+        }
+
+        this.updateSectionStatistics(item, heading);
+
+        // Update breadcrumb path (only shown while filtering and on grouped rows)
+        const pathSpan = item.querySelector('.heading-navigator-item-path');
+        const newPathText = this.getBreadcrumbText(row);
+        if (pathSpan && pathSpan.textContent !== newPathText) {
+            pathSpan.textContent = newPathText;
+        }
+
+        // Update heading text and match highlights
+        const textSpan = item.querySelector<HTMLSpanElement>('.heading-navigator-item-text');
+        if (textSpan) {
+            renderHighlightedText(textSpan, heading.text, this.matchIndices.get(heading.id) ?? []);
+        }
+    }
+
+    private getOutlineNumberText(heading: HeadingItem): string {
+        return this.options.showOutlineNumbers ? (this.outlineNumbers.get(heading.id) ?? '') : '';
+    }
+
+    private getBacklinksText(heading: HeadingItem): string {
+        const count = this.options.showBacklinkCounts ? (this.backlinkCounts.get(heading.anchor) ?? 0) : 0;
+        if (!count) {
+            return '';
+        }
+        return `${count} ${count === 1 ? 'backlink' : 'backlinks'}`;
+    }
+
+    /**
+     * Syncs the statistics text, its tooltip and the size bar (relative to the largest section).
+     */
+    private updateSectionStatistics(item: HTMLLIElement, heading: HeadingItem): void {
+        const statistics = this.options.showSectionStatistics ? this.sectionStatistics.get(heading.id) : undefined;
+
+        const statsSpan = item.querySelector<HTMLSpanElement>('.heading-navigator-item-stats');
+        if (statsSpan) {
+            const newStatsText = statistics ? formatSectionStatistics(statistics) : '';
+            const newStatsTitle = statistics ? describeSectionStatistics(statistics) : '';
+            if (statsSpan.textContent !== newStatsText) {
+                statsSpan.textContent = newStatsText;
+            }
+            if (statsSpan.title !== newStatsTitle) {
+                statsSpan.title = newStatsTitle;
+            }
+        }
+
+        const sizeBar = item.querySelector<HTMLSpanElement>('.heading-navigator-item-size');
+        if (sizeBar) {
+            const ratio =
+                statistics && this.largestSectionCharacters
+                    ? statistics.total.characters / this.largestSectionCharacters
+                    : 0;
+            const newWidth = `${(ratio * 100).toFixed(1)}%`;
+            if (sizeBar.style.width !== newWidth) {
+                sizeBar.style.width = newWidth;
+            }
+        }
+    }
+
+    /**
+     * Returns the dimmed ancestor breadcrumb for a row (e.g. "Setup › Linux").
+     *
+     * Only shown while filtering and on grouped rows, where repeated subheading names
+     * ("Example", "Notes") would otherwise be indistinguishable.
+     */
+    private getBreadcrumbText(row: HeadingRow): string {
+        if (!this.filterActive && !row.group) {
+            return '';
+        }
+
+        return getAncestors(this.tree, row.heading.id)
+            .map((ancestor) => ancestor.text)
+            .join(' › ');
+    }
+
+    /**
+     * Syncs disclosure toggle, context-row, pinned and folded state for an item.
+     */
+    private updateTreeState(item: HTMLLIElement, row: HeadingRow): void {
+        const { heading } = row;
+        // Grouped rows can't be expanded; their children are only listed in the tree
+        const hasChildren = !row.group && this.getShownChildIds(heading.id).length > 0;
+        const collapsed = hasChildren && this.isCollapsed(heading);
+        const pinned = this.pinnedIds.has(heading.id);
+
+        item.classList.toggle('is-folded', this.foldedIds.has(heading.id));
+        item.classList.toggle('has-children', hasChildren);
+        item.classList.toggle('is-collapsed', collapsed);
+        item.classList.toggle('is-context', !row.group && this.contextIds.has(heading.id));
+        item.classList.toggle('is-pinned', pinned);
+
+        const pinButton = item.querySelector<HTMLButtonElement>('.heading-navigator-pin-button');
+        if (pinButton) {
+            const label = pinned ? 'Unpin heading' : 'Pin heading';
+            pinButton.setAttribute('aria-pressed', String(pinned));
+            pinButton.setAttribute('aria-label', label);
+            pinButton.title = label;
+        }
+
+        const toggle = item.querySelector<HTMLButtonElement>('.heading-navigator-toggle');
+        if (toggle) {
+            toggle.hidden = !hasChildren;
+            toggle.disabled = this.filterActive;
+            const label = collapsed ? 'Expand section' : 'Collapse section';
+            toggle.setAttribute('aria-expanded', String(!collapsed));
+            toggle.setAttribute('aria-label', label);
+            toggle.title = label;
         }
     }
 
     private updateSelection(): void {
+        const selectedKey = this.getSelectedRowKey();
         const items = this.list.querySelectorAll<HTMLLIElement>('.heading-navigator-item');
         items.forEach((item) => {
-            if (item.dataset.headingId === this.selectedHeadingId) {
-                item.classList.add('is-selected');
-            } else {
-                item.classList.remove('is-selected');
-            }
+            item.classList.toggle('is-selected', item.dataset.rowKey === selectedKey);
         });
     }
 
@@ -633,6 +1546,94 @@ export class HeadingPanel {
     }
 }
 
+/**
+ * Creates the star button that pins or unpins a heading. Clicks are handled by delegation in
+ * the panel, like the copy button.
+ */
+function createPinButton(): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.className = 'heading-navigator-pin-button';
+    button.tabIndex = -1;
+
+    const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+    svg.setAttribute('viewBox', '0 0 24 24');
+
+    const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+    path.setAttribute('d', 'M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01z');
+
+    svg.appendChild(path);
+    button.appendChild(svg);
+
+    return button;
+}
+
+/**
+ * Renders heading text with matched characters wrapped in `<mark>` elements.
+ *
+ * Skips DOM work when the text and highlighted indices are unchanged since the last render.
+ *
+ * @param element - Text container to render into
+ * @param text - Heading text
+ * @param indices - Ascending indices of matched characters
+ */
+function renderHighlightedText(element: HTMLElement, text: string, indices: number[]): void {
+    const signature = indices.join(',');
+    if (element.dataset.matchSignature === signature && element.dataset.text === text) {
+        return;
+    }
+
+    element.dataset.matchSignature = signature;
+    element.dataset.text = text;
+    element.textContent = '';
+
+    if (!indices.length) {
+        element.textContent = text;
+        return;
+    }
+
+    const matched = new Set(indices);
+    let runStart = 0;
+    for (let index = 1; index <= text.length; index++) {
+        // Close a run whenever the matched state flips or the text ends
+        if (index < text.length && matched.has(index) === matched.has(runStart)) {
+            continue;
+        }
+
+        const segment = text.slice(runStart, index);
+        if (matched.has(runStart)) {
+            const mark = document.createElement('mark');
+            mark.className = 'heading-navigator-item-match';
+            mark.textContent = segment;
+            element.appendChild(mark);
+        } else {
+            element.appendChild(document.createTextNode(segment));
+        }
+        runStart = index;
+    }
+}
+
+function createLevelChips(): HTMLDivElement {
+    const chips = document.createElement('div');
+    chips.className = 'heading-navigator-levels';
+    chips.setAttribute('role', 'group');
+    chips.setAttribute('aria-label', 'Heading levels shown');
+    // Keep focus in the filter input when clicking a chip
+    chips.addEventListener('mousedown', (event) => event.preventDefault());
+
+    for (let level = 1; level <= MAX_HEADING_LEVEL; level++) {
+        const chip = document.createElement('button');
+        chip.type = 'button';
+        chip.className = 'heading-navigator-level-chip';
+        chip.dataset.level = String(level);
+        chip.textContent = `H${level}`;
+        chip.title = `Show headings up to H${level} (Ctrl+${level})`;
+        chips.appendChild(chip);
+    }
+
+    return chips;
+}
+
 function ensurePanelStyles(view: EditorView, options: PanelDimensions): void {
     const doc = view.dom.ownerDocument!;
     // Cache key based only on dimensions since CSS variables handle theme changes automatically
@@ -0,0 +1,379 @@
+/**
+ * Heading panel for the Markdown viewer (reading view).
+ *
+ * Plain script loaded into the note viewer webview by the `headingNavigatorViewer` markdown-it
+ * content script. It keeps a long-poll request open with the plugin host to receive the
+ * "Go to Heading" command, then shows a panel listing the rendered headings. Styles and
+ * filtering come from the host so the panel looks and matches like the editor panel.
+ *
+ * Keys: arrows/Tab move (scrolling the viewer), Enter closes, Escape closes and restores the
+ * original scroll position.
+ */
+
+/* global webviewApi */
+(function () {
+    // Must match VIEWER_CONTENT_SCRIPT_ID in constants.ts
+    const CONTENT_SCRIPT_ID = 'headingNavigatorViewer';
+    const PANEL_STYLE_ID = 'heading-navigator-styles';
+    const INDENT_BASE_PX = 28;
+    const INDENT_PER_LEVEL_PX = 12;
+    const FILTER_DEBOUNCE_MS = 150;
+    const POLL_RETRY_DELAY_MS = 5000;
+    const COPY_FEEDBACK_MS = 600;
+
+    if (window.headingNavigatorViewerLoaded) {
+        return;
+    }
+    window.headingNavigatorViewerLoaded = true;
+
+    let panel = null;
+
+    function post(message) {
+        return webviewApi.postMessage(CONTENT_SCRIPT_ID, message);
+    }
+
+    // Errors are logged by the host, since this script has no logger
+    function reportError(message, error) {
+        post({ type: 'reportError', message, error: String(error) }).catch(() => undefined);
+    }
+
+    function delay(ms) {
+        return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    function ensureStyles(css) {
+        let style = document.getElementById(PANEL_STYLE_ID);
+        if (!style) {
+            style = document.createElement('style');
+            style.id = PANEL_STYLE_ID;
+            (document.head || document.body).appendChild(style);
+        }
+        if (style.textContent !== css) {
+            style.textContent = css;
+        }
+    }
+
+    function collectHeadings() {
+        const root = document.getElementById('rendered-md') || document.body;
+        return Array.from(root.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+            .filter((element) => element.id)
+            .map((element) => {
+                // Leave out permalink anchors added by the renderer
+                const clone = element.cloneNode(true);
+                clone.querySelectorAll('.heading-anchor').forEach((anchor) => anchor.remove());
+                return {
+                    element,
+                    text: clone.textContent.trim(),
+                    level: Number(element.tagName.slice(1)),
+                    anchor: element.id,
+                };
+            });
+    }
+
+    // Texts of the headings enclosing the heading at `index`, outermost first
+    function getAncestorTexts(headings, index) {
+        const ancestors = [];
+        let level = headings[index].level;
+        for (let i = index - 1; i >= 0 && level > 1; i--) {
+            if (headings[i].level < level) {
+                ancestors.unshift(headings[i].text);
+                level = headings[i].level;
+            }
+        }
+        return ancestors;
+    }
+
+    function findActiveIndex(headings) {
+        let active = 0;
+        headings.forEach((heading, index) => {
+            if (heading.element.getBoundingClientRect().top <= 1) {
+                active = index;
+            }
+        });
+        return active;
+    }
+
+    function renderHighlightedText(element, text, indices) {
+        element.textContent = '';
+        const matched = new Set(indices);
+        let run = '';
+        let runMatched = false;
+
+        const flush = () => {
+            if (!run) {
+                return;
+            }
+            if (runMatched) {
+                const mark = document.createElement('mark');
+                mark.className = 'heading-navigator-item-match';
+                mark.textContent = run;
+                element.appendChild(mark);
+            } else {
+                element.appendChild(document.createTextNode(run));
+            }
+            run = '';
+        };
+
+        for (let index = 0; index < text.length; index++) {
+            if (matched.has(index) !== runMatched) {
+                flush();
+                runMatched = !runMatched;
+            }
+            run += text[index];
+        }
+        flush();
+    }
+
+    function createCopyButton() {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'heading-navigator-copy-button';
+        button.title = 'Copy heading link';
+        button.setAttribute('aria-label', 'Copy heading link');
+
+        const svg = document.createElementNS('http://www.w3.org/2000/svg', 'svg');
+        svg.setAttribute('viewBox', '0 0 24 24');
+        [
+            'M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71',
+            'M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71',
+        ].forEach((d) => {
+            const path = document.createElementNS('http://www.w3.org/2000/svg', 'path');
+            path.setAttribute('d', d);
+            svg.appendChild(path);
+        });
+        button.appendChild(svg);
+
+        return button;
+    }
+
+    class ViewerHeadingPanel {
+        constructor(options) {
+            this.options = options;
+            this.headings = collectHeadings();
+            this.rows = this.headings.map((heading, index) => ({ index, indices: [] }));
+            this.selected = findActiveIndex(this.headings);
+            this.scroller = document.scrollingElement || document.documentElement;
+            this.initialScrollTop = this.scroller.scrollTop;
+            this.filterTimer = null;
+            this.filterRequest = 0;
+
+            this.container = document.createElement('div');
+            this.container.className = 'heading-navigator-panel is-viewer';
+
+            this.input = document.createElement('input');
+            this.input.type = 'search';
+            this.input.placeholder = 'Filter headings';
+            this.input.className = 'heading-navigator-input';
+
+            this.list = document.createElement('ul');
+            this.list.className = 'heading-navigator-list';
+
+            this.container.appendChild(this.input);
+            this.container.appendChild(this.list);
+
+            this.onInput = () => this.scheduleFilter();
+            this.onKeyDown = (event) => this.handleKeyDown(event);
+            this.onListClick = (event) => this.handleListClick(event);
+            this.onDocumentMouseDown = (event) => {
+                if (!this.container.contains(event.target)) {
+                    this.close(false);
+                }
+            };
+
+            this.input.addEventListener('input', this.onInput);
+            this.input.addEventListener('keydown', this.onKeyDown);
+            this.list.addEventListener('click', this.onListClick);
+            document.addEventListener('mousedown', this.onDocumentMouseDown, true);
+
+            document.body.appendChild(this.container);
+            this.render();
+            requestAnimationFrame(() => this.input.focus());
+        }
+
+        close(restoreScroll) {
+            if (this.filterTimer !== null) {
+                clearTimeout(this.filterTimer);
+            }
+            this.input.removeEventListener('input', this.onInput);
+            this.input.removeEventListener('keydown', this.onKeyDown);
+            this.list.removeEventListener('click', this.onListClick);
+            document.removeEventListener('mousedown', this.onDocumentMouseDown, true);
+            this.container.remove();
+
+            if (restoreScroll) {
+                this.scroller.scrollTop = this.initialScrollTop;
+            }
+            panel = null;
+        }
+
+        scheduleFilter() {
+            if (this.filterTimer !== null) {
+                clearTimeout(this.filterTimer);
+            }
+            this.filterTimer = setTimeout(() => {
+                this.filterTimer = null;
+                void this.applyFilter();
+            }, FILTER_DEBOUNCE_MS);
+        }
+
+        async applyFilter() {
+            const query = this.input.value;
+            const requestId = ++this.filterRequest;
+            let matches;
+            try {
+                matches = await post({
+                    type: 'filterHeadings',
+                    query,
+                    mode: this.options.filterMode,
+                    headings: this.headings.map(({ text, level, anchor }) => ({ text, level, anchor })),
+                });
+            } catch (error) {
+                // Keep showing the previous results
+                reportError('Failed to filter headings', error);
+                return;
+            }
+            if (requestId !== this.filterRequest || panel !== this) {
+                return;
+            }
+
+            this.rows = Array.isArray(matches) ? matches : [];
+            // Ranked fuzzy results put the best match first
+            this.selected = this.rows.length ? this.rows[0].index : -1;
+            this.render();
+            this.preview();
+        }
+
+        render() {
+            this.list.textContent = '';
+            this.rows.forEach((row) => {
+                const heading = this.headings[row.index];
+                const item = document.createElement('li');
+                item.className = 'heading-navigator-item';
+                item.dataset.index = String(row.index);
+                item.style.paddingLeft = `${INDENT_BASE_PX + (heading.level - 1) * INDENT_PER_LEVEL_PX}px`;
+                item.style.setProperty('--heading-navigator-guide-count', String(heading.level - 1));
+                item.classList.toggle('is-selected', row.index === this.selected);
+
+                const meta = document.createElement('div');
+                meta.className = 'heading-navigator-item-meta';
+                const level = document.createElement('span');
+                level.className = 'heading-navigator-item-level';
+                level.textContent = `H${heading.level}`;
+                meta.appendChild(level);
+
+                const text = document.createElement('span');
+                text.className = 'heading-navigator-item-text';
+                renderHighlightedText(text, heading.text, row.indices);
+
+                item.appendChild(meta);
+                item.appendChild(text);
+                item.appendChild(createCopyButton());
+                this.list.appendChild(item);
+            });
+
+            const selectedItem = this.list.querySelector('.is-selected');
+            if (selectedItem) {
+                selectedItem.scrollIntoView({ block: 'nearest' });
+            }
+        }
+
+        moveSelection(offset) {
+            if (!this.rows.length) {
+                return;
+            }
+            const position = this.rows.findIndex((row) => row.index === this.selected);
+            const next = (position + offset + this.rows.length) % this.rows.length;
+            this.selected = this.rows[next].index;
+            this.render();
+            this.preview();
+        }
+
+        preview() {
+            const heading = this.headings[this.selected];
+            if (heading) {
+                heading.element.scrollIntoView({ block: 'start' });
+            }
+        }
+
+        handleKeyDown(event) {
+            switch (event.key) {
+                case 'ArrowDown':
+                case 'ArrowUp':
+                    event.preventDefault();
+                    this.moveSelection(event.key === 'ArrowDown' ? 1 : -1);
+                    break;
+                case 'Tab':
+                    event.preventDefault();
+                    this.moveSelection(event.shiftKey ? -1 : 1);
+                    break;
+                case 'Enter':
+                    event.preventDefault();
+                    this.preview();
+                    this.close(false);
+                    break;
+                case 'Escape':
+                    event.preventDefault();
+                    this.close(true);
+                    break;
+                default:
+                    break;
+            }
+        }
+
+        handleListClick(event) {
+            const item = event.target.closest('.heading-navigator-item');
+            if (!item) {
+                return;
+            }
+
+            const index = Number(item.dataset.index);
+            const heading = this.headings[index];
+            const copyButton = event.target.closest('.heading-navigator-copy-button');
+            if (copyButton) {
+                event.preventDefault();
+                post({
+                    type: 'copyHeadingLink',
+                    headingText: heading.text,
+                    headingAnchor: heading.anchor,
+                    headingPath: getAncestorTexts(this.headings, index),
+                }).catch((error) => reportError('Failed to copy heading link', error));
+                copyButton.classList.add('is-copied');
+                setTimeout(() => copyButton.classList.remove('is-copied'), COPY_FEEDBACK_MS);
+                this.input.focus();
+                return;
+            }
+
+            this.selected = index;
+            this.preview();
+            this.close(false);
+        }
+    }
+
+    function togglePanel(command) {
+        if (panel) {
+            panel.close(false);
+            return;
+        }
+        ensureStyles(command.css);
+        panel = new ViewerHeadingPanel(command.options);
+    }
+
+    async function pollCommands() {
+        for (;;) {
+            let command = null;
+            try {
+                command = await post({ type: 'waitForCommand' });
+            } catch (error) {
+                reportError('Lost connection to plugin', error);
+                await delay(POLL_RETRY_DELAY_MS);
+                continue;
+            }
+
+            if (command && command.type === 'togglePanel') {
+                togglePanel(command);
+            }
+        }
+    }
+
+    void pollCommands();
+})();
@@ -0,0 +1,21 @@
+/**
+ * Markdown-it content script that brings the heading panel to the Markdown viewer.
+ *
+ * Rendering is left untouched: the script only registers the viewer asset, which works on the
+ * rendered `h1`-`h6` elements and talks to the plugin host through `webviewApi.postMessage`.
+ *
+ * See:
+ * - viewer/headingNavigatorViewer.js - Viewer-side panel
+ * - viewerNavigation.ts - Host-side command delivery and filtering
+ */
+
+import type { MarkdownItContentScriptModule } from 'api/types';
+
+export default function viewerHeadingNavigator(): MarkdownItContentScriptModule {
+    return {
+        plugin: () => {
+            // No markdown-it rules needed
+        },
+        assets: () => [{ name: 'viewer/headingNavigatorViewer.js' }],
+    };
+}
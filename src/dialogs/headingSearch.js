@@ -0,0 +1,150 @@
+/**
+ * Webview script for the global heading search dialog.
+ *
+ * Sends the query to the plugin host on every keystroke and renders the returned matches.
+ * The highlighted result is stored in the hidden `selection` field, which Joplin returns in
+ * the dialog's form data when "Go to Heading" (or Enter) is pressed.
+ *
+ * Elements are looked up on demand because the host replaces the dialog HTML each time it
+ * opens, while this script stays loaded.
+ */
+
+/* global webviewApi */
+(function () {
+    let results = [];
+    let selectedIndex = -1;
+    let latestRequest = 0;
+
+    function query(selector) {
+        return document.querySelector(selector);
+    }
+
+    function appendHighlighted(element, text, indices) {
+        const matched = new Set(indices);
+        let run = '';
+        let runMatched = false;
+
+        const flush = () => {
+            if (!run) {
+                return;
+            }
+            if (runMatched) {
+                const mark = document.createElement('mark');
+                mark.className = 'heading-search-match';
+                mark.textContent = run;
+                element.appendChild(mark);
+            } else {
+                element.appendChild(document.createTextNode(run));
+            }
+            run = '';
+        };
+
+        for (let index = 0; index < text.length; index++) {
+            const isMatched = matched.has(index);
+            if (isMatched !== runMatched) {
+                flush();
+                runMatched = isMatched;
+            }
+            run += text[index];
+        }
+        flush();
+    }
+
+    function select(index) {
+        const list = query('.heading-search-results');
+        const selection = query('.heading-search-selection');
+        if (!list || !selection) {
+            return;
+        }
+
+        selectedIndex = results.length ? Math.max(0, Math.min(index, results.length - 1)) : -1;
+        selection.value = selectedIndex >= 0 ? results[selectedIndex].key : '';
+
+        Array.from(list.children).forEach((item, itemIndex) => {
+            const isSelected = itemIndex === selectedIndex;
+            item.classList.toggle('is-selected', isSelected);
+            item.setAttribute('aria-selected', String(isSelected));
+            if (isSelected) {
+                item.scrollIntoView({ block: 'nearest' });
+            }
+        });
+    }
+
+    function render() {
+        const list = query('.heading-search-results');
+        if (!list) {
+            return;
+        }
+
+        list.textContent = '';
+        results.forEach((result, index) => {
+            const item = document.createElement('li');
+            item.className = 'heading-search-item';
+            item.setAttribute('role', 'option');
+            item.dataset.index = String(index);
+
+            const title = document.createElement('div');
+            title.className = 'heading-search-item-text';
+            appendHighlighted(title, result.text, result.indices);
+
+            const meta = document.createElement('div');
+            meta.className = 'heading-search-item-meta';
+            meta.textContent = [`H${result.level}`, result.noteTitle, ...result.path].join(' › ');
+
+            item.appendChild(title);
+            item.appendChild(meta);
+            list.appendChild(item);
+        });
+
+        select(0);
+    }
+
+    async function search(text) {
+        const requestId = ++latestRequest;
+        let response = null;
+        try {
+            response = await webviewApi.postMessage({ type: 'search', query: text });
+        } catch (error) {
+            // Results for an older query would be misleading, so the list is cleared below
+            console.error('Heading search failed', error);
+        }
+        // Ignore responses to queries that have since been superseded
+        if (requestId !== latestRequest) {
+            return;
+        }
+
+        results = response && Array.isArray(response.results) ? response.results : [];
+        render();
+    }
+
+    document.addEventListener('input', (event) => {
+        if (event.target.classList.contains('heading-search-query')) {
+            void search(event.target.value);
+        }
+    });
+
+    document.addEventListener('keydown', (event) => {
+        if (!event.target.classList || !event.target.classList.contains('heading-search-query')) {
+            return;
+        }
+
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+            event.preventDefault();
+            select(selectedIndex + (event.key === 'ArrowDown' ? 1 : -1));
+        }
+    });
+
+    document.addEventListener('click', (event) => {
+        const item = event.target.closest && event.target.closest('.heading-search-item');
+        if (item) {
+            select(Number(item.dataset.index));
+            const input = query('.heading-search-query');
+            if (input) {
+                input.focus();
+            }
+        }
+    });
+
+    // Enter is handled by Joplin (it clicks the "ok" button); never submit the form itself
+    document.addEventListener('submit', (event) => event.preventDefault());
+})();
@@ -0,0 +1,57 @@
+/**
+ * Webview script for the dialogs that list links (broken heading links, heading backlinks).
+ *
+ * The host renders the list; this script only moves the selection. The selected link is stored
+ * in the hidden `selection` field, which Joplin returns in the dialog's form data when a button
+ * (or Enter, for the first button) is pressed.
+ *
+ * Elements are looked up on demand because the host replaces the dialog HTML each time it
+ * opens, while this script stays loaded.
+ */
+
+(function () {
+    function items() {
+        return Array.from(document.querySelectorAll('.link-list-item'));
+    }
+
+    function select(index) {
+        const list = items();
+        const selection = document.querySelector('.link-list-selection');
+        if (!list.length || !selection) {
+            return;
+        }
+
+        const selectedIndex = Math.max(0, Math.min(index, list.length - 1));
+        selection.value = list[selectedIndex].dataset.key;
+
+        list.forEach((item, itemIndex) => {
+            const isSelected = itemIndex === selectedIndex;
+            item.classList.toggle('is-selected', isSelected);
+            item.setAttribute('aria-selected', String(isSelected));
+            if (isSelected) {
+                item.scrollIntoView({ block: 'nearest' });
+            }
+        });
+    }
+
+    function selectedIndex() {
+        return items().findIndex((item) => item.classList.contains('is-selected'));
+    }
+
+    document.addEventListener('keydown', (event) => {
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+            event.preventDefault();
+            select(selectedIndex() + (event.key === 'ArrowDown' ? 1 : -1));
+        }
+    });
+
+    document.addEventListener('click', (event) => {
+        const item = event.target.closest && event.target.closest('.link-list-item');
+        if (item) {
+            select(items().indexOf(item));
+        }
+    });
+
+    // Enter is handled by Joplin (it clicks the first button); never submit the form itself
+    document.addEventListener('submit', (event) => event.preventDefault());
+})();
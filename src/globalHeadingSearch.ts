@@ -0,0 +1,218 @@
+/**
+ * Global heading search ("go to heading anywhere") for the plugin host.
+ *
+ * Maintains a `NoteHeadingIndex` of every note's headings and shows a quick-pick dialog that
+ * filters it with the panel's matching rules. The index is built with one paginated scan of
+ * all notes on first use; afterwards only notes reported by Joplin's `events` endpoint (item
+ * changes since the last cursor) are re-read, so opening the search stays cheap for large
+ * knowledge bases.
+ *
+ * The dialog webview (`dialogs/headingSearch.js`) sends the query to the host on each
+ * keystroke and receives serialized results; the chosen result is returned through the
+ * dialog's hidden form field.
+ *
+ * See:
+ * - noteHeadingIndex.ts - Index storage and search
+ * - index.ts - Registers the command and navigates to the chosen heading
+ */
+
+import joplin from 'api';
+import { ModelType } from 'api/types';
+import type { HeadingFilterMode } from './types';
+import logger from './logger';
+import { NoteHeadingIndex, type NoteHeadingMatch } from './noteHeadingIndex';
+import { forEachNotePage, isMarkdownNote, loadNote, type NoteEntity } from './noteData';
+
+const DIALOG_ID = 'headingNavigatorSearchDialog';
+const MAX_RESULTS = 100;
+
+// Value from Joplin's data model (not exported by the plugin API types)
+const ITEM_CHANGE_TYPE_DELETE = 3;
+
+interface ItemChangeEntity {
+    item_type: number;
+    item_id: string;
+    type: number;
+}
+
+interface EventsResponse {
+    items?: ItemChangeEntity[];
+    has_more?: boolean;
+    cursor?: string;
+}
+
+/**
+ * Result as sent to the dialog webview.
+ */
+interface SerializedHeadingMatch {
+    key: string;
+    noteTitle: string;
+    text: string;
+    level: number;
+    path: string[];
+    indices: number[];
+}
+
+export interface HeadingSearchSelection {
+    noteId: string;
+    anchor: string;
+}
+
+function resultKey(match: NoteHeadingMatch): string {
+    return `${match.noteId}#${match.heading.anchor}`;
+}
+
+/**
+ * Keeps a `NoteHeadingIndex` in sync with the notes stored in Joplin.
+ */
+export class NoteHeadingIndexer {
+    readonly index = new NoteHeadingIndex();
+    private cursor: string | null = null;
+    private pendingSync: Promise<void> | null = null;
+
+    /**
+     * Brings the index up to date. Concurrent calls share the same run.
+     */
+    sync(): Promise<void> {
+        if (!this.pendingSync) {
+            this.pendingSync = (this.cursor === null ? this.buildIndex() : this.applyChanges()).finally(() => {
+                this.pendingSync = null;
+            });
+        }
+        return this.pendingSync;
+    }
+
+    private async buildIndex(): Promise<void> {
+        // Take the cursor first so edits made during the scan are replayed by the next sync
+        const latest = (await joplin.data.get(['events'])) as EventsResponse;
+        this.index.clear();
+
+        await forEachNotePage(['notes'], {}, (notes) => notes.forEach((note) => this.indexNote(note)));
+
+        this.cursor = latest.cursor ?? '';
+        logger.info('Built heading index', { notes: this.index.size });
+    }
+
+    private async applyChanges(): Promise<void> {
+        const changed = new Map<string, boolean>();
+
+        let hasMore = true;
+        while (hasMore) {
+            const response = (await joplin.data.get(['events'], { cursor: this.cursor })) as EventsResponse;
+            for (const item of response.items ?? []) {
+                if (item.item_type === ModelType.Note) {
+                    changed.set(item.item_id, item.type === ITEM_CHANGE_TYPE_DELETE);
+                }
+            }
+            this.cursor = response.cursor ?? this.cursor;
+            hasMore = Boolean(response.has_more);
+        }
+
+        for (const [noteId, deleted] of changed) {
+            if (deleted) {
+                this.index.removeNote(noteId);
+                continue;
+            }
+
+            try {
+                this.indexNote(await loadNote(noteId));
+            } catch (error) {
+                // Deleted again after the change was recorded
+                logger.debug('Dropping unavailable note from heading index', { noteId, error });
+                this.index.removeNote(noteId);
+            }
+        }
+
+        if (changed.size) {
+            logger.debug('Updated heading index', { changedNotes: changed.size });
+        }
+    }
+
+    private indexNote(note: NoteEntity): void {
+        if (!isMarkdownNote(note)) {
+            this.index.removeNote(note.id);
+            return;
+        }
+        this.index.setNote(note.id, note.title || 'Untitled', note.body ?? '');
+    }
+}
+
+/**
+ * Quick-pick dialog listing headings from every note.
+ */
+export class HeadingSearchDialog {
+    private handle: string | null = null;
+    private results = new Map<string, NoteHeadingMatch>();
+    private filterMode: HeadingFilterMode = 'fuzzy';
+
+    constructor(private readonly indexer: NoteHeadingIndexer) {}
+
+    /**
+     * Shows the dialog and resolves with the chosen heading, or null when cancelled.
+     */
+    async open(filterMode: HeadingFilterMode): Promise<HeadingSearchSelection | null> {
+        const handle = await this.ensureDialog();
+        this.filterMode = filterMode;
+        this.results.clear();
+
+        await this.indexer.sync();
+        await joplin.views.dialogs.setHtml(handle, this.renderHtml());
+
+        const result = await joplin.views.dialogs.open(handle);
+        const key = result.formData?.headingSearch?.selection;
+        const match = result.id === 'ok' && typeof key === 'string' ? this.results.get(key) : undefined;
+        this.results.clear();
+
+        return match ? { noteId: match.noteId, anchor: match.heading.anchor } : null;
+    }
+
+    private async ensureDialog(): Promise<string> {
+        if (this.handle) {
+            return this.handle;
+        }
+
+        const handle = await joplin.views.dialogs.create(DIALOG_ID);
+        await joplin.views.dialogs.addScript(handle, './dialogs/headingSearch.css');
+        await joplin.views.dialogs.addScript(handle, './dialogs/headingSearch.js');
+        await joplin.views.dialogs.setButtons(handle, [
+            { id: 'ok', title: 'Go to Heading' },
+            { id: 'cancel', title: 'Cancel' },
+        ]);
+        await joplin.views.panels.onMessage(handle, (message: { type?: string; query?: unknown }) => {
+            if (message?.type === 'search') {
+                return { results: this.search(typeof message.query === 'string' ? message.query : '') };
+            }
+            return null;
+        });
+
+        this.handle = handle;
+        return handle;
+    }
+
+    private search(query: string): SerializedHeadingMatch[] {
+        const matches = this.indexer.index.search(query, this.filterMode, MAX_RESULTS);
+        this.results = new Map(matches.map((match) => [resultKey(match), match]));
+
+        return matches.map((match) => ({
+            key: resultKey(match),
+            noteTitle: match.noteTitle,
+            text: match.heading.text,
+            level: match.heading.level,
+            path: match.path,
+            indices: match.indices,
+        }));
+    }
+
+    private renderHtml(): string {
+        const noteCount = this.indexer.index.size;
+        return `
+            <form name="headingSearch" class="heading-search">
+                <input class="heading-search-query" name="query" type="text" autocomplete="off" spellcheck="false"
+                    placeholder="Search headings in all notes" autofocus />
+                <input class="heading-search-selection" name="selection" type="hidden" />
+                <ul class="heading-search-results" role="listbox"></ul>
+                <p class="heading-search-status">${noteCount} ${noteCount === 1 ? 'note' : 'notes'} indexed</p>
+            </form>
+        `;
+    }
+}
@@ -0,0 +1,171 @@
+/**
+ * Incoming links (backlinks) to the headings of a note, for the plugin host.
+ *
+ * Notes that may link to a note are found with Joplin's `search` endpoint (`:/noteId#anchor`
+ * links contain the note id) and their links are read with `findHeadingLinks`, so mentions of
+ * the id outside links, or in code, aren't counted. The panel shows the number of linking notes
+ * per heading; `HeadingBacklinksDialog` lists the links to one heading and opens the chosen one.
+ *
+ * See:
+ * - headingLinks.ts - Link detection
+ * - headingLinkUpdates.ts - Uses the same search to update links after a rename
+ * - dialogs/linkList.js - Dialog webview script, shared with the broken link check
+ */
+
+import joplin from 'api';
+import type { HeadingBacklinkCount } from './types';
+import { findHeadingLinks, getLinePreview } from './headingLinks';
+import { escapeHtml } from './linkFormatting';
+import { forEachNotePage, isMarkdownNote } from './noteData';
+
+const DIALOG_ID = 'headingNavigatorBacklinksDialog';
+
+export interface LinkingNote {
+    id: string;
+    title: string;
+    body: string;
+}
+
+export interface HeadingBacklink {
+    noteId: string;
+    noteTitle: string;
+    /** Range of the anchor in the linking note */
+    from: number;
+    to: number;
+    /** 1-based line of the link */
+    line: number;
+    lineText: string;
+}
+
+function backlinkKey(backlink: HeadingBacklink): string {
+    return `${backlink.noteId}:${backlink.from}`;
+}
+
+/**
+ * Finds the Markdown notes, other than the note itself, whose text mentions a note id.
+ */
+export async function findLinkingNotes(noteId: string): Promise<LinkingNote[]> {
+    const notes: LinkingNote[] = [];
+
+    await forEachNotePage(['search'], { query: noteId, type: 'note' }, (page) => {
+        for (const note of page) {
+            if (note.id !== noteId && isMarkdownNote(note)) {
+                notes.push({ id: note.id, title: note.title || 'Untitled', body: note.body ?? '' });
+            }
+        }
+    });
+
+    return notes;
+}
+
+/**
+ * Finds the links from other notes to the headings of a note.
+ *
+ * @returns Links by anchor, in search result and document order
+ */
+export async function findHeadingBacklinks(noteId: string): Promise<Map<string, HeadingBacklink[]>> {
+    const backlinks = new Map<string, HeadingBacklink[]>();
+
+    for (const note of await findLinkingNotes(noteId)) {
+        for (const link of findHeadingLinks(note.body)) {
+            if (link.noteId !== noteId) {
+                continue;
+            }
+
+            const entries = backlinks.get(link.anchor) ?? [];
+            entries.push({
+                noteId: note.id,
+                noteTitle: note.title,
+                from: link.from,
+                to: link.to,
+                line: note.body.slice(0, link.from).split('\n').length,
+                lineText: getLinePreview(note.body, link.from),
+            });
+            backlinks.set(link.anchor, entries);
+        }
+    }
+
+    return backlinks;
+}
+
+/**
+ * Counts the notes linking to each heading (a note linking twice counts once).
+ */
+export function countHeadingBacklinks(backlinks: Map<string, HeadingBacklink[]>): HeadingBacklinkCount[] {
+    return [...backlinks].map(([anchor, links]) => ({
+        anchor,
+        count: new Set(links.map((link) => link.noteId)).size,
+    }));
+}
+
+/**
+ * Dialog listing the links to a heading.
+ */
+export class HeadingBacklinksDialog {
+    private handle: string | null = null;
+
+    /**
+     * Shows the links and resolves with the one to open, or null when closed.
+     */
+    async open(headingText: string, backlinks: HeadingBacklink[]): Promise<HeadingBacklink | null> {
+        const handle = await this.ensureDialog();
+        const byKey = new Map(backlinks.map((backlink) => [backlinkKey(backlink), backlink]));
+
+        await joplin.views.dialogs.setButtons(
+            handle,
+            byKey.size
+                ? [
+                      { id: 'ok', title: 'Open Note' },
+                      { id: 'cancel', title: 'Close' },
+                  ]
+                : [{ id: 'cancel', title: 'Close' }]
+        );
+        await joplin.views.dialogs.setHtml(handle, this.renderHtml(headingText, backlinks));
+
+        const result = await joplin.views.dialogs.open(handle);
+        const key = result.formData?.headingBacklinks?.selection;
+        return result.id === 'ok' && typeof key === 'string' ? (byKey.get(key) ?? null) : null;
+    }
+
+    private async ensureDialog(): Promise<string> {
+        if (this.handle) {
+            return this.handle;
+        }
+
+        const handle = await joplin.views.dialogs.create(DIALOG_ID);
+        await joplin.views.dialogs.addScript(handle, './dialogs/linkList.css');
+        await joplin.views.dialogs.addScript(handle, './dialogs/linkList.js');
+
+        this.handle = handle;
+        return handle;
+    }
+
+    private renderItem(backlink: HeadingBacklink, isSelected: boolean): string {
+        return `
+            <li class="link-list-item${isSelected ? ' is-selected' : ''}" role="option"
+                aria-selected="${isSelected}" data-key="${escapeHtml(backlinkKey(backlink))}">
+                <div class="link-list-item-text">${escapeHtml(backlink.lineText)}</div>
+                <div class="link-list-item-meta">${escapeHtml(`${backlink.noteTitle} › line ${backlink.line}`)}</div>
+            </li>
+        `;
+    }
+
+    private renderHtml(headingText: string, backlinks: HeadingBacklink[]): string {
+        const noteCount = new Set(backlinks.map((backlink) => backlink.noteId)).size;
+        const status = backlinks.length
+            ? `“${headingText}” is linked from ${noteCount} ${noteCount === 1 ? 'note' : 'notes'}`
+            : `No notes link to “${headingText}”`;
+        const selection = backlinks.length ? backlinkKey(backlinks[0]) : '';
+
+        return `
+            <form name="headingBacklinks" class="link-list">
+                <input class="link-list-selection" name="selection" type="hidden"
+                    value="${escapeHtml(selection)}" />
+                <p class="link-list-status">${escapeHtml(status)}</p>
+                <ul class="link-list-results" role="listbox">
+                    ${backlinks.map((backlink, index) => this.renderItem(backlink, index === 0)).join('')}
+                </ul>
+            </form>
+        `;
+    }
+}
@@ -1,4 +1,22 @@
-import { extractHeadings } from './headingExtractor';
+import { ChangeSet, Text } from '@codemirror/state';
+import type { ChangedRange } from '@lezer/common';
+import { createHeadingAnchor, extractHeadings, IncrementalHeadingExtractor } from './headingExtractor';
+
+function toText(content: string): Text {
+    return Text.of(content.split('\n'));
+}
+
+function applyEdit(
+    content: string,
+    change: { from: number; to?: number; insert?: string }
+): { content: string; ranges: ChangedRange[] } {
+    const changes = ChangeSet.of(change, content.length);
+    const ranges: ChangedRange[] = [];
+    changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+        ranges.push({ fromA, toA, fromB, toB });
+    });
+    return { content: changes.apply(toText(content)).toString(), ranges };
+}
 
 describe('extractHeadings', () => {
     it('parses ATX and Setext headings including nested structures', () => {
@@ -250,3 +268,134 @@ describe('extractHeadings', () => {
         expect(headings[0].text).toBe('Icon');
     });
 });
+
+describe('createHeadingAnchor', () => {
+    it('can leave outline numbers out of the anchor', () => {
+        expect(createHeadingAnchor('1.2 Setup Guide')).toBe('12-setup-guide');
+        expect(createHeadingAnchor('1.2 Setup Guide', { ignoreOutlineNumbers: true })).toBe('setup-guide');
+        expect(createHeadingAnchor('2024 Plans', { ignoreOutlineNumbers: true })).toBe('2024-plans');
+    });
+});
+
+describe('IncrementalHeadingExtractor', () => {
+    const baseContent = [
+        '# Guide',
+        '',
+        'Intro paragraph',
+        '',
+        '## Install',
+        '',
+        '```',
+        '# not a heading',
+        '```',
+        '',
+        '## Install',
+        '',
+        '- ### Nested',
+        '',
+        'Setext',
+        '------',
+    ].join('\n');
+
+    it('matches extractHeadings for a full parse', () => {
+        const extractor = new IncrementalHeadingExtractor();
+        expect(extractor.extract(toText(baseContent))).toEqual(extractHeadings(baseContent));
+    });
+
+    it('matches extractHeadings after a sequence of edits', () => {
+        const extractor = new IncrementalHeadingExtractor();
+        extractor.extract(toText(baseContent));
+
+        const edits: Array<(current: string) => { from: number; to?: number; insert?: string }> = [
+            // Insert a new heading at the top, shifting every offset
+            () => ({ from: 0, insert: '# Preface\n\n' }),
+            // Turn a paragraph into a heading
+            (current) => ({ from: current.indexOf('Intro'), insert: '## ' }),
+            // Rename a heading, changing its anchor and the duplicate's suffix
+            (current) => ({
+                from: current.indexOf('# Preface'),
+                to: current.indexOf('# Preface') + 9,
+                insert: '# Install',
+            }),
+            // Delete a whole section
+            (current) => ({ from: current.indexOf('## Install'), to: current.indexOf('```') }),
+        ];
+
+        let content = baseContent;
+        for (const createEdit of edits) {
+            const result = applyEdit(content, createEdit(content));
+            content = result.content;
+            expect(extractor.update(toText(content), result.ranges)).toEqual(extractHeadings(content));
+        }
+    });
+
+    it('tracks code fences opened and closed by edits', () => {
+        const extractor = new IncrementalHeadingExtractor();
+        extractor.extract(toText(baseContent));
+
+        const fenceEnd = baseContent.lastIndexOf('```');
+        const removed = applyEdit(baseContent, { from: fenceEnd, to: fenceEnd + 3 });
+        expect(extractor.update(toText(removed.content), removed.ranges)).toEqual(extractHeadings(removed.content));
+
+        const restored = applyEdit(removed.content, { from: fenceEnd, insert: '```' });
+        expect(extractor.update(toText(restored.content), restored.ranges)).toEqual(extractHeadings(restored.content));
+        expect(restored.content).toBe(baseContent);
+    });
+
+    it('matches extractHeadings while a note is typed and deleted one character at a time', () => {
+        const note = [
+            '# Notes',
+            '',
+            'Setext',
+            '===',
+            '',
+            '> ## Quoted',
+            '',
+            '- item',
+            '  ## In item',
+            '',
+            '```',
+            '# fenced',
+            '```',
+            '',
+            ...Array.from({ length: 20 }, (_, index) => `## Part ${index % 3}\n\nText ${index}\n`),
+        ].join('\n');
+        const extractor = new IncrementalHeadingExtractor();
+        extractor.extract(toText(''));
+
+        let content = '';
+        for (const char of note) {
+            const result = applyEdit(content, { from: content.length, insert: char });
+            content = result.content;
+            expect(extractor.update(toText(content), result.ranges)).toEqual(extractHeadings(content));
+        }
+        while (content) {
+            const result = applyEdit(content, { from: 0, to: 1 });
+            content = result.content;
+            expect(extractor.update(toText(content), result.ranges)).toEqual(extractHeadings(content));
+        }
+    });
+
+    it('updates the headings after a fence opened above them', () => {
+        const content = ['# Top', '', ...Array.from({ length: 50 }, (_, index) => `## Section ${index}\n`)].join('\n');
+        const extractor = new IncrementalHeadingExtractor();
+        extractor.extract(toText(content));
+
+        const opened = applyEdit(content, { from: content.indexOf('## Section 0'), insert: '```\n' });
+        expect(extractor.update(toText(opened.content), opened.ranges)).toEqual(extractHeadings(opened.content));
+        expect(extractHeadings(opened.content)).toHaveLength(1);
+
+        const closed = applyEdit(opened.content, { from: opened.content.indexOf('## Section 25'), insert: '```\n' });
+        expect(extractor.update(toText(closed.content), closed.ranges)).toEqual(extractHeadings(closed.content));
+    });
+
+    it('performs a full parse when updated without a previous tree', () => {
+        const extractor = new IncrementalHeadingExtractor();
+        expect(extractor.update(toText(baseContent), [])).toEqual(extractHeadings(baseContent));
+
+        extractor.reset();
+        expect(extractor.update(toText('# Fresh'), [{ fromA: 0, toA: 0, fromB: 0, toB: 7 }])).toEqual(
+            extractHeadings('# Fresh')
+        );
+    });
+});
@@ -9,17 +9,21 @@
  * - Uses Lezer AST parser for reliable heading detection and inline text extraction
  * - Stable IDs based on byte position (`heading-{from}`)
  * - Anchor deduplication (e.g., "intro" → "intro-2" → "intro-3")
+ * - Anchors can optionally ignore outline numbers ("1.2 Setup" → "setup"), see createHeadingAnchor
  * - CodeMirror Text class for efficient position → line number conversion
  * - Preserves snake_case in headings (doesn't break on underscores)
+ * - Incremental re-parsing via Lezer tree fragments for large documents, collecting headings only
+ *   around the edit (see IncrementalHeadingExtractor)
  *
  * @see extractInlineText - Recursive tree walker for extracting clean text
  */
 
 import { parser } from '@lezer/markdown';
 import { Text } from '@codemirror/state';
-import { SyntaxNode } from '@lezer/common';
+import { ChangedRange, Input, SyntaxNode, Tree, TreeFragment } from '@lezer/common';
 import logger from './logger';
 import { HeadingItem } from './types';
+import { stripOutlineNumber } from './outlineNumbering';
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const uslug = require('@joplin/fork-uslug');
 
@@ -56,14 +60,14 @@ function parseHeadingLevel(nodeName: string): number | null {
  * // Returns: "bold and code"
  * ```
  */
-function extractInlineText(node: SyntaxNode, doc: string): string {
+function extractInlineText(node: SyntaxNode, doc: Text): string {
     let out = '';
     const cursor = node.cursor();
 
     if (!cursor.firstChild()) {
         // Leaf node case — include only text-bearing nodes
         if (cursor.name === 'Text' || cursor.name === 'CodeText') {
-            return doc.slice(cursor.from, cursor.to);
+            return doc.sliceString(cursor.from, cursor.to);
         }
         return '';
     }
@@ -79,7 +83,7 @@ function extractInlineText(node: SyntaxNode, doc: string): string {
 
         // --- Handle gaps (plain unformatted text between inline elements) ---
         if (from > lastPos) {
-            out += doc.slice(lastPos, from);
+            out += doc.sliceString(lastPos, from);
         }
 
         // --- Skip non-content tokens ---
@@ -98,7 +102,7 @@ function extractInlineText(node: SyntaxNode, doc: string): string {
         // --- Handle escaped characters (e.g., \* → *) ---
         if (name === 'Escape') {
             // Escape node contains both backslash and character, extract just the character
-            out += doc.slice(from + 1, to);
+            out += doc.sliceString(from + 1, to);
             lastPos = to;
             continue;
         }
@@ -111,7 +115,7 @@ function extractInlineText(node: SyntaxNode, doc: string): string {
 
         // --- Leaf text ---
         if (name === 'Text' || name === 'CodeText') {
-            out += doc.slice(from, to);
+            out += doc.sliceString(from, to);
             lastPos = to;
             continue;
         }
@@ -123,7 +127,7 @@ function extractInlineText(node: SyntaxNode, doc: string): string {
 
     // Include any trailing gap. Whitespace is normalized by trim() in normalizeHeadingText.
     if (lastPos < node.to) {
-        out += doc.slice(lastPos, node.to);
+        out += doc.sliceString(lastPos, node.to);
     }
 
     return out;
@@ -136,19 +140,153 @@ function extractInlineText(node: SyntaxNode, doc: string): string {
  * @param doc - Source markdown document
  * @returns Cleaned heading text without markdown formatting
  */
-function normalizeHeadingText(node: SyntaxNode, doc: string): string {
+function normalizeHeadingText(node: SyntaxNode, doc: Text): string {
     return extractInlineText(node, doc).replace(/\s+/g, ' ').trim();
 }
 
-function createUniqueAnchor(text: string, fallback: string, counts: Map<string, number>): string {
-    const anchorBase = (typeof text === 'string' ? uslug(text) : '') || fallback;
-    const previousCount = counts.get(anchorBase);
-    if (previousCount === undefined) {
-        counts.set(anchorBase, 1);
-        return anchorBase;
+export interface HeadingAnchorOptions {
+    /** Leave a leading outline number out of the anchor, so it doesn't change when renumbering */
+    ignoreOutlineNumbers?: boolean;
+}
+
+/**
+ * Returns the anchor slug for heading text (without the "-2" suffix of duplicate headings).
+ *
+ * Anchors of extracted headings keep outline numbers, matching the ids Joplin renders; ignoring
+ * them is meant for matching headings across renumbering.
+ */
+export function createHeadingAnchor(text: string, options: HeadingAnchorOptions = {}): string {
+    if (typeof text !== 'string') {
+        return '';
+    }
+    return uslug(options.ignoreOutlineNumbers ? stripOutlineNumber(text) : text);
+}
+
+/**
+ * A heading as found in the syntax tree, before anchors are deduplicated. The incremental
+ * extractor keeps these between edits, so headings outside the edit aren't re-read.
+ */
+interface ParsedHeading {
+    from: number;
+    to: number;
+    level: number;
+    text: string;
+    /** Anchor slug without the duplicate suffix; empty when the text has no sluggable characters */
+    anchorBase: string;
+}
+
+// Leaf blocks that can never contain headings; skipping them avoids walking their inline nodes.
+const LEAF_BLOCK_NODES = new Set(['Paragraph', 'FencedCode', 'CodeBlock', 'HTMLBlock', 'Table', 'LinkReference']);
+
+/**
+ * Lezer input reading straight from a CodeMirror Text, so the document never has to be
+ * flattened into a string.
+ */
+class TextInput implements Input {
+    readonly lineChunks = true;
+
+    constructor(private readonly doc: Text) {}
+
+    get length(): number {
+        return this.doc.length;
+    }
+
+    chunk(from: number): string {
+        const line = this.doc.lineAt(from);
+        if (from < line.to) {
+            return line.text.slice(from - line.from);
+        }
+        return from < this.doc.length ? '\n' : '';
     }
-    counts.set(anchorBase, previousCount + 1);
-    return `${anchorBase}-${previousCount + 1}`;
+
+    read(from: number, to: number): string {
+        return this.doc.sliceString(from, to);
+    }
+}
+
+/**
+ * Collects the headings starting within a range of a parsed Lezer tree.
+ *
+ * @param tree - Markdown syntax tree for `doc`
+ * @param doc - Source markdown document
+ * @param from - Start of the range; should be a block boundary
+ * @param to - End of the range; should be a block boundary
+ * @returns Headings in document order
+ */
+function collectHeadings(tree: Tree, doc: Text, from = 0, to = doc.length): ParsedHeading[] {
+    const headings: ParsedHeading[] = [];
+
+    tree.iterate({
+        from,
+        to,
+        enter(node) {
+            if (LEAF_BLOCK_NODES.has(node.type.name)) {
+                return false;
+            }
+
+            const level = parseHeadingLevel(node.type.name);
+            if (level === null) {
+                return;
+            }
+            if (node.from < from || node.from >= to) {
+                return false;
+            }
+
+            const text = normalizeHeadingText(node.node, doc);
+            if (text) {
+                headings.push({ from: node.from, to: node.to, level, text, anchorBase: createHeadingAnchor(text) });
+            }
+
+            // Headings never nest, so there is nothing further to find below this node
+            return false;
+        },
+    });
+
+    return headings;
+}
+
+/**
+ * Assigns ids, line numbers and deduplicated anchors ("intro" → "intro-2").
+ *
+ * Shared by the one-shot and incremental extractors so both produce identical results for
+ * the same content.
+ */
+function toHeadingItems(headings: readonly ParsedHeading[], doc: Text): HeadingItem[] {
+    const anchorCounts = new Map<string, number>();
+
+    return headings.map(({ from, to, level, text, anchorBase }) => {
+        const base = anchorBase || `heading-${from}`;
+        const previousCount = anchorCounts.get(base) ?? 0;
+        anchorCounts.set(base, previousCount + 1);
+
+        return {
+            id: `heading-${from}`,
+            text,
+            level,
+            from,
+            to,
+            line: doc.lineAt(from).number - 1,
+            anchor: previousCount ? `${base}-${previousCount + 1}` : base,
+        };
+    });
+}
+
+/**
+ * Start of the top-level block that contains or ends at `position`, or `position` itself
+ * when it lies between blocks.
+ */
+function blockStartAt(tree: Tree, position: number): number {
+    const block = tree.topNode.childBefore(position);
+    return block && block.to >= position ? block.from : position;
+}
+
+/**
+ * End of the top-level block that contains or starts at `position`, or `position` itself
+ * when it lies between blocks.
+ */
+function blockEndAt(tree: Tree, position: number): number {
+    const block = tree.topNode.childAfter(position);
+    return block && block.from <= position ? block.to : position;
 }
 
 /**
@@ -169,43 +307,132 @@ function createUniqueAnchor(text: string, fallback: string, counts: Map<string,
  */
 export function extractHeadings(content: string): HeadingItem[] {
     try {
-        const tree = parser.parse(content);
         const doc = Text.of(content.split('\n'));
-        const headings: HeadingItem[] = [];
-        const anchorCounts = new Map<string, number>();
-
-        tree.iterate({
-            enter(node) {
-                const level = parseHeadingLevel(node.type.name);
-                if (level === null) {
-                    return;
-                }
+        return toHeadingItems(collectHeadings(parser.parse(content), doc), doc);
+    } catch (error) {
+        logger.error('Failed to extract headings', error);
+        return [];
+    }
+}
+
+/**
+ * Stateful heading extractor that re-parses only the edited regions of a document.
+ *
+ * Keeps the previous Lezer tree as fragments and feeds them back into the parser together
+ * with the changed ranges of each edit, so unchanged blocks are reused instead of re-parsed.
+ * Headings are only re-collected from the top-level blocks around the edit; the others are
+ * kept from the previous call and shifted. The document is read through its CodeMirror Text,
+ * so an edit costs time in proportion to the blocks it touches rather than to the note.
+ * Results are identical to `extractHeadings` for the same content.
+ *
+ * Callers must report every edit since the previous call; when that isn't possible
+ * (e.g. edits happened while nothing was listening), call `reset()` or `extract()` to
+ * start over from a full parse.
+ *
+ * @example
+ * ```typescript
+ * const extractor = new IncrementalHeadingExtractor();
+ * extractor.extract(state.doc);
+ *
+ * // Later, from a ViewUpdate:
+ * const ranges: ChangedRange[] = [];
+ * update.changes.iterChangedRanges((fromA, toA, fromB, toB) => ranges.push({ fromA, toA, fromB, toB }));
+ * const headings = extractor.update(update.state.doc, ranges);
+ * ```
+ */
+export class IncrementalHeadingExtractor {
+    private fragments: readonly TreeFragment[] = [];
+
+    private tree: Tree | null = null;
+
+    private headings: ParsedHeading[] = [];
+
+    /**
+     * Parses the whole document from scratch, discarding any previously cached tree.
+     *
+     * @param doc - Markdown document to parse
+     * @returns Array of headings in document order, or empty array if parsing fails
+     */
+    public extract(doc: Text): HeadingItem[] {
+        this.reset();
+        try {
+            const tree = this.parse(doc);
+            this.headings = collectHeadings(tree, doc);
+            return toHeadingItems(this.headings, doc);
+        } catch (error) {
+            logger.error('Failed to extract headings', error);
+            this.reset();
+            return [];
+        }
+    }
+
+    /**
+     * Re-parses the document after an edit, reusing unchanged parts of the previous tree and
+     * the headings outside the edited blocks.
+     *
+     * Falls back to a full parse when no previous tree is available.
+     *
+     * @param doc - Markdown document after the edit
+     * @param changes - Ranges changed since the previous `extract`/`update` call
+     * @returns Array of headings in document order, or empty array if parsing fails
+     */
+    public update(doc: Text, changes: readonly ChangedRange[]): HeadingItem[] {
+        const previousTree = this.tree;
+        if (!previousTree) {
+            return this.extract(doc);
+        }
+        if (!changes.length) {
+            return toHeadingItems(this.headings, doc);
+        }
 
-                const from = node.from;
-                const to = node.to;
-                const text = normalizeHeadingText(node.node, content);
+        try {
+            this.fragments = TreeFragment.applyChanges(this.fragments, changes);
+            const tree = this.parse(doc);
 
-                if (!text) {
-                    return;
+            // Text before the first change keeps its positions, text after the last one is
+            // shifted by `delta`. Widen the edited span until it starts and ends on block
+            // boundaries in both trees: outside of it, both parses agree.
+            const delta = doc.length - previousTree.length;
+            let from = changes[0].fromB;
+            let to = changes[changes.length - 1].toB;
+            for (;;) {
+                const start = Math.min(blockStartAt(tree, from), blockStartAt(previousTree, from));
+                const end = Math.max(blockEndAt(tree, to), blockEndAt(previousTree, to - delta) + delta);
+                if (start === from && end === to) {
+                    break;
                 }
+                from = start;
+                to = end;
+            }
 
-                const anchor = createUniqueAnchor(text, `heading-${from}`, anchorCounts);
-
-                headings.push({
-                    id: `heading-${from}`,
-                    text,
-                    level,
-                    from,
-                    to,
-                    line: doc.lineAt(from).number - 1,
-                    anchor,
-                });
-            },
-        });
-
-        return headings;
-    } catch (error) {
-        logger.error('Failed to extract headings', error);
-        return [];
+            this.headings = [
+                ...this.headings.filter((heading) => heading.from < from),
+                ...collectHeadings(tree, doc, from, to),
+                ...this.headings
+                    .filter((heading) => heading.from >= to - delta)
+                    .map((heading) => ({ ...heading, from: heading.from + delta, to: heading.to + delta })),
+            ];
+            return toHeadingItems(this.headings, doc);
+        } catch (error) {
+            logger.error('Failed to extract headings', error);
+            this.reset();
+            return [];
+        }
+    }
+
+    /**
+     * Drops the cached tree so the next call performs a full parse.
+     */
+    public reset(): void {
+        this.fragments = [];
+        this.tree = null;
+        this.headings = [];
+    }
+
+    private parse(doc: Text): Tree {
+        const tree = parser.parse(new TextInput(doc), this.fragments);
+        this.fragments = TreeFragment.addTree(tree, this.fragments);
+        this.tree = tree;
+        return tree;
     }
 }
@@ -0,0 +1,177 @@
+import { filterHeadings, fuzzyMatch, matchText, normalizeFilterMode, parseFilterPath } from './headingFilter';
+import type { HeadingItem } from './types';
+
+function createHeading(text: string, index: number, level = 2): HeadingItem {
+    return {
+        id: `heading-${index * 10}`,
+        text,
+        level,
+        from: index * 10,
+        to: index * 10 + text.length,
+        line: index,
+        anchor: text.toLowerCase().replace(/\s+/g, '-'),
+    };
+}
+
+describe('fuzzyMatch', () => {
+    it('matches subsequences across word boundaries', () => {
+        const match = fuzzyMatch('instcfg', 'Install & Configure');
+        expect(match).not.toBeNull();
+        expect(match!.indices).toEqual([0, 1, 2, 3, 10, 13, 15]);
+    });
+
+    it('returns null when the query is not a subsequence', () => {
+        expect(fuzzyMatch('xyz', 'Install & Configure')).toBeNull();
+        expect(fuzzyMatch('installation', 'Install')).toBeNull();
+    });
+
+    it('prefers word-boundary matches over mid-word matches', () => {
+        const match = fuzzyMatch('c', 'Basic Configuration');
+        expect(match!.indices).toEqual([6]);
+    });
+
+    it('rewards acronyms and camelCase boundaries', () => {
+        const acronym = fuzzyMatch('gs', 'Getting Started')!;
+        const scattered = fuzzyMatch('gs', 'Changelogs')!;
+        expect(acronym.score).toBeGreaterThan(scattered.score);
+
+        expect(fuzzyMatch('hw', 'helloWorld')!.indices).toEqual([0, 5]);
+    });
+
+    it('rewards consecutive runs', () => {
+        const consecutive = fuzzyMatch('conf', 'Configuration')!;
+        const spread = fuzzyMatch('conf', 'Code of Nuance Fix')!;
+        expect(consecutive.score).toBeGreaterThan(spread.score);
+    });
+
+    it('ignores whitespace in the query', () => {
+        expect(fuzzyMatch('inst cfg', 'Install & Configure')!.indices).toHaveLength(7);
+    });
+
+    it('reports indices into the original text when lowercasing changes its length', () => {
+        // "İ".toLowerCase() is two characters long
+        expect(fuzzyMatch('st', 'İstanbul')!.indices).toEqual([1, 2]);
+    });
+});
+
+describe('matchText', () => {
+    it('matches substrings case-insensitively', () => {
+        expect(matchText('CONF', 'Install & Configure', 'substring')).toEqual({
+            score: 0,
+            indices: [10, 11, 12, 13],
+        });
+        expect(matchText('instcfg', 'Install & Configure', 'substring')).toBeNull();
+    });
+
+    it('matches prefixes only at the start of the text', () => {
+        expect(matchText('inst', 'Install', 'prefix')!.indices).toEqual([0, 1, 2, 3]);
+        expect(matchText('stall', 'Install', 'prefix')).toBeNull();
+    });
+
+    it('reports substring indices into the original text when lowercasing changes its length', () => {
+        expect(matchText('tan', 'İstanbul', 'substring')!.indices).toEqual([2, 3, 4]);
+    });
+
+    it('matches everything for an empty query', () => {
+        expect(matchText('  ', 'Anything', 'fuzzy')).toEqual({ score: 0, indices: [] });
+    });
+});
+
+describe('filterHeadings', () => {
+    const headings = ['Overview', 'Setup', 'Configuration', 'Usage', 'Config Reference'].map((text, index) =>
+        createHeading(text, index)
+    );
+
+    it('returns all headings in document order for an empty query', () => {
+        expect(filterHeadings(headings, '', 'fuzzy').map((m) => m.heading.text)).toEqual([
+            'Overview',
+            'Setup',
+            'Configuration',
+            'Usage',
+            'Config Reference',
+        ]);
+    });
+
+    it('ranks fuzzy matches by score', () => {
+        const results = filterHeadings(headings, 'cr', 'fuzzy').map((m) => m.heading.text);
+        expect(results[0]).toBe('Config Reference');
+        expect(results).toContain('Configuration');
+    });
+
+    it('tie-breaks equal scores by distance from the origin heading', () => {
+        const duplicates = ['Notes', 'Intro', 'Notes', 'Body', 'Notes'].map((text, index) =>
+            createHeading(text, index)
+        );
+        const results = filterHeadings(duplicates, 'notes', 'fuzzy', duplicates[3].id);
+        expect(results.map((m) => m.heading.id)).toEqual([duplicates[2].id, duplicates[4].id, duplicates[0].id]);
+    });
+
+    it('keeps document order for substring mode', () => {
+        const results = filterHeadings(headings, 'config', 'substring', headings[4].id);
+        expect(results.map((m) => m.heading.text)).toEqual(['Configuration', 'Config Reference']);
+    });
+});
+
+describe('parseFilterPath', () => {
+    it('splits on > and /', () => {
+        expect(parseFilterPath('setup > linux')).toEqual({ ancestors: ['setup'], heading: 'linux' });
+        expect(parseFilterPath('guide/setup/linux')).toEqual({ ancestors: ['guide', 'setup'], heading: 'linux' });
+    });
+
+    it('keeps an empty trailing segment to match any child', () => {
+        expect(parseFilterPath('setup >')).toEqual({ ancestors: ['setup'], heading: '' });
+    });
+
+    it('returns null for plain queries', () => {
+        expect(parseFilterPath('setup linux')).toBeNull();
+    });
+});
+
+describe('filterHeadings with breadcrumb paths', () => {
+    const headings = (
+        [
+            [1, 'Setup'],
+            [2, 'Linux'],
+            [3, 'Example'],
+            [2, 'Windows'],
+            [3, 'Example'],
+            [1, 'Usage'],
+            [2, 'Linux'],
+        ] as Array<[number, string]>
+    ).map(([level, text], index) => createHeading(text, index, level));
+
+    it.each(['fuzzy', 'substring', 'prefix'] as const)('matches headings by ancestor chain in %s mode', (mode) => {
+        const results = filterHeadings(headings, 'setup > linux', mode);
+        expect(results.map((m) => m.heading.id)).toEqual([headings[1].id]);
+        expect(results[0].indices).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('allows ancestor segments to skip intermediate levels', () => {
+        const results = filterHeadings(headings, 'setup/example', 'substring');
+        expect(results.map((m) => m.heading.id)).toEqual([headings[2].id, headings[4].id]);
+
+        const narrowed = filterHeadings(headings, 'setup/win/example', 'substring');
+        expect(narrowed.map((m) => m.heading.id)).toEqual([headings[4].id]);
+    });
+
+    it('lists all descendants for a trailing separator', () => {
+        const results = filterHeadings(headings, 'usage >', 'substring');
+        expect(results.map((m) => m.heading.id)).toEqual([headings[6].id]);
+    });
+
+    it('still matches headings whose text contains a separator', () => {
+        const withSlash = [createHeading('Input/Output', 0, 1)];
+        expect(filterHeadings(withSlash, 'input/output', 'substring')).toHaveLength(1);
+    });
+});
+
+describe('normalizeFilterMode', () => {
+    it('accepts known modes', () => {
+        expect(normalizeFilterMode('prefix')).toEqual({ value: 'prefix', changed: false });
+    });
+
+    it('falls back to fuzzy for invalid input', () => {
+        expect(normalizeFilterMode('regex')).toEqual({ value: 'fuzzy', changed: true });
+        expect(normalizeFilterMode(undefined)).toEqual({ value: 'fuzzy', changed: true });
+    });
+});
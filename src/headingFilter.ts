@@ -0,0 +1,344 @@
+/**
+ * Heading filtering and ranking for the navigator panel.
+ *
+ * Supports three matching modes:
+ * - `fuzzy`: subsequence matching with word-boundary, camelCase and consecutive-run bonuses,
+ *   similar to Sublime Text's "go to symbol" (e.g. "instcfg" matches "Install & Configure")
+ * - `substring`: case-insensitive `includes`
+ * - `prefix`: case-insensitive "starts with"
+ *
+ * Queries containing `>` or `/` are also tried as breadcrumb paths (e.g. `setup > linux`): the last
+ * segment must match the heading itself and the preceding segments must match its ancestors, in
+ * order but not necessarily adjacent.
+ *
+ * Fuzzy results are ranked by score, tie-broken by distance from an origin heading (usually the
+ * heading containing the cursor) and then by document order. Substring and prefix results keep
+ * document order. Every match reports the matched character indices for highlighting.
+ */
+
+import type { HeadingFilterMode, HeadingItem } from './types';
+import { DEFAULT_PANEL_OPTIONS } from './types';
+import { buildHeadingTree, getAncestors } from './headingTree';
+
+export const HEADING_FILTER_MODES: readonly HeadingFilterMode[] = ['fuzzy', 'substring', 'prefix'];
+
+export const DEFAULT_HEADING_FILTER_MODE: HeadingFilterMode = DEFAULT_PANEL_OPTIONS.filterMode;
+
+const PATH_SEPARATOR_PATTERN = /[>/]/;
+
+/**
+ * Fuzzy scoring weights.
+ *
+ * - SCORE_MATCH: Base score for every matched character
+ * - SCORE_BOUNDARY_BONUS: Match at the start of a word (start of text or after a separator)
+ * - SCORE_CAMEL_BONUS: Match on an uppercase letter following a lowercase one
+ * - SCORE_CONSECUTIVE_BONUS: Match immediately after the previous match
+ * - SCORE_CASE_BONUS: Query character has the exact same case
+ * - SCORE_GAP_PENALTY: Penalty per skipped character between two matches
+ * - SCORE_LEADING_GAP_PENALTY: Penalty per skipped character before the first match (capped)
+ */
+const SCORE_MATCH = 16;
+const SCORE_BOUNDARY_BONUS = 10;
+const SCORE_CAMEL_BONUS = 8;
+const SCORE_CONSECUTIVE_BONUS = 6;
+const SCORE_CASE_BONUS = 1;
+const SCORE_GAP_PENALTY = 1;
+const SCORE_LEADING_GAP_PENALTY = 0.5;
+const MAX_LEADING_GAP_PENALTY = 8;
+
+export interface TextMatch {
+    score: number;
+    /** Indices of matched characters in the original text, ascending */
+    indices: number[];
+}
+
+export interface HeadingMatch {
+    heading: HeadingItem;
+    score: number;
+    indices: number[];
+}
+
+export interface FilterPath {
+    /** Segments to match against ancestors, outermost first */
+    ancestors: string[];
+    /** Segment to match against the heading itself (empty matches any heading) */
+    heading: string;
+}
+
+export function normalizeFilterMode(raw: unknown): { value: HeadingFilterMode; changed: boolean } {
+    if (typeof raw === 'string' && (HEADING_FILTER_MODES as readonly string[]).includes(raw)) {
+        return { value: raw as HeadingFilterMode, changed: false };
+    }
+    return { value: DEFAULT_HEADING_FILTER_MODE, changed: true };
+}
+
+/**
+ * Lowercases text for matching without changing its length, so match indices can be used on the
+ * original text. Characters whose lowercase form is longer (e.g. "İ") are kept as they are.
+ */
+function foldCase(text: string): string {
+    let folded = '';
+    for (const char of text) {
+        const lower = char.toLowerCase();
+        folded += lower.length === char.length ? lower : char;
+    }
+    return folded;
+}
+
+function isWordCharacter(char: string): boolean {
+    return /[\p{L}\p{N}]/u.test(char);
+}
+
+function characterBonus(text: string, index: number): number {
+    if (index === 0) {
+        return SCORE_BOUNDARY_BONUS;
+    }
+
+    const previous = text[index - 1];
+    const current = text[index];
+    if (!isWordCharacter(previous) && isWordCharacter(current)) {
+        return SCORE_BOUNDARY_BONUS;
+    }
+
+    if (previous !== previous.toUpperCase() && current !== current.toLowerCase()) {
+        return SCORE_CAMEL_BONUS;
+    }
+
+    return 0;
+}
+
+/**
+ * Scores `text` against `query` as a fuzzy subsequence match.
+ *
+ * Uses dynamic programming to find the best-scoring alignment rather than the first greedy one,
+ * so "instcfg" prefers the "C" of "Configure" over an earlier mid-word "c".
+ *
+ * @param query - Search text (whitespace is ignored)
+ * @param text - Candidate text
+ * @returns Best score and matched indices, or null when `query` is not a subsequence of `text`
+ */
+export function fuzzyMatch(query: string, text: string): TextMatch | null {
+    const needle = query.replace(/\s+/g, '');
+    if (!needle) {
+        return { score: 0, indices: [] };
+    }
+
+    const m = needle.length;
+    const n = text.length;
+    if (m > n) {
+        return null;
+    }
+
+    const lowerNeedle = foldCase(needle);
+    const lowerText = foldCase(text);
+    const bonuses = Array.from({ length: n }, (_, index) => characterBonus(text, index));
+
+    // matchScores[i][j]: best score with needle[i] matched exactly at text[j]
+    // bestScores[i][j]: best score with needle[0..i] matched somewhere in text[0..j], including
+    //   gap penalties for characters skipped after the last match
+    // bestPositions[i][j]: position of needle[i]'s match for bestScores[i][j] (for backtracking)
+    // fromConsecutive[i][j]: whether matchScores[i][j] extended a match at j - 1
+    const matchScores: Float64Array[] = [];
+    const bestScores: Float64Array[] = [];
+    const bestPositions: Int32Array[] = [];
+    const fromConsecutive: Uint8Array[] = [];
+
+    for (let i = 0; i < m; i++) {
+        const matchRow = new Float64Array(n).fill(-Infinity);
+        const bestRow = new Float64Array(n).fill(-Infinity);
+        const positionRow = new Int32Array(n).fill(-1);
+        const consecutiveRow = new Uint8Array(n);
+
+        for (let j = i; j < n; j++) {
+            if (lowerText[j] === lowerNeedle[i]) {
+                let base = SCORE_MATCH + bonuses[j] + (text[j] === needle[i] ? SCORE_CASE_BONUS : 0);
+
+                if (i === 0) {
+                    base -= Math.min(j * SCORE_LEADING_GAP_PENALTY, MAX_LEADING_GAP_PENALTY);
+                    matchRow[j] = base;
+                } else {
+                    const consecutive = matchScores[i - 1][j - 1] + SCORE_CONSECUTIVE_BONUS;
+                    const gapped = bestScores[i - 1][j - 1];
+                    if (consecutive >= gapped && consecutive > -Infinity) {
+                        matchRow[j] = base + consecutive;
+                        consecutiveRow[j] = 1;
+                    } else if (gapped > -Infinity) {
+                        matchRow[j] = base + gapped;
+                    }
+                }
+            }
+
+            const carried = j > 0 ? bestRow[j - 1] - SCORE_GAP_PENALTY : -Infinity;
+            if (matchRow[j] > -Infinity && matchRow[j] >= carried) {
+                bestRow[j] = matchRow[j];
+                positionRow[j] = j;
+            } else if (j > 0) {
+                bestRow[j] = carried;
+                positionRow[j] = positionRow[j - 1];
+            }
+        }
+
+        matchScores.push(matchRow);
+        bestScores.push(bestRow);
+        bestPositions.push(positionRow);
+        fromConsecutive.push(consecutiveRow);
+    }
+
+    // Pick the best end position without penalizing trailing unmatched characters
+    let end = -1;
+    let score = -Infinity;
+    for (let j = m - 1; j < n; j++) {
+        if (matchScores[m - 1][j] > score) {
+            score = matchScores[m - 1][j];
+            end = j;
+        }
+    }
+
+    if (end < 0) {
+        return null;
+    }
+
+    const indices = new Array<number>(m);
+    let position = end;
+    for (let i = m - 1; i >= 0; i--) {
+        indices[i] = position;
+        if (i === 0) {
+            break;
+        }
+        position = fromConsecutive[i][position] ? position - 1 : bestPositions[i - 1][position - 1];
+    }
+
+    return { score, indices };
+}
+
+function rangeIndices(start: number, length: number): number[] {
+    return Array.from({ length }, (_, offset) => start + offset);
+}
+
+/**
+ * Matches `text` against `query` using the given filter mode.
+ *
+ * @returns Match details, or null when the text doesn't match
+ */
+export function matchText(query: string, text: string, mode: HeadingFilterMode): TextMatch | null {
+    const normalizedQuery = foldCase(query.trim());
+    if (!normalizedQuery) {
+        return { score: 0, indices: [] };
+    }
+
+    switch (mode) {
+        case 'substring': {
+            const index = foldCase(text).indexOf(normalizedQuery);
+            return index < 0 ? null : { score: 0, indices: rangeIndices(index, normalizedQuery.length) };
+        }
+        case 'prefix':
+            return foldCase(text).startsWith(normalizedQuery)
+                ? { score: 0, indices: rangeIndices(0, normalizedQuery.length) }
+                : null;
+        case 'fuzzy':
+        default:
+            return fuzzyMatch(query.trim(), text);
+    }
+}
+
+/**
+ * Parses a breadcrumb path query such as `setup > linux` or `setup/linux`.
+ *
+ * @returns The parsed path, or null when the query contains no separator
+ */
+export function parseFilterPath(query: string): FilterPath | null {
+    if (!PATH_SEPARATOR_PATTERN.test(query)) {
+        return null;
+    }
+
+    const segments = query.split(PATH_SEPARATOR_PATTERN).map((segment) => segment.trim());
+    return {
+        ancestors: segments.slice(0, -1).filter(Boolean),
+        heading: segments[segments.length - 1],
+    };
+}
+
+function matchAncestors(segments: string[], ancestors: HeadingItem[], mode: HeadingFilterMode): number | null {
+    let score = 0;
+    let next = 0;
+
+    for (const segment of segments) {
+        let matched = false;
+        while (next < ancestors.length) {
+            const match = matchText(segment, ancestors[next++].text, mode);
+            if (match) {
+                score += match.score;
+                matched = true;
+                break;
+            }
+        }
+
+        if (!matched) {
+            return null;
+        }
+    }
+
+    return score;
+}
+
+/**
+ * Matches a heading against the query as plain text and, for path queries, as a breadcrumb
+ * path; returns whichever interpretation scores higher.
+ */
+function matchHeading(
+    query: string,
+    path: FilterPath | null,
+    heading: HeadingItem,
+    getHeadingAncestors: () => HeadingItem[],
+    mode: HeadingFilterMode
+): TextMatch | null {
+    const direct = matchText(query, heading.text, mode);
+    if (!path) {
+        return direct;
+    }
+
+    const own = matchText(path.heading, heading.text, mode);
+    const ancestorScore = own ? matchAncestors(path.ancestors, getHeadingAncestors(), mode) : null;
+    if (!own || ancestorScore === null) {
+        return direct;
+    }
+
+    const pathMatch = { score: own.score + ancestorScore, indices: own.indices };
+    return direct && direct.score >= pathMatch.score ? direct : pathMatch;
+}
+
+/**
+ * Filters and ranks headings for display.
+ *
+ * @param headings - Headings in document order
+ * @param query - Filter text typed by the user
+ * @param mode - Matching mode
+ * @param originHeadingId - Heading used to tie-break equally scored fuzzy matches by proximity
+ * @returns Matching headings; ranked for fuzzy mode, otherwise in document order
+ */
+export function filterHeadings(
+    headings: HeadingItem[],
+    query: string,
+    mode: HeadingFilterMode,
+    originHeadingId: string | null = null
+): HeadingMatch[] {
+    const path = parseFilterPath(query);
+    const tree = path ? buildHeadingTree(headings) : null;
+    const matches: Array<HeadingMatch & { index: number }> = [];
+
+    headings.forEach((heading, index) => {
+        const match = matchHeading(query, path, heading, () => (tree ? getAncestors(tree, heading.id) : []), mode);
+        if (match) {
+            matches.push({ heading, score: match.score, indices: match.indices, index });
+        }
+    });
+
+    if (mode === 'fuzzy' && query.trim()) {
+        const originIndex = originHeadingId ? headings.findIndex((heading) => heading.id === originHeadingId) : -1;
+        const distance = (index: number) => (originIndex >= 0 ? Math.abs(index - originIndex) : index);
+
+        matches.sort((a, b) => b.score - a.score || distance(a.index) - distance(b.index) || a.index - b.index);
+    }
+
+    return matches.map(({ heading, score, indices }) => ({ heading, score, indices }));
+}
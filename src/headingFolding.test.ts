@@ -0,0 +1,66 @@
+import { extractHeadings } from './headingExtractor';
+import { findFoldedHeadingIds, getFoldRangesExcept, getFoldRangesToLevel, getSectionFoldRange } from './headingFolding';
+
+const content = [
+    '# Guide',
+    'intro',
+    '## Install',
+    'install body',
+    '### Linux',
+    'linux body',
+    '',
+    '## Usage',
+    '## FAQ',
+    'faq body',
+    '',
+].join('\n');
+
+const headings = extractHeadings(content);
+
+function foldedTexts(ranges: { from: number; to: number }[]): string[] {
+    return ranges.map((range) => content.slice(range.from, range.to));
+}
+
+describe('getSectionFoldRange', () => {
+    it('folds from the end of the heading line to the end of the section, keeping trailing blank lines', () => {
+        expect(foldedTexts([getSectionFoldRange(content, headings, 2)!])).toEqual(['\nlinux body']);
+        expect(foldedTexts([getSectionFoldRange(content, headings, 1)!])).toEqual([
+            '\ninstall body\n### Linux\nlinux body',
+        ]);
+    });
+
+    it('returns null for a section without content', () => {
+        expect(getSectionFoldRange(content, headings, 3)).toBeNull();
+    });
+});
+
+describe('getFoldRangesToLevel', () => {
+    it('folds every section at the level or deeper', () => {
+        expect(foldedTexts(getFoldRangesToLevel(content, headings, 2))).toEqual([
+            '\ninstall body\n### Linux\nlinux body',
+            '\nlinux body',
+            '\nfaq body',
+        ]);
+    });
+});
+
+describe('getFoldRangesExcept', () => {
+    it('folds the outermost other sections, keeping the section and its ancestors open', () => {
+        const linux = headings.find((heading) => heading.text === 'Linux')!;
+        expect(foldedTexts(getFoldRangesExcept(content, headings, linux.id))).toEqual(['\nfaq body']);
+
+        const install = headings.find((heading) => heading.text === 'Install')!;
+        expect(foldedTexts(getFoldRangesExcept(content, headings, install.id))).toEqual(['\nfaq body']);
+
+        const guide = headings[0];
+        expect(getFoldRangesExcept(content, headings, guide.id)).toEqual([]);
+        expect(getFoldRangesExcept(content, headings, 'missing')).toEqual([]);
+    });
+});
+
+describe('findFoldedHeadingIds', () => {
+    it('matches folded ranges starting at the end of a heading', () => {
+        const range = getSectionFoldRange(content, headings, 1)!;
+        expect(findFoldedHeadingIds(headings, [range, { from: 0, to: 3 }])).toEqual(new Set([headings[1].id]));
+    });
+});
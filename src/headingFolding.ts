@@ -0,0 +1,88 @@
+/**
+ * Editor fold ranges for heading sections.
+ *
+ * A folded section keeps its heading line visible and hides everything after it up to the end of
+ * the section (its body and subheadings). Trailing blank lines stay visible so the next heading
+ * isn't pulled onto the placeholder line, and a section without content can't be folded. A
+ * heading counts as folded when a folded range starts at the end of its heading line, which also
+ * picks up folds made with CodeMirror's own fold commands or gutter.
+ *
+ * See:
+ * - headingSections.ts - Section ranges
+ * - contentScripts/headingNavigator.ts - Applies the ranges as CodeMirror fold effects
+ */
+
+import type { HeadingItem } from './types';
+import { getSectionRange, type SectionRange } from './headingSections';
+import { buildHeadingTree, getAncestors } from './headingTree';
+
+/**
+ * Returns the range hidden when the section of `headings[index]` is folded, or null when the
+ * section has nothing to fold.
+ *
+ * @param content - Markdown document the headings were extracted from
+ * @param headings - Headings in document order
+ * @param index - Index of the section's heading in `headings`
+ */
+export function getSectionFoldRange(content: string, headings: HeadingItem[], index: number): SectionRange | null {
+    const from = headings[index].to;
+    let to = getSectionRange(content, headings, index).to;
+    while (to > from && /\s/.test(content[to - 1])) {
+        to--;
+    }
+
+    return to > from ? { from, to } : null;
+}
+
+function collectFoldRanges(
+    content: string,
+    headings: HeadingItem[],
+    include: (heading: HeadingItem) => boolean
+): SectionRange[] {
+    const ranges: SectionRange[] = [];
+    headings.forEach((heading, index) => {
+        const range = include(heading) ? getSectionFoldRange(content, headings, index) : null;
+        if (range) {
+            ranges.push(range);
+        }
+    });
+    return ranges;
+}
+
+/**
+ * Returns the ranges that fold the document to `level`: every section at that level or deeper is
+ * folded, like collapsing the panel's tree to the level, so unfolding one section shows its
+ * subheadings folded.
+ */
+export function getFoldRangesToLevel(content: string, headings: HeadingItem[], level: number): SectionRange[] {
+    return collectFoldRanges(content, headings, (heading) => heading.level >= level);
+}
+
+/**
+ * Returns the ranges that fold every section except the one of `headingId`.
+ *
+ * The section stays fully unfolded, and so do its ancestors, whose text before their first
+ * subheading remains visible. Only the outermost other sections are folded.
+ */
+export function getFoldRangesExcept(content: string, headings: HeadingItem[], headingId: string): SectionRange[] {
+    const tree = buildHeadingTree(headings);
+    if (!tree.has(headingId)) {
+        return [];
+    }
+
+    const keptIds = new Set([headingId, ...getAncestors(tree, headingId).map((ancestor) => ancestor.id)]);
+    return collectFoldRanges(content, headings, (heading) => {
+        const parentId = tree.get(heading.id)?.parentId ?? null;
+        return !keptIds.has(heading.id) && (parentId === null || keptIds.has(parentId)) && parentId !== headingId;
+    });
+}
+
+/**
+ * Returns the ids of the headings whose section is folded.
+ *
+ * @param folded - Currently folded ranges
+ */
+export function findFoldedHeadingIds(headings: HeadingItem[], folded: SectionRange[]): Set<string> {
+    const foldStarts = new Set(folded.map((range) => range.from));
+    return new Set(headings.filter((heading) => foldStarts.has(heading.to)).map((heading) => heading.id));
+}
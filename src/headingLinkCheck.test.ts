@@ -0,0 +1,65 @@
+import { extractHeadings } from './headingExtractor';
+import { findBrokenHeadingLinks } from './headingLinks';
+import { getLinkFix, removeFixedLink, type BrokenLinkReport, type LinkCheckResult } from './headingLinkCheck';
+
+jest.mock('api', () => ({ __esModule: true, default: {} }), { virtual: true });
+
+const noteId = '0123456789abcdef0123456789abcdef';
+const otherNoteId = 'fedcba9876543210fedcba9876543210';
+
+function createReports(id: string, content: string): BrokenLinkReport[] {
+    const targets = new Map([[id, extractHeadings(content)]]);
+    return findBrokenHeadingLinks(content, id, targets).map((broken) => ({
+        noteId: id,
+        noteTitle: 'Note',
+        broken,
+        lineText: '',
+    }));
+}
+
+describe('getLinkFix', () => {
+    it('replaces the anchor with the suggested heading', () => {
+        const content = '# Setup\n\nSee [setup](#setpu).';
+        const [report] = createReports(noteId, content);
+
+        expect(getLinkFix(report)).toEqual({
+            noteId,
+            from: content.indexOf('setpu'),
+            to: content.indexOf('setpu') + 'setpu'.length,
+            expected: 'setpu',
+            insert: 'setup',
+        });
+    });
+
+    it('returns null without a suggestion', () => {
+        const [report] = createReports(noteId, '# Setup\n\nSee [other](#unrelated-anchor).');
+        expect(report.broken.suggestion).toBeNull();
+        expect(getLinkFix(report)).toBeNull();
+    });
+});
+
+describe('removeFixedLink', () => {
+    it('removes the fixed link and shifts later links of the same note', () => {
+        const content = '# Installation\n\n[a](#instalation) [b](#missing-one) [c](#installatio)';
+        const reports = createReports(noteId, content);
+        const otherReports = createReports(otherNoteId, content);
+        const result: LinkCheckResult = { scope: 'notebook', checkedNotes: 2, reports: [...reports, ...otherReports] };
+
+        const updated = removeFixedLink(result, reports[0]);
+
+        expect(updated.reports).toHaveLength(5);
+        expect(updated.reports.slice(0, 2).map((report) => report.broken.link.from)).toEqual([
+            reports[1].broken.link.from + 1,
+            reports[2].broken.link.from + 1,
+        ]);
+        expect(updated.reports.slice(2)).toEqual(otherReports);
+    });
+
+    it('keeps links before the fixed one in place', () => {
+        const content = '# Installation\n\n[a](#missing-one) [b](#instalation)';
+        const reports = createReports(noteId, content);
+        const result: LinkCheckResult = { scope: 'note', checkedNotes: 1, reports };
+
+        expect(removeFixedLink(result, reports[1]).reports).toEqual([reports[0]]);
+    });
+});
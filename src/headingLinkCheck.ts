@@ -0,0 +1,269 @@
+/**
+ * Broken heading link check for the plugin host.
+ *
+ * Scans the current note, or every note of the current notebook, for links to headings
+ * (`:/noteId#anchor` and in-note `#anchor`), resolves the anchors of each linked note with
+ * `extractHeadings` and lists the links whose note or heading doesn't exist in a dialog. From
+ * the dialog, a link can be opened in the editor or pointed at the closest existing heading.
+ *
+ * Links to resources (`:/resourceId#page=2`) and HTML notes aren't checked, since their anchors
+ * don't come from Markdown headings.
+ *
+ * See:
+ * - headingLinks.ts - Link detection, checking and suggestions
+ * - dialogs/linkList.js - Dialog webview script, shared with the backlinks dialog
+ * - index.ts - Registers the commands and performs navigation and fixes
+ */
+
+import joplin from 'api';
+import type { EditorRangeReplacement, HeadingItem } from './types';
+import logger from './logger';
+import { extractHeadings } from './headingExtractor';
+import {
+    findBrokenHeadingLinks,
+    findHeadingLinks,
+    getLinePreview,
+    type BrokenHeadingLink,
+    type LinkTargetHeadings,
+} from './headingLinks';
+import { escapeHtml } from './linkFormatting';
+import { forEachNotePage, isHtmlNote, isMarkdownNote, loadNote, type NoteEntity } from './noteData';
+
+const DIALOG_ID = 'headingNavigatorLinkCheckDialog';
+
+export type LinkCheckScope = 'note' | 'notebook';
+
+export interface BrokenLinkReport {
+    noteId: string;
+    noteTitle: string;
+    broken: BrokenHeadingLink;
+    /** Line containing the link, trimmed for display */
+    lineText: string;
+}
+
+export interface LinkCheckResult {
+    scope: LinkCheckScope;
+    checkedNotes: number;
+    reports: BrokenLinkReport[];
+}
+
+export type LinkCheckAction = { type: 'goTo' | 'fix'; report: BrokenLinkReport };
+
+function reportKey(report: BrokenLinkReport): string {
+    return `${report.noteId}:${report.broken.link.from}`;
+}
+
+async function loadSourceNotes(scope: LinkCheckScope): Promise<NoteEntity[]> {
+    if (scope === 'note') {
+        const selected = await joplin.workspace.selectedNote();
+        if (!selected?.id) {
+            return [];
+        }
+        const note = await loadNote(selected.id);
+        return isMarkdownNote(note) ? [note] : [];
+    }
+
+    const folder = await joplin.workspace.selectedFolder();
+    if (!folder?.id) {
+        return [];
+    }
+
+    const notes: NoteEntity[] = [];
+    await forEachNotePage(['folders', folder.id, 'notes'], {}, (page) => notes.push(...page.filter(isMarkdownNote)));
+    return notes;
+}
+
+/**
+ * Loads the headings of a linked note: null when it doesn't exist (or is in the trash),
+ * undefined when the id belongs to something that isn't checked.
+ */
+async function loadTargetHeadings(noteId: string): Promise<HeadingItem[] | null | undefined> {
+    try {
+        const note = await loadNote(noteId);
+        if (note.deleted_time) {
+            return null;
+        }
+        return isHtmlNote(note) ? undefined : extractHeadings(note.body ?? '');
+    } catch {
+        // Not a note; links to resources (e.g. `#page=2` in PDFs) aren't heading links
+        try {
+            await joplin.data.get(['resources', noteId], { fields: ['id'] });
+            return undefined;
+        } catch {
+            return null;
+        }
+    }
+}
+
+/**
+ * Finds the broken heading links in the current note or notebook.
+ */
+export async function checkHeadingLinks(scope: LinkCheckScope): Promise<LinkCheckResult> {
+    const notes = await loadSourceNotes(scope);
+    const targets: LinkTargetHeadings = new Map();
+
+    notes.forEach((note) => targets.set(note.id, extractHeadings(note.body ?? '')));
+
+    for (const note of notes) {
+        for (const link of findHeadingLinks(note.body ?? '')) {
+            if (link.noteId && !targets.has(link.noteId)) {
+                const headings = await loadTargetHeadings(link.noteId);
+                if (headings !== undefined) {
+                    targets.set(link.noteId, headings);
+                }
+            }
+        }
+    }
+
+    const reports: BrokenLinkReport[] = [];
+    for (const note of notes) {
+        const body = note.body ?? '';
+        for (const broken of findBrokenHeadingLinks(body, note.id, targets)) {
+            reports.push({
+                noteId: note.id,
+                noteTitle: note.title || 'Untitled',
+                broken,
+                lineText: getLinePreview(body, broken.link.from),
+            });
+        }
+    }
+
+    logger.info('Checked heading links', { scope, notes: notes.length, broken: reports.length });
+    return { scope, checkedNotes: notes.length, reports };
+}
+
+/**
+ * Returns the edit that points a broken link at its suggested heading.
+ */
+export function getLinkFix(report: BrokenLinkReport): EditorRangeReplacement | null {
+    const { link, suggestion } = report.broken;
+    if (!suggestion) {
+        return null;
+    }
+    return { noteId: report.noteId, from: link.from, to: link.to, expected: link.anchor, insert: suggestion.anchor };
+}
+
+/**
+ * Removes a fixed link from the results, shifting the later links of the same note by the
+ * length difference of the new anchor.
+ */
+export function removeFixedLink(result: LinkCheckResult, fixed: BrokenLinkReport): LinkCheckResult {
+    const { link, suggestion } = fixed.broken;
+    const shift = (suggestion?.anchor.length ?? link.anchor.length) - link.anchor.length;
+
+    const reports = result.reports
+        .filter((report) => report !== fixed)
+        .map((report) => {
+            const { broken } = report;
+            if (report.noteId !== fixed.noteId || broken.link.from < link.to) {
+                return report;
+            }
+            const shifted = { ...broken.link, from: broken.link.from + shift, to: broken.link.to + shift };
+            return { ...report, broken: { ...broken, link: shifted } };
+        });
+
+    return { ...result, reports };
+}
+
+/**
+ * Applies a link fix through the data API, after checking the note still has the link there.
+ *
+ * @returns false when the note changed since it was checked
+ */
+export async function applyLinkFixToNote(fix: EditorRangeReplacement): Promise<boolean> {
+    const note = await loadNote(fix.noteId, ['id', 'body']);
+    const body = note.body ?? '';
+    if (body.slice(fix.from, fix.to) !== fix.expected) {
+        return false;
+    }
+
+    await joplin.data.put(['notes', fix.noteId], null, {
+        body: body.slice(0, fix.from) + fix.insert + body.slice(fix.to),
+    });
+    return true;
+}
+
+/**
+ * Dialog listing broken heading links.
+ */
+export class HeadingLinkCheckDialog {
+    private handle: string | null = null;
+
+    /**
+     * Shows the check results and resolves with the chosen action, or null when closed.
+     */
+    async open(result: LinkCheckResult): Promise<LinkCheckAction | null> {
+        const handle = await this.ensureDialog();
+        const reports = new Map(result.reports.map((report) => [reportKey(report), report]));
+
+        await joplin.views.dialogs.setButtons(
+            handle,
+            reports.size
+                ? [
+                      { id: 'ok', title: 'Go to Link' },
+                      { id: 'fix', title: 'Use Closest Heading' },
+                      { id: 'cancel', title: 'Close' },
+                  ]
+                : [{ id: 'cancel', title: 'Close' }]
+        );
+        await joplin.views.dialogs.setHtml(handle, this.renderHtml(result));
+
+        const dialogResult = await joplin.views.dialogs.open(handle);
+        const key = dialogResult.formData?.headingLinkCheck?.selection;
+        const report = typeof key === 'string' ? reports.get(key) : undefined;
+        if (!report || (dialogResult.id !== 'ok' && dialogResult.id !== 'fix')) {
+            return null;
+        }
+        return { type: dialogResult.id === 'ok' ? 'goTo' : 'fix', report };
+    }
+
+    private async ensureDialog(): Promise<string> {
+        if (this.handle) {
+            return this.handle;
+        }
+
+        const handle = await joplin.views.dialogs.create(DIALOG_ID);
+        await joplin.views.dialogs.addScript(handle, './dialogs/linkList.css');
+        await joplin.views.dialogs.addScript(handle, './dialogs/linkList.js');
+
+        this.handle = handle;
+        return handle;
+    }
+
+    private renderItem(report: BrokenLinkReport, isSelected: boolean): string {
+        const { broken } = report;
+        const reason = broken.reason === 'missingNote' ? 'Linked note not found' : 'Heading not found';
+        const suggestion = broken.suggestion ? ` · Closest heading: ${broken.suggestion.text}` : '';
+
+        return `
+            <li class="link-list-item${isSelected ? ' is-selected' : ''}" role="option"
+                aria-selected="${isSelected}" data-key="${escapeHtml(reportKey(report))}"
+                data-fixable="${broken.suggestion !== null}">
+                <div class="link-list-item-text">${escapeHtml(report.lineText)}</div>
+                <div class="link-list-item-meta">
+                    ${escapeHtml(`${report.noteTitle} › line ${broken.line} · #${broken.link.anchor} · ${reason}${suggestion}`)}
+                </div>
+            </li>
+        `;
+    }
+
+    private renderHtml(result: LinkCheckResult): string {
+        const { checkedNotes, reports } = result;
+        const noteCount = `${checkedNotes} ${checkedNotes === 1 ? 'note' : 'notes'}`;
+        const status = reports.length
+            ? `${reports.length} broken heading ${reports.length === 1 ? 'link' : 'links'} in ${noteCount}`
+            : `No broken heading links in ${noteCount}`;
+        const selection = reports.length ? reportKey(reports[0]) : '';
+
+        return `
+            <form name="headingLinkCheck" class="link-list">
+                <input class="link-list-selection" name="selection" type="hidden"
+                    value="${escapeHtml(selection)}" />
+                <p class="link-list-status">${escapeHtml(status)}</p>
+                <ul class="link-list-results" role="listbox">
+                    ${reports.map((report, index) => this.renderItem(report, index === 0)).join('')}
+                </ul>
+            </form>
+        `;
+    }
+}
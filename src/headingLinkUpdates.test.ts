@@ -0,0 +1,79 @@
+import joplin from 'api';
+import { applyLinkUpdates, type NoteLinkUpdate } from './headingLinkUpdates';
+import { computeAnchorLinkChanges } from './headingLinks';
+
+jest.mock(
+    'api',
+    () => ({
+        __esModule: true,
+        default: { data: { get: jest.fn(), put: jest.fn() } },
+    }),
+    { virtual: true }
+);
+
+const noteId = '0123456789abcdef0123456789abcdef';
+const renamedAnchors = new Map([['setup', 'installation']]);
+
+const getMock = joplin.data.get as jest.Mock;
+const putMock = joplin.data.put as jest.Mock;
+
+function createUpdate(id: string, body: string): NoteLinkUpdate {
+    return {
+        noteId: id,
+        noteTitle: 'Note',
+        body,
+        changes: computeAnchorLinkChanges(body, renamedAnchors, noteId, false),
+    };
+}
+
+function mockNoteBodies(bodies: Record<string, string>): void {
+    getMock.mockImplementation(async ([, id]: string[]) => {
+        if (!(id in bodies)) {
+            throw new Error('Not found');
+        }
+        return { id, body: bodies[id] };
+    });
+}
+
+describe('applyLinkUpdates', () => {
+    beforeEach(() => {
+        getMock.mockReset();
+        putMock.mockReset();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('writes the computed changes to unchanged notes', async () => {
+        const body = `[a](:/${noteId}#setup) and [b](:/${noteId}#setup)`;
+        mockNoteBodies({ a: body });
+
+        await expect(applyLinkUpdates([createUpdate('a', body)], noteId, renamedAnchors)).resolves.toBe(1);
+        expect(putMock).toHaveBeenCalledWith(['notes', 'a'], null, {
+            body: `[a](:/${noteId}#installation) and [b](:/${noteId}#installation)`,
+        });
+    });
+
+    it('recomputes the changes of notes edited since the preview', async () => {
+        const body = `[a](:/${noteId}#setup)`;
+        mockNoteBodies({ a: `New line\n${body}`, b: 'Link removed' });
+
+        const updates = [createUpdate('a', body), createUpdate('b', body)];
+        await expect(applyLinkUpdates(updates, noteId, renamedAnchors)).resolves.toBe(1);
+        expect(putMock).toHaveBeenCalledTimes(1);
+        expect(putMock).toHaveBeenCalledWith(['notes', 'a'], null, {
+            body: `New line\n[a](:/${noteId}#installation)`,
+        });
+    });
+
+    it('keeps updating other notes when one fails', async () => {
+        const body = `[a](:/${noteId}#setup)`;
+        mockNoteBodies({ b: body });
+        jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+        const updates = [createUpdate('deleted', body), createUpdate('b', body)];
+        await expect(applyLinkUpdates(updates, noteId, renamedAnchors)).resolves.toBe(1);
+        expect(putMock).toHaveBeenCalledWith(['notes', 'b'], null, { body: `[a](:/${noteId}#installation)` });
+    });
+});
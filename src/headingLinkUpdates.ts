@@ -0,0 +1,176 @@
+/**
+ * Updates links in other notes after headings of a note are renamed, by a heading rename or by
+ * outline numbering.
+ *
+ * Notes linking to the renamed note are found with `findLinkingNotes`, and their links are
+ * rewritten with `computeAnchorLinkChanges`. The changes are previewed in a dialog, together with
+ * the edit in the note itself, and only applied once confirmed.
+ *
+ * See:
+ * - headingBacklinks.ts - Finds the notes that link to a note
+ * - headingRename.ts - Renames the heading and the links in its own note
+ * - outlineNumbering.ts - Numbers the headings
+ * - headingLinks.ts - Link detection and rewriting
+ * - index.ts - Handles the content script's `renameHeading` message
+ */
+
+import joplin from 'api';
+import type { TextChange } from './headingSections';
+import logger from './logger';
+import { computeAnchorLinkChanges } from './headingLinks';
+import { findLinkingNotes } from './headingBacklinks';
+import { escapeHtml } from './linkFormatting';
+import { loadNote } from './noteData';
+
+const DIALOG_ID = 'headingNavigatorRenameDialog';
+const MAX_PREVIEW_LINKS = 200;
+
+export interface NoteLinkUpdate {
+    noteId: string;
+    noteTitle: string;
+    /** Body the changes were computed against */
+    body: string;
+    changes: TextChange[];
+}
+
+function applyChanges(body: string, changes: TextChange[]): string {
+    return [...changes]
+        .sort((a, b) => b.from - a.from)
+        .reduce((text, change) => text.slice(0, change.from) + change.insert + text.slice(change.to), body);
+}
+
+/**
+ * Finds the notes with links to renamed anchors of a note, and the changes to their links.
+ */
+export async function findLinkUpdates(noteId: string, renamedAnchors: Map<string, string>): Promise<NoteLinkUpdate[]> {
+    const updates: NoteLinkUpdate[] = [];
+
+    // The renamed note itself is updated by the editor, in the same edit as the heading
+    for (const note of await findLinkingNotes(noteId)) {
+        const changes = computeAnchorLinkChanges(note.body, renamedAnchors, noteId, false);
+        if (changes.length) {
+            updates.push({ noteId: note.id, noteTitle: note.title, body: note.body, changes });
+        }
+    }
+
+    return updates;
+}
+
+/**
+ * Writes link updates to the notes. A note edited since its update was computed is re-read and
+ * its links are rewritten from the current body.
+ *
+ * @returns Number of notes updated
+ */
+export async function applyLinkUpdates(
+    updates: NoteLinkUpdate[],
+    noteId: string,
+    renamedAnchors: Map<string, string>
+): Promise<number> {
+    let updated = 0;
+
+    for (const update of updates) {
+        try {
+            const note = await loadNote(update.noteId, ['id', 'body']);
+            const body = note.body ?? '';
+            const changes =
+                body === update.body ? update.changes : computeAnchorLinkChanges(body, renamedAnchors, noteId, false);
+            if (!changes.length) {
+                continue;
+            }
+
+            await joplin.data.put(['notes', update.noteId], null, { body: applyChanges(body, changes) });
+            updated++;
+        } catch (error) {
+            logger.error('Failed to update heading links in note', { noteId: update.noteId, error });
+        }
+    }
+
+    logger.info('Updated links to renamed headings', { notes: updated });
+    return updated;
+}
+
+/**
+ * Edit of a note that renames anchors, as described in the preview.
+ */
+export interface AnchorRenameSummary {
+    /** e.g. `Rename “Setup” to “Installation”` */
+    title: string;
+    /** Label of the button that applies the changes */
+    confirmLabel: string;
+    /** Links in the note itself that the editor updates along with the headings */
+    sameNoteLinkCount: number;
+}
+
+/**
+ * Dialog previewing heading renames and the link changes that come with them.
+ */
+export class HeadingRenameDialog {
+    private handle: string | null = null;
+
+    /**
+     * Shows the preview and resolves with whether the changes should be applied.
+     */
+    async confirm(summary: AnchorRenameSummary, updates: NoteLinkUpdate[]): Promise<boolean> {
+        const handle = await this.ensureDialog();
+        await joplin.views.dialogs.setButtons(handle, [
+            { id: 'ok', title: summary.confirmLabel },
+            { id: 'cancel', title: 'Cancel' },
+        ]);
+        await joplin.views.dialogs.setHtml(handle, this.renderHtml(summary, updates));
+
+        const result = await joplin.views.dialogs.open(handle);
+        return result.id === 'ok';
+    }
+
+    private async ensureDialog(): Promise<string> {
+        if (this.handle) {
+            return this.handle;
+        }
+
+        const handle = await joplin.views.dialogs.create(DIALOG_ID);
+        await joplin.views.dialogs.addScript(handle, './dialogs/headingRename.css');
+
+        this.handle = handle;
+        return handle;
+    }
+
+    private renderLinkChanges(update: NoteLinkUpdate): string[] {
+        return update.changes.map((change) => {
+            const line = update.body.slice(0, change.from).split('\n').length;
+            const anchor = update.body.slice(change.from, change.to);
+            return `
+                <li class="heading-rename-item">
+                    <div class="heading-rename-item-text">#${escapeHtml(anchor)} → #${escapeHtml(change.insert)}</div>
+                    <div class="heading-rename-item-meta">${escapeHtml(`${update.noteTitle} › line ${line}`)}</div>
+                </li>
+            `;
+        });
+    }
+
+    private renderHtml(summary: AnchorRenameSummary, updates: NoteLinkUpdate[]): string {
+        const { sameNoteLinkCount } = summary;
+        const otherLinks = updates.reduce((count, update) => count + update.changes.length, 0);
+        const linkSummary = [
+            sameNoteLinkCount && `${sameNoteLinkCount} ${sameNoteLinkCount === 1 ? 'link' : 'links'} in this note`,
+            otherLinks &&
+                `${otherLinks} ${otherLinks === 1 ? 'link' : 'links'} in ${updates.length} other ${updates.length === 1 ? 'note' : 'notes'}`,
+        ]
+            .filter(Boolean)
+            .join(' and ');
+
+        const items = updates.flatMap((update) => this.renderLinkChanges(update));
+        const hidden = items.length - MAX_PREVIEW_LINKS;
+
+        return `
+            <div class="heading-rename">
+                <p class="heading-rename-title">${escapeHtml(summary.title)}</p>
+                <p class="heading-rename-status">${escapeHtml(linkSummary ? `Updates ${linkSummary}` : 'No links to update')}</p>
+                <ul class="heading-rename-results">
+                    ${items.slice(0, MAX_PREVIEW_LINKS).join('')}
+                </ul>
+                ${hidden > 0 ? `<p class="heading-rename-status">…and ${hidden} more</p>` : ''}
+            </div>
+        `;
+    }
+}
@@ -0,0 +1,109 @@
+import { extractHeadings } from './headingExtractor';
+import {
+    computeAnchorLinkChanges,
+    findBrokenHeadingLinks,
+    findHeadingLinks,
+    getLinePreview,
+    mapRenamedAnchors,
+    suggestClosestHeading,
+} from './headingLinks';
+
+const noteId = '0123456789abcdef0123456789abcdef';
+const otherNoteId = 'fedcba9876543210fedcba9876543210';
+
+describe('findHeadingLinks', () => {
+    it('finds same-note and note links with anchors, ignoring code', () => {
+        const content = [
+            `See [intro](#intro "Title") and ![chart](:/${noteId}#setup).`,
+            '`[code](#inline)`',
+            '```',
+            '[fenced](#fenced)',
+            '```',
+            '[ref]: <#reference>',
+            '[web](https://example.com#section)',
+        ].join('\n');
+
+        const links = findHeadingLinks(content);
+        expect(links.map(({ noteId: id, anchor }) => [id, anchor])).toEqual([
+            [null, 'intro'],
+            [noteId, 'setup'],
+            [null, 'reference'],
+        ]);
+        expect(links.map((link) => content.slice(link.from, link.to))).toEqual(['intro', 'setup', 'reference']);
+    });
+});
+
+describe('getLinePreview', () => {
+    it('returns the trimmed line, shortened to fit a list', () => {
+        const content = `first\n   see [setup](#setup)  \n${'x'.repeat(200)}`;
+        expect(getLinePreview(content, content.indexOf('#setup'))).toBe('see [setup](#setup)');
+        expect(getLinePreview(content, content.length - 1)).toHaveLength(120);
+    });
+});
+
+describe('computeAnchorLinkChanges', () => {
+    const content = `[a](#intro) [b](:/${noteId}#intro) [c](:/${otherNoteId}#intro) [d](#other)`;
+    const renamed = new Map([['intro', '1-intro']]);
+
+    it('rewrites links to the renamed anchors of the note', () => {
+        const changes = computeAnchorLinkChanges(content, renamed, noteId, true);
+        expect(changes.map((change) => content.slice(change.from, change.to))).toEqual(['intro', 'intro']);
+        expect(changes.every((change) => change.insert === '1-intro')).toBe(true);
+    });
+
+    it('only rewrites note links in other notes', () => {
+        expect(computeAnchorLinkChanges(content, renamed, noteId, false)).toHaveLength(1);
+    });
+});
+
+describe('mapRenamedAnchors', () => {
+    it('pairs headings by position', () => {
+        const before = extractHeadings('# Intro\n# Usage\n# Intro');
+        const after = extractHeadings('# 1. Intro\n# Usage\n# 2. Intro');
+
+        expect(mapRenamedAnchors(before, after)).toEqual(
+            new Map([
+                ['intro', '1-intro'],
+                ['intro-2', '2-intro'],
+            ])
+        );
+        expect(mapRenamedAnchors(before, after.slice(1))).toEqual(new Map());
+    });
+});
+
+describe('suggestClosestHeading', () => {
+    const headings = extractHeadings('# 1. Installation\n# Usage\n# Troubleshooting');
+
+    it('suggests the closest anchor, ignoring outline numbers', () => {
+        expect(suggestClosestHeading('instalation', headings)?.text).toBe('1. Installation');
+        expect(suggestClosestHeading('usage-guide', headings)?.text).toBe('Usage');
+    });
+
+    it('returns null when nothing is similar enough', () => {
+        expect(suggestClosestHeading('changelog', headings)).toBeNull();
+    });
+});
+
+describe('findBrokenHeadingLinks', () => {
+    it('reports missing anchors and notes with suggestions', () => {
+        const content = [
+            '# Setup',
+            '[ok](#setup) [typo](#setpu)',
+            `[own](:/${noteId}#setup) [other](:/${otherNoteId}#intro) [gone](:/${'a'.repeat(32)}#intro)`,
+            `[unchecked](:/${'b'.repeat(32)}#page=2)`,
+        ].join('\n');
+        const targets = new Map([
+            [otherNoteId, extractHeadings('# Introduction')],
+            ['a'.repeat(32), null],
+        ]);
+
+        const broken = findBrokenHeadingLinks(content, noteId, targets);
+        expect(
+            broken.map(({ link, line, reason, suggestion }) => [link.anchor, line, reason, suggestion?.text])
+        ).toEqual([
+            ['setpu', 2, 'missingAnchor', 'Setup'],
+            ['intro', 3, 'missingAnchor', 'Introduction'],
+            ['intro', 3, 'missingNote', undefined],
+        ]);
+    });
+});
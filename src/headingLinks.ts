@@ -0,0 +1,202 @@
+/**
+ * Markdown links that point to headings: finding them, checking them and rewriting them when
+ * anchors change.
+ *
+ * Uses the Lezer Markdown parser (like `headingExtractor.ts`), so links inside code are ignored.
+ * Recognizes inline links, images and reference definitions whose target is an anchor in the
+ * same note (`#anchor`) or a Joplin note link with an anchor (`:/noteId#anchor`).
+ *
+ * See:
+ * - outlineNumbering.ts - Renumbering changes heading anchors
+ * - headingLinkCheck.ts - Host-side broken link check across notes
+ * - headingRename.ts - Renaming a heading updates links to it
+ */
+
+import { parser } from '@lezer/markdown';
+import type { HeadingItem } from './types';
+import type { TextChange } from './headingSections';
+import { createHeadingAnchor, extractHeadings } from './headingExtractor';
+
+export interface HeadingLink {
+    /** Linked note id, or null for a same-note `#anchor` link */
+    noteId: string | null;
+    anchor: string;
+    /** Range of the anchor (after `#`) in the document */
+    from: number;
+    to: number;
+}
+
+export type BrokenHeadingLinkReason = 'missingNote' | 'missingAnchor';
+
+export interface BrokenHeadingLink {
+    link: HeadingLink;
+    /** 1-based line of the link */
+    line: number;
+    reason: BrokenHeadingLinkReason;
+    /** Closest existing heading in the target note, if any is similar enough */
+    suggestion: HeadingItem | null;
+}
+
+/**
+ * Headings of linked notes by note id: null when the note doesn't exist. Notes that are missing
+ * from the map (such as resources or HTML notes) aren't checked.
+ */
+export type LinkTargetHeadings = Map<string, HeadingItem[] | null>;
+
+const MAX_LINE_PREVIEW_LENGTH = 120;
+
+// Suggestions must share at least this fraction of the anchor (1 - edit distance / length)
+const MIN_SUGGESTION_SIMILARITY = 0.4;
+
+const LINK_PARENT_NODES = new Set(['Link', 'Image', 'LinkReference']);
+const HEADING_LINK_URL_PATTERN = /^<?(?::\/([0-9a-zA-Z]{32}))?#([^\s>]+)>?$/;
+
+/**
+ * Finds the links to headings in a Markdown document, in document order.
+ */
+export function findHeadingLinks(content: string): HeadingLink[] {
+    const links: HeadingLink[] = [];
+
+    parser.parse(content).iterate({
+        enter(node) {
+            if (node.name !== 'URL' || !LINK_PARENT_NODES.has(node.node.parent?.name ?? '')) {
+                return;
+            }
+
+            const match = HEADING_LINK_URL_PATTERN.exec(content.slice(node.from, node.to));
+            if (!match) {
+                return;
+            }
+
+            const anchor = match[2];
+            const from = node.from + match[0].indexOf('#') + 1;
+            links.push({ noteId: match[1] ?? null, anchor, from, to: from + anchor.length });
+        },
+    });
+
+    return links;
+}
+
+/**
+ * Returns the trimmed line containing a position, shortened for display in link lists.
+ */
+export function getLinePreview(content: string, position: number): string {
+    const start = content.lastIndexOf('\n', position - 1) + 1;
+    const end = content.indexOf('\n', position);
+    const line = content.slice(start, end < 0 ? content.length : end).trim();
+    return line.length > MAX_LINE_PREVIEW_LENGTH ? `${line.slice(0, MAX_LINE_PREVIEW_LENGTH - 1)}…` : line;
+}
+
+/**
+ * Computes the edits that point links at renamed anchors.
+ *
+ * @param content - Markdown document containing the links
+ * @param renamedAnchors - Old anchor → new anchor
+ * @param noteId - Note whose anchors were renamed; `:/noteId#anchor` links to it are rewritten
+ * @param isSameNote - Whether `content` is that note's body, so `#anchor` links are rewritten too
+ */
+export function computeAnchorLinkChanges(
+    content: string,
+    renamedAnchors: Map<string, string>,
+    noteId: string | null,
+    isSameNote: boolean
+): TextChange[] {
+    const changes: TextChange[] = [];
+    for (const link of findHeadingLinks(content)) {
+        const renamed = renamedAnchors.get(link.anchor);
+        const linksToNote = link.noteId === null ? isSameNote : link.noteId === noteId;
+        if (renamed !== undefined && linksToNote) {
+            changes.push({ from: link.from, to: link.to, insert: renamed });
+        }
+    }
+    return changes;
+}
+
+/**
+ * Maps old anchors to new ones after an edit that changed heading text but kept the headings.
+ *
+ * Headings are paired by position, so nothing is returned when headings were added or removed.
+ */
+export function mapRenamedAnchors(before: HeadingItem[], after: HeadingItem[]): Map<string, string> {
+    const renamed = new Map<string, string>();
+    if (before.length !== after.length) {
+        return renamed;
+    }
+
+    before.forEach((heading, index) => {
+        if (heading.anchor !== after[index].anchor) {
+            renamed.set(heading.anchor, after[index].anchor);
+        }
+    });
+    return renamed;
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_value, index) => index);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+/**
+ * Finds the heading whose anchor is closest to a broken anchor, by edit distance. Anchors are
+ * also compared without outline numbers, so links survive renumbered headings.
+ *
+ * @returns The closest heading, or null when none is similar enough
+ */
+export function suggestClosestHeading(anchor: string, headings: HeadingItem[]): HeadingItem | null {
+    let best: HeadingItem | null = null;
+    let bestSimilarity = MIN_SUGGESTION_SIMILARITY;
+
+    for (const heading of headings) {
+        const candidates = [heading.anchor, createHeadingAnchor(heading.text, { ignoreOutlineNumbers: true })];
+        for (const candidate of candidates) {
+            const length = Math.max(anchor.length, candidate.length);
+            const similarity = length ? 1 - editDistance(anchor, candidate) / length : 0;
+            if (similarity > bestSimilarity) {
+                best = heading;
+                bestSimilarity = similarity;
+            }
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Finds links to headings that don't exist, in document order.
+ *
+ * @param content - Markdown document containing the links
+ * @param noteId - Id of the note `content` belongs to; links to it are checked against `content`
+ * @param targets - Headings of the other linked notes
+ */
+export function findBrokenHeadingLinks(
+    content: string,
+    noteId: string,
+    targets: LinkTargetHeadings
+): BrokenHeadingLink[] {
+    const ownHeadings = extractHeadings(content);
+    const broken: BrokenHeadingLink[] = [];
+
+    for (const link of findHeadingLinks(content)) {
+        const headings = link.noteId === null || link.noteId === noteId ? ownHeadings : targets.get(link.noteId);
+        if (headings === undefined || headings?.some((heading) => heading.anchor === link.anchor)) {
+            continue;
+        }
+
+        broken.push({
+            link,
+            line: content.slice(0, link.from).split('\n').length,
+            reason: headings === null ? 'missingNote' : 'missingAnchor',
+            suggestion: headings === null ? null : suggestClosestHeading(link.anchor, headings),
+        });
+    }
+
+    return broken;
+}
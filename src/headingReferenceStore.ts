@@ -0,0 +1,71 @@
+/**
+ * Host-side persistence of per-note heading references.
+ *
+ * Pinned headings are stored as note user data (`joplin.data.userDataSet`), so they belong to
+ * the note, sync with it and are removed with it. Empty lists are deleted rather than stored.
+ *
+ * Recently visited headings change on every jump, so they are kept in a hidden setting on this
+ * device instead of modifying (and syncing) the note. Only the most recently used notes are kept.
+ *
+ * See:
+ * - headingReferences.ts - Validation and resolution of the stored references
+ * - settings.ts - Hidden setting holding the recently visited headings
+ */
+
+import joplin from 'api';
+import { ModelType } from 'api/types';
+import type { HeadingReference } from './types';
+import { normalizeHeadingReferences, setNoteHeadingReferences } from './headingReferences';
+import { loadRecentHeadingsByNote, saveRecentHeadingsByNote } from './settings';
+
+export const PINNED_HEADINGS_KEY = 'pinnedHeadings';
+
+const MAX_RECENT_HEADING_NOTES = 200;
+
+// Saves read-modify-write the whole setting, so they run one at a time
+let recentHeadingsWrite: Promise<void> = Promise.resolve();
+
+export async function loadHeadingReferences(noteId: string, key: string): Promise<HeadingReference[]> {
+    const value = await joplin.data.userDataGet<unknown>(ModelType.Note, noteId, key);
+    return normalizeHeadingReferences(value);
+}
+
+export async function saveHeadingReferences(
+    noteId: string,
+    key: string,
+    references: HeadingReference[]
+): Promise<void> {
+    const normalized = normalizeHeadingReferences(references);
+    if (normalized.length) {
+        await joplin.data.userDataSet(ModelType.Note, noteId, key, normalized);
+    } else {
+        await joplin.data.userDataDelete(ModelType.Note, noteId, key);
+    }
+}
+
+export async function loadRecentHeadings(noteId: string): Promise<HeadingReference[]> {
+    await recentHeadingsWrite;
+    const byNote = await loadRecentHeadingsByNote();
+    return normalizeHeadingReferences(byNote[noteId]);
+}
+
+export function saveRecentHeadings(noteId: string, references: HeadingReference[]): Promise<void> {
+    const write = recentHeadingsWrite.then(async () => {
+        const stored = await loadRecentHeadingsByNote();
+        const byNote: Record<string, HeadingReference[]> = {};
+        for (const [id, value] of Object.entries(stored)) {
+            byNote[id] = normalizeHeadingReferences(value);
+        }
+
+        const updated = setNoteHeadingReferences(
+            byNote,
+            noteId,
+            normalizeHeadingReferences(references),
+            MAX_RECENT_HEADING_NOTES
+        );
+        await saveRecentHeadingsByNote(updated);
+    });
+    // Keep the queue going after a failed write
+    recentHeadingsWrite = write.catch(() => undefined);
+    return write;
+}
@@ -0,0 +1,156 @@
+import { extractHeadings } from './headingExtractor';
+import {
+    normalizeHeadingReferences,
+    recordHeadingVisit,
+    renameHeadingReferences,
+    resolveHeadingReferences,
+    setNoteHeadingReferences,
+    toggleHeadingReference,
+} from './headingReferences';
+
+const headings = extractHeadings('# Runbook\n## Current incident\n## Usage\n## Contacts\n## Usage\n');
+
+describe('normalizeHeadingReferences', () => {
+    it('drops malformed entries and duplicate anchors', () => {
+        expect(
+            normalizeHeadingReferences([
+                { anchor: 'usage', text: 'Usage' },
+                { anchor: 'usage', text: 'Other' },
+                { anchor: '', text: 'Empty' },
+                { text: 'No anchor' },
+                null,
+            ])
+        ).toEqual([{ anchor: 'usage', text: 'Usage' }]);
+        expect(normalizeHeadingReferences('usage')).toEqual([]);
+    });
+});
+
+describe('resolveHeadingReferences', () => {
+    it('resolves references by anchor in reference order', () => {
+        const result = resolveHeadingReferences(
+            [
+                { anchor: 'usage-2', text: 'Usage' },
+                { anchor: 'current-incident', text: 'Current incident' },
+            ],
+            headings
+        );
+
+        expect(result.headings.map((heading) => heading.line)).toEqual([4, 1]);
+        expect(result.changed).toBe(false);
+    });
+
+    it('falls back to the heading text and refreshes the anchor', () => {
+        const edited = extractHeadings('# Runbook\n## Contacts\n## Usage\n');
+        const result = resolveHeadingReferences([{ anchor: 'usage-2', text: 'Usage' }], edited);
+
+        expect(result.headings.map((heading) => heading.anchor)).toEqual(['usage']);
+        expect(result.references).toEqual([{ anchor: 'usage', text: 'Usage' }]);
+        expect(result.changed).toBe(true);
+    });
+
+    it('falls back to the heading text without its outline number', () => {
+        const renumbered = extractHeadings('# Runbook\n## 1. Contacts\n## 2. Usage\n');
+        const result = resolveHeadingReferences([{ anchor: '1-usage', text: '1. Usage' }], renumbered);
+
+        expect(result.references).toEqual([{ anchor: '2-usage', text: '2. Usage' }]);
+    });
+
+    it('keeps references that do not resolve', () => {
+        const references = [{ anchor: 'gone', text: 'Gone' }];
+        const result = resolveHeadingReferences(references, headings);
+
+        expect(result.headings).toEqual([]);
+        expect(result.references).toEqual(references);
+    });
+
+    it('does not resolve two references to the same heading', () => {
+        const edited = extractHeadings('# Usage\n');
+        const result = resolveHeadingReferences(
+            [
+                { anchor: 'usage-2', text: 'Usage' },
+                { anchor: 'usage', text: 'Usage' },
+            ],
+            edited
+        );
+
+        expect(result.headings).toHaveLength(1);
+        expect(result.references).toEqual([
+            { anchor: 'usage-2', text: 'Usage' },
+            { anchor: 'usage', text: 'Usage' },
+        ]);
+    });
+});
+
+describe('toggleHeadingReference', () => {
+    it('adds and removes references', () => {
+        const pinned = toggleHeadingReference([], headings, headings[3]);
+        expect(pinned).toEqual([{ anchor: 'contacts', text: 'Contacts' }]);
+        expect(toggleHeadingReference(pinned, headings, headings[3])).toEqual([]);
+    });
+
+    it('removes references that resolved by text', () => {
+        const edited = extractHeadings('# Usage\n');
+        expect(toggleHeadingReference([{ anchor: 'usage-2', text: 'Usage' }], edited, edited[0])).toEqual([]);
+    });
+});
+
+describe('recordHeadingVisit', () => {
+    it('moves the visited heading to the front and trims to the limit', () => {
+        const references = [
+            { anchor: 'usage', text: 'Usage' },
+            { anchor: 'contacts', text: 'Contacts' },
+            { anchor: 'runbook', text: 'Runbook' },
+        ];
+
+        expect(recordHeadingVisit(references, headings, headings[3], 3)).toEqual([
+            { anchor: 'contacts', text: 'Contacts' },
+            { anchor: 'usage', text: 'Usage' },
+            { anchor: 'runbook', text: 'Runbook' },
+        ]);
+        expect(recordHeadingVisit(references, headings, headings[1], 2)).toEqual([
+            { anchor: 'current-incident', text: 'Current incident' },
+            { anchor: 'usage', text: 'Usage' },
+        ]);
+    });
+});
+
+describe('renameHeadingReferences', () => {
+    it('follows renamed anchors', () => {
+        const renamed = extractHeadings('# Runbook\n## Current incident\n## Setup\n## Contacts\n## Usage\n');
+        const references = [
+            { anchor: 'usage', text: 'Usage' },
+            { anchor: 'usage-2', text: 'Usage' },
+            { anchor: 'contacts', text: 'Contacts' },
+        ];
+
+        expect(
+            renameHeadingReferences(
+                references,
+                new Map([
+                    ['usage', 'setup'],
+                    ['usage-2', 'usage'],
+                ]),
+                renamed
+            )
+        ).toEqual([
+            { anchor: 'setup', text: 'Setup' },
+            { anchor: 'usage', text: 'Usage' },
+            { anchor: 'contacts', text: 'Contacts' },
+        ]);
+    });
+});
+
+describe('setNoteHeadingReferences', () => {
+    const reference = { anchor: 'usage', text: 'Usage' };
+
+    it('moves the updated note last and drops the oldest notes', () => {
+        const updated = setNoteHeadingReferences({ a: [reference], b: [reference] }, 'a', [reference], 2);
+        expect(Object.keys(updated)).toEqual(['b', 'a']);
+
+        expect(Object.keys(setNoteHeadingReferences(updated, 'c', [reference], 2))).toEqual(['a', 'c']);
+    });
+
+    it('removes notes without references', () => {
+        expect(setNoteHeadingReferences({ a: [reference] }, 'a', [], 2)).toEqual({});
+    });
+});
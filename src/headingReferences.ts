@@ -0,0 +1,163 @@
+/**
+ * Resolution and editing of stored heading references (pinned and recently visited headings).
+ *
+ * References are stored per note as `{ anchor, text }` pairs and resolved against the note's
+ * current headings: by anchor first, then by heading text, then by heading text ignoring outline
+ * numbers (so references survive renumbering). References that don't resolve are
+ * kept, since the heading may only be mid-edit, and resolved references are refreshed with the
+ * heading's current anchor and text.
+ *
+ * See:
+ * - headingReferenceStore.ts - Host-side persistence
+ * - contentScripts/ui/headingPanel.ts - Shows pinned and recent headings in groups above the tree
+ */
+
+import type { HeadingItem, HeadingReference } from './types';
+import { createHeadingAnchor } from './headingExtractor';
+
+export interface ResolvedHeadingReferences {
+    /** Resolved headings in reference order, without duplicates */
+    headings: HeadingItem[];
+    /** References refreshed with the current anchor and text of their headings */
+    references: HeadingReference[];
+    /** Whether any reference was refreshed */
+    changed: boolean;
+}
+
+export function toHeadingReference(heading: HeadingItem): HeadingReference {
+    return { anchor: heading.anchor, text: heading.text };
+}
+
+/**
+ * Validates stored references, dropping malformed entries and duplicate anchors.
+ */
+export function normalizeHeadingReferences(raw: unknown): HeadingReference[] {
+    if (!Array.isArray(raw)) {
+        return [];
+    }
+
+    const seen = new Set<string>();
+    const references: HeadingReference[] = [];
+    for (const entry of raw) {
+        const anchor = entry?.anchor;
+        const text = entry?.text;
+        if (typeof anchor !== 'string' || !anchor || typeof text !== 'string' || seen.has(anchor)) {
+            continue;
+        }
+        seen.add(anchor);
+        references.push({ anchor, text });
+    }
+    return references;
+}
+
+export function resolveHeadingReferences(
+    references: HeadingReference[],
+    headings: HeadingItem[]
+): ResolvedHeadingReferences {
+    const used = new Set<string>();
+    let changed = false;
+
+    // Anchor matches are assigned first so a text fallback can't claim another reference's heading
+    const matches: (HeadingItem | undefined)[] = references.map((reference) => {
+        const heading = headings.find((item) => item.anchor === reference.anchor && !used.has(item.id));
+        if (heading) {
+            used.add(heading.id);
+        }
+        return heading;
+    });
+
+    const findUnused = (predicate: (heading: HeadingItem) => boolean): HeadingItem | undefined =>
+        headings.find((item) => !used.has(item.id) && predicate(item));
+    const numberless = (text: string): string => createHeadingAnchor(text, { ignoreOutlineNumbers: true });
+
+    const refreshed = references.map((reference, index) => {
+        let heading = matches[index];
+        if (!heading) {
+            const referenceKey = numberless(reference.text);
+            heading =
+                findUnused((item) => item.text === reference.text) ??
+                (referenceKey ? findUnused((item) => numberless(item.text) === referenceKey) : undefined);
+            if (!heading) {
+                return reference;
+            }
+            used.add(heading.id);
+            matches[index] = heading;
+        }
+
+        if (heading.anchor === reference.anchor && heading.text === reference.text) {
+            return reference;
+        }
+        changed = true;
+        return toHeadingReference(heading);
+    });
+
+    const resolved = matches.filter((heading): heading is HeadingItem => Boolean(heading));
+    return { headings: resolved, references: refreshed, changed };
+}
+
+/**
+ * Adds a reference to `heading`, or removes the reference that resolves to it.
+ */
+export function toggleHeadingReference(
+    references: HeadingReference[],
+    headings: HeadingItem[],
+    heading: HeadingItem
+): HeadingReference[] {
+    const { references: refreshed } = resolveHeadingReferences(references, headings);
+    const index = refreshed.findIndex((reference) => reference.anchor === heading.anchor);
+    if (index >= 0) {
+        return refreshed.filter((_reference, position) => position !== index);
+    }
+    return [...refreshed, toHeadingReference(heading)];
+}
+
+/**
+ * Moves `heading` to the front of a most-recently-visited list, keeping at most `limit` entries.
+ */
+export function recordHeadingVisit(
+    references: HeadingReference[],
+    headings: HeadingItem[],
+    heading: HeadingItem,
+    limit: number
+): HeadingReference[] {
+    const { references: refreshed } = resolveHeadingReferences(references, headings);
+    const others = refreshed.filter((reference) => reference.anchor !== heading.anchor);
+    return [toHeadingReference(heading), ...others].slice(0, Math.max(0, limit));
+}
+
+/**
+ * Points references at renamed headings, so pins and recent headings follow a rename.
+ *
+ * @param renamedAnchors - Old anchor → new anchor
+ * @param headings - Headings after the rename
+ */
+export function renameHeadingReferences(
+    references: HeadingReference[],
+    renamedAnchors: Map<string, string>,
+    headings: HeadingItem[]
+): HeadingReference[] {
+    return references.map((reference) => {
+        const anchor = renamedAnchors.get(reference.anchor);
+        const heading = anchor === undefined ? undefined : headings.find((item) => item.anchor === anchor);
+        return heading ? toHeadingReference(heading) : reference;
+    });
+}
+
+/**
+ * Replaces one note's references in a map of references by note id.
+ *
+ * The note is moved to the end of the map (insertion order is usage order), notes without
+ * references are removed, and the least recently updated notes are dropped beyond `maxNotes`.
+ */
+export function setNoteHeadingReferences(
+    referencesByNote: Record<string, HeadingReference[]>,
+    noteId: string,
+    references: HeadingReference[],
+    maxNotes: number
+): Record<string, HeadingReference[]> {
+    const entries = Object.entries(referencesByNote).filter(([id]) => id !== noteId);
+    if (references.length) {
+        entries.push([noteId, references]);
+    }
+    return Object.fromEntries(entries.slice(Math.max(0, entries.length - maxNotes)));
+}
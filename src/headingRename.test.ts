@@ -0,0 +1,60 @@
+import { extractHeadings } from './headingExtractor';
+import { computeHeadingRename, findHeadingTextRange } from './headingRename';
+
+const noteId = '0123456789abcdef0123456789abcdef';
+
+function rename(content: string, index: number, newText: string): string | null {
+    const headings = extractHeadings(content);
+    const result = computeHeadingRename(content, headings, headings[index].id, newText, noteId);
+    if (!result) {
+        return null;
+    }
+    return [...result.changes]
+        .reverse()
+        .reduce((text, change) => text.slice(0, change.from) + change.insert + text.slice(change.to), content);
+}
+
+describe('findHeadingTextRange', () => {
+    it.each([
+        ['## Setup ##', 'Setup'],
+        ['# C#', 'C#'],
+        ['###   **Bold** text  ', '**Bold** text'],
+        ['Setext\n===', 'Setext'],
+    ])('finds the text of %j', (content, expected) => {
+        const [heading] = extractHeadings(content);
+        const range = findHeadingTextRange(content, heading);
+        expect(content.slice(range.from, range.to)).toBe(expected);
+    });
+});
+
+describe('computeHeadingRename', () => {
+    it('renames the heading and updates same-note links', () => {
+        const content = `# Setup\n\nSee [setup](#setup) and [self](:/${noteId}#setup).\n\n## Setup ##`;
+        expect(rename(content, 0, 'Install')).toBe(
+            `# Install\n\nSee [setup](#install) and [self](:/${noteId}#install).\n\n## Setup ##`
+        );
+    });
+
+    it('follows duplicate anchors that shift', () => {
+        const content = '# Usage\n# Usage\n[second](#usage-2)';
+        const headings = extractHeadings(content);
+        const result = computeHeadingRename(content, headings, headings[0].id, 'Intro', null);
+
+        expect(result?.renamedAnchors).toEqual(
+            new Map([
+                ['usage', 'intro'],
+                ['usage-2', 'usage'],
+            ])
+        );
+        expect(rename(content, 0, 'Intro')).toBe('# Intro\n# Usage\n[second](#usage)');
+    });
+
+    it('renames Setext headings in place', () => {
+        expect(rename('Old title\n=========\n[x](#old-title)', 0, 'New')).toBe('New\n=========\n[x](#new)');
+    });
+
+    it('returns null for empty or unchanged text', () => {
+        expect(rename('# Setup', 0, '  ')).toBeNull();
+        expect(rename('# Setup', 0, 'Setup')).toBeNull();
+    });
+});
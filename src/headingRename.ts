@@ -0,0 +1,102 @@
+/**
+ * Renaming a heading together with the links in the note that point to it.
+ *
+ * The new anchors are taken from re-extracting the renamed document, so they are deduplicated
+ * exactly like the extractor does (a heading renamed to an existing title becomes `title-2`) and
+ * other headings whose duplicate suffix shifts are picked up as well.
+ *
+ * See:
+ * - headingLinks.ts - Link rewriting shared with outline numbering
+ * - headingLinkUpdates.ts - Host-side update of links in other notes
+ */
+
+import type { HeadingItem } from './types';
+import type { TextChange } from './headingSections';
+import { extractHeadings } from './headingExtractor';
+import { computeAnchorLinkChanges, mapRenamedAnchors } from './headingLinks';
+
+export interface HeadingRename {
+    /** Heading text change and same-note link changes, in document order */
+    changes: TextChange[];
+    /** Old anchor → new anchor, for every heading whose anchor changed */
+    renamedAnchors: Map<string, string>;
+}
+
+const ATX_CLOSING_SEQUENCE_PATTERN = /[ \t]+#+[ \t]*$/;
+
+/**
+ * Finds the heading text as written in the source, without ATX markers or the Setext underline.
+ *
+ * @returns Document range of the text (empty at the marker end for an empty heading)
+ */
+export function findHeadingTextRange(content: string, heading: HeadingItem): { from: number; to: number } {
+    const source = content.slice(heading.from, heading.to);
+
+    if (source.includes('\n')) {
+        // Setext: the text lines above the underline (continuation lines are replaced too)
+        const textEnd = source.lastIndexOf('\n');
+        const text = source.slice(0, textEnd);
+        return { from: heading.from, to: heading.from + text.trimEnd().length };
+    }
+
+    let start = 0;
+    while (source[start] === '#') {
+        start++;
+    }
+    while (source[start] === ' ' || source[start] === '\t') {
+        start++;
+    }
+
+    const text = source.slice(start);
+    const withoutClosing = text.replace(ATX_CLOSING_SEQUENCE_PATTERN, '');
+    return { from: heading.from + start, to: heading.from + start + withoutClosing.trimEnd().length };
+}
+
+/**
+ * Computes the edit that renames a heading and the edits that point same-note links at the
+ * anchors that change with it.
+ *
+ * @param content - Markdown document the headings were extracted from
+ * @param headings - Headings in document order
+ * @param headingId - Heading to rename
+ * @param newText - New heading text (Markdown, single line)
+ * @param noteId - Id of the note, so `:/noteId#anchor` self-links are updated too
+ * @returns null when the heading is unknown, the text is empty or unchanged, or the new text
+ *   would no longer be parsed as the same heading
+ */
+export function computeHeadingRename(
+    content: string,
+    headings: HeadingItem[],
+    headingId: string,
+    newText: string,
+    noteId: string | null
+): HeadingRename | null {
+    const heading = headings.find((item) => item.id === headingId);
+    const text = newText.replace(/\s+/g, ' ').trim();
+    if (!heading || !text) {
+        return null;
+    }
+
+    const range = findHeadingTextRange(content, heading);
+    if (content.slice(range.from, range.to) === text) {
+        return null;
+    }
+
+    const headingChange: TextChange = { from: range.from, to: range.to, insert: text };
+    const renamed = content.slice(0, range.from) + text + content.slice(range.to);
+    const renamedHeadings = extractHeadings(renamed);
+    if (renamedHeadings.length !== headings.length) {
+        return null;
+    }
+
+    const renamedAnchors = mapRenamedAnchors(headings, renamedHeadings);
+    // Links inside the heading text itself are replaced along with it
+    const linkChanges = computeAnchorLinkChanges(content, renamedAnchors, noteId, true).filter(
+        (change) => change.to <= heading.from || change.from >= heading.to
+    );
+
+    return {
+        changes: [headingChange, ...linkChanges].sort((a, b) => a.from - b.from),
+        renamedAnchors,
+    };
+}
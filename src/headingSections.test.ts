@@ -0,0 +1,227 @@
+import { extractHeadings } from './headingExtractor';
+import {
+    computeHeadingLevelChange,
+    computeSectionMove,
+    findActiveHeadingId,
+    findHeadingJumpTarget,
+    findSectionHeading,
+    getSectionRange,
+    getSectionText,
+    type TextChange,
+} from './headingSections';
+
+function applyChange(content: string, change: TextChange): string {
+    return content.slice(0, change.from) + change.insert + content.slice(change.to);
+}
+
+const content = [
+    '# Guide',
+    'intro',
+    '## Install',
+    'install body',
+    '### Linux',
+    'linux body',
+    '## Usage',
+    'usage body',
+    '## FAQ',
+    'faq body',
+].join('\n');
+
+describe('findSectionHeading', () => {
+    it('returns the heading whose section contains the position', () => {
+        const headings = extractHeadings(content);
+        expect(findSectionHeading(headings, content.indexOf('linux body'))?.text).toBe('Linux');
+        expect(findSectionHeading(headings, headings[2].from)?.text).toBe('Linux');
+    });
+
+    it('returns null before the first heading, where the active heading falls back to the first one', () => {
+        const preamble = `intro\n${content}`;
+        const headings = extractHeadings(preamble);
+        expect(findSectionHeading(headings, 0)).toBeNull();
+        expect(findActiveHeadingId(headings, 0)).toBe(headings[0].id);
+        expect(findActiveHeadingId([], 0)).toBeNull();
+    });
+});
+
+describe('findHeadingJumpTarget', () => {
+    const headings = extractHeadings(content);
+    const jump = (position: number, target: Parameters<typeof findHeadingJumpTarget>[2]) =>
+        findHeadingJumpTarget(headings, position, target)?.text ?? null;
+
+    it('steps to the next and previous heading in document order', () => {
+        expect(jump(content.indexOf('install body'), 'next')).toBe('Linux');
+        expect(jump(headings[1].from, 'next')).toBe('Linux');
+        expect(jump(content.indexOf('install body'), 'previous')).toBe('Install');
+        expect(jump(headings[1].from + 3, 'previous')).toBe('Guide');
+        expect(jump(content.indexOf('faq body'), 'next')).toBeNull();
+        expect(jump(0, 'previous')).toBeNull();
+    });
+
+    it('moves between headings of the same level', () => {
+        expect(jump(content.indexOf('linux body'), 'nextSameLevel')).toBeNull();
+        expect(jump(content.indexOf('install body'), 'nextSameLevel')).toBe('Usage');
+        expect(jump(content.indexOf('faq body'), 'previousSameLevel')).toBe('Usage');
+        expect(jump(content.indexOf('install body'), 'previousSameLevel')).toBeNull();
+    });
+
+    it('jumps to the parent and first child of the current section', () => {
+        expect(jump(content.indexOf('linux body'), 'parent')).toBe('Install');
+        expect(jump(content.indexOf('intro'), 'parent')).toBeNull();
+        expect(jump(content.indexOf('intro'), 'firstChild')).toBe('Install');
+        expect(jump(content.indexOf('usage body'), 'firstChild')).toBeNull();
+    });
+
+    it('finds nothing relative to the preamble', () => {
+        const preamble = `intro\n${content}`;
+        expect(findHeadingJumpTarget(extractHeadings(preamble), 0, 'parent')).toBeNull();
+        expect(findHeadingJumpTarget(extractHeadings(preamble), 0, 'next')?.text).toBe('Guide');
+    });
+});
+
+describe('getSectionRange', () => {
+    it('spans the heading and its subtree up to the next heading of the same or higher level', () => {
+        const headings = extractHeadings(content);
+        const install = getSectionRange(content, headings, 1);
+        expect(content.slice(install.from, install.to)).toBe('## Install\ninstall body\n### Linux\nlinux body\n');
+    });
+
+    it('extends the last section to the end of the document', () => {
+        const headings = extractHeadings(content);
+        const guide = getSectionRange(content, headings, 0);
+        expect(guide).toEqual({ from: 0, to: content.length });
+    });
+
+    it('starts at the beginning of the line for headings nested in containers', () => {
+        const nested = 'text\n> ## Quoted\n> body\n';
+        const headings = extractHeadings(nested);
+        expect(getSectionRange(nested, headings, 0)).toEqual({ from: 5, to: nested.length });
+    });
+});
+
+describe('getSectionText', () => {
+    it('returns the section without trailing blank lines', () => {
+        const spaced = '# A\n\nbody\n\n\n# B\n';
+        expect(getSectionText(spaced, extractHeadings(spaced), 0)).toBe('# A\n\nbody');
+    });
+
+    it('rebases heading levels so the section heading becomes H1', () => {
+        const headings = extractHeadings(content);
+        expect(getSectionText(content, headings, 1, true)).toBe('# Install\ninstall body\n## Linux\nlinux body');
+        expect(getSectionText(content, headings, 0, true)).toBe(getSectionText(content, headings, 0));
+    });
+
+    it('rebases Setext headings', () => {
+        const setext = '# Top\nIntro\n---\ntext\n### Deep\n';
+        expect(getSectionText(setext, extractHeadings(setext), 1, true)).toBe('Intro\n===\ntext\n## Deep');
+    });
+});
+
+describe('computeSectionMove', () => {
+    it('moves a section with its subtree below the next sibling', () => {
+        const headings = extractHeadings(content);
+        const move = computeSectionMove(content, headings, headings[1].id, 'down')!;
+        const result = applyChange(content, move.change);
+
+        expect(result).toBe(
+            [
+                '# Guide',
+                'intro',
+                '## Usage',
+                'usage body',
+                '## Install',
+                'install body',
+                '### Linux',
+                'linux body',
+                '## FAQ',
+                'faq body',
+            ].join('\n')
+        );
+        expect(result.slice(move.headingFrom).startsWith('## Install')).toBe(true);
+    });
+
+    it('moves a section above the previous sibling', () => {
+        const headings = extractHeadings(content);
+        const move = computeSectionMove(content, headings, headings[3].id, 'up')!;
+        const result = applyChange(content, move.change);
+
+        expect(result.split('\n').slice(2, 4)).toEqual(['## Usage', 'usage body']);
+        expect(result.slice(move.headingFrom).startsWith('## Usage')).toBe(true);
+    });
+
+    it('keeps line breaks intact when swapping with the final section', () => {
+        const headings = extractHeadings(content);
+        const move = computeSectionMove(content, headings, headings[4].id, 'up')!;
+        const result = applyChange(content, move.change);
+
+        expect(result.split('\n').slice(6)).toEqual(['## FAQ', 'faq body', '## Usage', 'usage body']);
+        expect(result.slice(move.headingFrom).startsWith('## FAQ')).toBe(true);
+    });
+
+    it('returns null when there is no sibling in that direction', () => {
+        const headings = extractHeadings(content);
+        expect(computeSectionMove(content, headings, headings[1].id, 'up')).toBeNull();
+        expect(computeSectionMove(content, headings, headings[2].id, 'down')).toBeNull();
+        expect(computeSectionMove(content, headings, 'missing', 'down')).toBeNull();
+    });
+});
+
+describe('computeHeadingLevelChange', () => {
+    function applyChanges(source: string, changes: TextChange[]): string {
+        return [...changes].reverse().reduce((result, change) => applyChange(result, change), source);
+    }
+
+    it('demotes a heading together with its subtree', () => {
+        const headings = extractHeadings(content);
+        const changes = computeHeadingLevelChange(content, headings, headings[1].id, 1, true)!;
+        const result = applyChanges(content, changes);
+
+        expect(result.split('\n').filter((line) => line.startsWith('#'))).toEqual([
+            '# Guide',
+            '### Install',
+            '#### Linux',
+            '## Usage',
+            '## FAQ',
+        ]);
+    });
+
+    it('changes only the heading itself when subheadings are excluded', () => {
+        const headings = extractHeadings(content);
+        const changes = computeHeadingLevelChange(content, headings, headings[1].id, -1, false)!;
+        expect(changes).toEqual([{ from: headings[1].from, to: headings[1].from + 2, insert: '#' }]);
+    });
+
+    it('refuses to promote above H1 or demote below H6', () => {
+        const headings = extractHeadings(content);
+        expect(computeHeadingLevelChange(content, headings, headings[0].id, -1, false)).toBeNull();
+
+        const deep = extractHeadings('##### Five\n###### Six');
+        expect(computeHeadingLevelChange('##### Five\n###### Six', deep, deep[0].id, 1, false)).not.toBeNull();
+        expect(computeHeadingLevelChange('##### Five\n###### Six', deep, deep[0].id, 1, true)).toBeNull();
+    });
+
+    it('switches Setext underline style between levels 1 and 2', () => {
+        const setext = 'Title\n=====\n\nSub\n---\n';
+        const headings = extractHeadings(setext);
+
+        const demoted = applyChanges(setext, computeHeadingLevelChange(setext, headings, headings[0].id, 1, false)!);
+        expect(demoted).toBe('Title\n-----\n\nSub\n---\n');
+
+        const promoted = applyChanges(setext, computeHeadingLevelChange(setext, headings, headings[1].id, -1, false)!);
+        expect(promoted).toBe('Title\n=====\n\nSub\n===\n');
+    });
+
+    it('converts Setext headings to ATX beyond level 2', () => {
+        const setext = 'Multi\nline title\n----------\nbody\n';
+        const headings = extractHeadings(setext);
+        const result = applyChanges(setext, computeHeadingLevelChange(setext, headings, headings[0].id, 1, false)!);
+        expect(result).toBe('### Multi line title\nbody\n');
+        expect(extractHeadings(result)[0]).toMatchObject({ text: 'Multi line title', level: 3 });
+    });
+
+    it('keeps blockquote prefixes intact', () => {
+        const quoted = '> Title\n> continued\n> ---\n';
+        const headings = extractHeadings(quoted);
+        const result = applyChanges(quoted, computeHeadingLevelChange(quoted, headings, headings[0].id, 1, false)!);
+        expect(result).toBe('> ### Title continued\n');
+    });
+});
@@ -0,0 +1,346 @@
+/**
+ * Section lookup, range computation and section-level document edits.
+ *
+ * A heading's section starts at the beginning of the heading's line and extends up to (not
+ * including) the line of the next heading with the same or a higher level, or to the end of the
+ * document. It therefore includes the heading's whole subtree.
+ *
+ * Edits are returned as plain `{ from, to, insert }` changes so callers can dispatch them as a
+ * single CodeMirror transaction (one undo step). Multiple changes are non-overlapping, sorted,
+ * and expressed in the coordinates of the original document.
+ */
+
+import type { HeadingItem } from './types';
+import { buildHeadingTree } from './headingTree';
+
+export type SectionMoveDirection = 'up' | 'down';
+
+/** -1 promotes (e.g. H3 → H2), 1 demotes (e.g. H2 → H3) */
+export type HeadingLevelDelta = -1 | 1;
+
+export const MIN_HEADING_LEVEL = 1;
+export const MAX_HEADING_LEVEL = 6;
+
+// Container prefixes (indentation, blockquote markers) before the text of a continuation line
+const CONTAINER_PREFIX_PATTERN = /^\s*(?:>\s?)*\s*/;
+
+export interface SectionRange {
+    from: number;
+    to: number;
+}
+
+export interface TextChange {
+    from: number;
+    to: number;
+    insert: string;
+}
+
+export interface SectionMove {
+    change: TextChange;
+    /** Offset of the moved heading (`HeadingItem.from`) after applying the change */
+    headingFrom: number;
+}
+
+function lineStartAt(content: string, position: number): number {
+    return content.lastIndexOf('\n', position - 1) + 1;
+}
+
+/**
+ * Returns the range of the section introduced by `headings[index]`, including its subtree.
+ *
+ * @param content - Markdown document the headings were extracted from
+ * @param headings - Headings in document order
+ * @param index - Index of the section's heading in `headings`
+ */
+export function getSectionRange(content: string, headings: HeadingItem[], index: number): SectionRange {
+    const heading = headings[index];
+    let to = content.length;
+
+    for (let next = index + 1; next < headings.length; next++) {
+        if (headings[next].level <= heading.level) {
+            to = lineStartAt(content, headings[next].from);
+            break;
+        }
+    }
+
+    return { from: lineStartAt(content, heading.from), to };
+}
+
+/**
+ * Returns the Markdown of the section introduced by `headings[index]` (heading line through the
+ * end of its subtree), without trailing blank lines.
+ *
+ * @param content - Markdown document the headings were extracted from
+ * @param headings - Headings in document order
+ * @param index - Index of the section's heading in `headings`
+ * @param rebaseLevels - Shift the section's headings so its own heading becomes H1, keeping the
+ *   subheadings' relative levels
+ */
+export function getSectionText(content: string, headings: HeadingItem[], index: number, rebaseLevels = false): string {
+    const section = getSectionRange(content, headings, index);
+    const delta = MIN_HEADING_LEVEL - headings[index].level;
+    let text = content.slice(section.from, section.to);
+
+    if (rebaseLevels && delta !== 0) {
+        const changes: TextChange[] = [];
+        for (let next = index; next < headings.length && headings[next].from < section.to; next++) {
+            changes.push(createLevelChange(content, headings[next], headings[next].level + delta));
+        }
+
+        // Applied back to front so earlier offsets stay valid
+        for (const change of changes.reverse()) {
+            text = text.slice(0, change.from - section.from) + change.insert + text.slice(change.to - section.from);
+        }
+    }
+
+    return text.replace(/\s+$/, '');
+}
+
+/**
+ * Returns the id of the heading to highlight for the cursor at `position`: the heading whose
+ * section contains it, falling back to the first heading in the preamble before any heading.
+ */
+export function findActiveHeadingId(headings: HeadingItem[], position: number): string | null {
+    if (!headings.length) {
+        return null;
+    }
+
+    return findSectionHeading(headings, position)?.id ?? headings[0].id;
+}
+
+/**
+ * Returns the heading whose section contains `position`, or null if it precedes every heading.
+ *
+ * Unlike `findActiveHeadingId`, there is no fallback to the first heading: commands acting on
+ * "the current section" should do nothing in the preamble before the first heading.
+ */
+export function findSectionHeading(headings: HeadingItem[], position: number): HeadingItem | null {
+    let candidate: HeadingItem | null = null;
+    for (const heading of headings) {
+        if (heading.from > position) {
+            break;
+        }
+        candidate = heading;
+    }
+
+    return candidate;
+}
+
+/**
+ * Heading to move the cursor to with the jump commands.
+ */
+export type HeadingJump = 'next' | 'previous' | 'nextSameLevel' | 'previousSameLevel' | 'parent' | 'firstChild';
+
+export const HEADING_JUMPS: readonly HeadingJump[] = [
+    'next',
+    'previous',
+    'nextSameLevel',
+    'previousSameLevel',
+    'parent',
+    'firstChild',
+];
+
+/**
+ * Finds the heading to jump to from the cursor at `position`.
+ *
+ * `next` and `previous` step through headings in document order; from inside a section's body,
+ * `previous` returns that section's own heading. The other jumps are relative to the section
+ * containing the cursor, so they find nothing in the preamble before the first heading.
+ *
+ * @returns The target heading, or null when there is none in that direction
+ */
+export function findHeadingJumpTarget(
+    headings: HeadingItem[],
+    position: number,
+    jump: HeadingJump
+): HeadingItem | null {
+    if (jump === 'next') {
+        return headings.find((heading) => heading.from > position) ?? null;
+    }
+
+    if (jump === 'previous') {
+        // Headings containing the cursor are skipped so repeated jumps keep moving up
+        return headings.filter((heading) => heading.to < position).pop() ?? null;
+    }
+
+    const current = findSectionHeading(headings, position);
+    if (!current) {
+        return null;
+    }
+
+    const index = headings.indexOf(current);
+    switch (jump) {
+        case 'nextSameLevel':
+            return headings.slice(index + 1).find((heading) => heading.level === current.level) ?? null;
+        case 'previousSameLevel':
+            return (
+                headings
+                    .slice(0, index)
+                    .filter((heading) => heading.level === current.level)
+                    .pop() ?? null
+            );
+        case 'parent': {
+            const parentId = buildHeadingTree(headings).get(current.id)?.parentId;
+            return headings.find((heading) => heading.id === parentId) ?? null;
+        }
+        case 'firstChild': {
+            const childId = buildHeadingTree(headings).get(current.id)?.childIds[0];
+            return headings.find((heading) => heading.id === childId) ?? null;
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Swaps two adjacent blocks of text, keeping line boundaries intact.
+ *
+ * The later block may be the end of the document without a trailing newline; in that case the
+ * newline is moved so both blocks still start on their own lines.
+ *
+ * @returns The swapped blocks: `second` (now leading) and `first` (now trailing)
+ */
+function swapAdjacentBlocks(first: string, second: string): [string, string] {
+    if (second.endsWith('\n') || !first.endsWith('\n')) {
+        return [second, first];
+    }
+
+    return [`${second}\n`, first.slice(0, -1)];
+}
+
+/**
+ * Computes the edit that moves a section (with its subtree) past its previous or next sibling.
+ *
+ * Siblings are headings sharing the same parent in the heading hierarchy, so a section never
+ * moves out of its parent section.
+ *
+ * @param content - Markdown document the headings were extracted from
+ * @param headings - Headings in document order
+ * @param headingId - Heading whose section should move
+ * @param direction - Whether to move before the previous sibling or after the next one
+ * @returns The change and the moved heading's new offset, or null when there is no sibling
+ */
+export function computeSectionMove(
+    content: string,
+    headings: HeadingItem[],
+    headingId: string,
+    direction: SectionMoveDirection
+): SectionMove | null {
+    const index = headings.findIndex((heading) => heading.id === headingId);
+    if (index < 0) {
+        return null;
+    }
+
+    const tree = buildHeadingTree(headings);
+    const node = tree.get(headingId)!;
+    const siblingIds = node.parentId
+        ? tree.get(node.parentId)!.childIds
+        : [...tree.values()].filter((candidate) => candidate.parentId === null).map((root) => root.heading.id);
+
+    const siblingPosition = siblingIds.indexOf(headingId);
+    const siblingId = siblingIds[direction === 'up' ? siblingPosition - 1 : siblingPosition + 1];
+    if (!siblingId) {
+        return null;
+    }
+
+    const siblingIndex = headings.findIndex((heading) => heading.id === siblingId);
+    const [firstIndex, secondIndex] = direction === 'up' ? [siblingIndex, index] : [index, siblingIndex];
+    const firstRange = getSectionRange(content, headings, firstIndex);
+    const secondRange = getSectionRange(content, headings, secondIndex);
+
+    const first = content.slice(firstRange.from, firstRange.to);
+    const second = content.slice(secondRange.from, secondRange.to);
+    const [leading, trailing] = swapAdjacentBlocks(first, second);
+
+    const heading = headings[index];
+    const headingOffsetInSection = heading.from - lineStartAt(content, heading.from);
+    const movedSectionStart = direction === 'up' ? firstRange.from : firstRange.from + leading.length;
+
+    return {
+        change: { from: firstRange.from, to: secondRange.to, insert: leading + trailing },
+        headingFrom: movedSectionStart + headingOffsetInSection,
+    };
+}
+
+function isSetextHeading(content: string, heading: HeadingItem): boolean {
+    // Setext headings always span the text line(s) plus the underline; ATX headings are one line
+    return content.slice(heading.from, heading.to).includes('\n');
+}
+
+function createLevelChange(content: string, heading: HeadingItem, level: number): TextChange {
+    if (!isSetextHeading(content, heading)) {
+        let markerEnd = heading.from;
+        while (content[markerEnd] === '#') {
+            markerEnd++;
+        }
+        return { from: heading.from, to: markerEnd, insert: '#'.repeat(level) };
+    }
+
+    const underlineStart = lineStartAt(content, heading.to);
+
+    if (level <= 2) {
+        let markerStart = underlineStart;
+        while (markerStart < heading.to && content[markerStart] !== '=' && content[markerStart] !== '-') {
+            markerStart++;
+        }
+        let markerEnd = markerStart;
+        while (markerEnd < heading.to && content[markerEnd] === content[markerStart]) {
+            markerEnd++;
+        }
+        return { from: markerStart, to: markerEnd, insert: (level === 1 ? '=' : '-').repeat(markerEnd - markerStart) };
+    }
+
+    // Setext only supports levels 1 and 2, so deeper levels are rewritten as a single ATX line
+    const text = content
+        .slice(heading.from, underlineStart - 1)
+        .split('\n')
+        .map((line, index) => (index === 0 ? line : line.replace(CONTAINER_PREFIX_PATTERN, '')).trim())
+        .filter(Boolean)
+        .join(' ');
+
+    return { from: heading.from, to: heading.to, insert: `${'#'.repeat(level)} ${text}` };
+}
+
+/**
+ * Computes the edits that promote or demote a heading by one level.
+ *
+ * ATX markers are rewritten in place. Setext headings keep their underline style for levels 1-2
+ * and are converted to ATX when demoted beyond level 2.
+ *
+ * @param content - Markdown document the headings were extracted from
+ * @param headings - Headings in document order
+ * @param headingId - Heading to change
+ * @param delta - -1 to promote, 1 to demote
+ * @param includeSubheadings - Also shift every heading nested in the section
+ * @returns Changes to apply, or null when the heading is unknown or any affected heading would
+ *   leave the H1-H6 range
+ */
+export function computeHeadingLevelChange(
+    content: string,
+    headings: HeadingItem[],
+    headingId: string,
+    delta: HeadingLevelDelta,
+    includeSubheadings: boolean
+): TextChange[] | null {
+    const index = headings.findIndex((heading) => heading.id === headingId);
+    if (index < 0) {
+        return null;
+    }
+
+    const targets = [headings[index]];
+    if (includeSubheadings) {
+        const section = getSectionRange(content, headings, index);
+        for (let next = index + 1; next < headings.length && headings[next].from < section.to; next++) {
+            targets.push(headings[next]);
+        }
+    }
+
+    const outOfRange = targets.some(
+        (heading) => heading.level + delta < MIN_HEADING_LEVEL || heading.level + delta > MAX_HEADING_LEVEL
+    );
+    if (outOfRange) {
+        return null;
+    }
+
+    return targets.map((heading) => createLevelChange(content, heading, heading.level + delta));
+}
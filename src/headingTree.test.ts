@@ -0,0 +1,132 @@
+import {
+    buildHeadingTree,
+    getAncestors,
+    getHeadingsToCollapse,
+    getSiblings,
+    getVisibleHeadings,
+    revealMatches,
+} from './headingTree';
+import { filterHeadings } from './headingFilter';
+import type { HeadingItem } from './types';
+
+function createHeadings(spec: Array<[number, string]>): HeadingItem[] {
+    return spec.map(([level, text], index) => ({
+        id: `heading-${index * 10}`,
+        text,
+        level,
+        from: index * 10,
+        to: index * 10 + text.length,
+        line: index,
+        anchor: text.toLowerCase(),
+    }));
+}
+
+// Guide
+//   Install
+//     Linux
+//     Windows
+//   Usage
+//       Deep (skips H3)
+// Appendix
+const headings = createHeadings([
+    [1, 'Guide'],
+    [2, 'Install'],
+    [3, 'Linux'],
+    [3, 'Windows'],
+    [2, 'Usage'],
+    [4, 'Deep'],
+    [1, 'Appendix'],
+]);
+const [guide, install, linux, windows, usage, deep, appendix] = headings;
+
+describe('buildHeadingTree', () => {
+    it('links headings to the nearest preceding shallower heading', () => {
+        const tree = buildHeadingTree(headings);
+
+        expect(tree.get(guide.id)).toMatchObject({ parentId: null, depth: 0, childIds: [install.id, usage.id] });
+        expect(tree.get(linux.id)).toMatchObject({ parentId: install.id, depth: 2, childIds: [] });
+        expect(tree.get(deep.id)).toMatchObject({ parentId: usage.id, depth: 2 });
+        expect(tree.get(appendix.id)).toMatchObject({ parentId: null, depth: 0 });
+    });
+
+    it('treats headings before the first top-level heading as roots', () => {
+        const tree = buildHeadingTree(
+            createHeadings([
+                [3, 'Preface'],
+                [1, 'Title'],
+            ])
+        );
+        expect([...tree.values()].map((node) => node.parentId)).toEqual([null, null]);
+    });
+});
+
+describe('getAncestors', () => {
+    it('returns ancestors outermost first', () => {
+        const tree = buildHeadingTree(headings);
+        expect(getAncestors(tree, windows.id).map((h) => h.text)).toEqual(['Guide', 'Install']);
+        expect(getAncestors(tree, guide.id)).toEqual([]);
+        expect(getAncestors(tree, 'missing')).toEqual([]);
+    });
+});
+
+describe('getSiblings', () => {
+    it('returns the children of the parent, or the top-level headings', () => {
+        const tree = buildHeadingTree(headings);
+        expect(getSiblings(tree, linux.id)).toEqual([linux, windows]);
+        expect(getSiblings(tree, deep.id)).toEqual([deep]);
+        expect(getSiblings(tree, appendix.id)).toEqual([guide, appendix]);
+        expect(getSiblings(tree, 'missing')).toEqual([]);
+    });
+});
+
+describe('getVisibleHeadings', () => {
+    it('hides all descendants of collapsed headings', () => {
+        const tree = buildHeadingTree(headings);
+        const visible = getVisibleHeadings(headings, tree, (heading) => heading.id === guide.id);
+        expect(visible.map((h) => h.text)).toEqual(['Guide', 'Appendix']);
+    });
+
+    it('keeps siblings of collapsed sections visible', () => {
+        const tree = buildHeadingTree(headings);
+        const visible = getVisibleHeadings(headings, tree, (heading) => heading.id === install.id);
+        expect(visible.map((h) => h.text)).toEqual(['Guide', 'Install', 'Usage', 'Deep', 'Appendix']);
+    });
+});
+
+describe('revealMatches', () => {
+    it('includes ancestors of matched headings in document order', () => {
+        const tree = buildHeadingTree(headings);
+        const revealed = revealMatches(headings, tree, [windows.id, deep.id]);
+        expect(revealed.map((h) => h.text)).toEqual(['Guide', 'Install', 'Windows', 'Usage', 'Deep']);
+    });
+
+    it('orders sibling groups by their best-ranked match', () => {
+        const tree = buildHeadingTree(headings);
+        const revealed = revealMatches(headings, tree, [appendix.id, deep.id, linux.id, windows.id]);
+        expect(revealed.map((h) => h.text)).toEqual([
+            'Appendix',
+            'Guide',
+            'Usage',
+            'Deep',
+            'Install',
+            'Linux',
+            'Windows',
+        ]);
+    });
+
+    it('keeps the ranking of fuzzy filter results', () => {
+        const tree = buildHeadingTree(headings);
+        const ranked = filterHeadings(headings, 'deep', 'fuzzy').map((match) => match.heading.id);
+        const revealed = revealMatches(headings, tree, [...ranked, linux.id]);
+        expect(revealed.map((h) => h.text)).toEqual(['Guide', 'Usage', 'Deep', 'Install', 'Linux']);
+    });
+});
+
+describe('getHeadingsToCollapse', () => {
+    it('collapses headings at or below the level that have children', () => {
+        const tree = buildHeadingTree(headings);
+        expect(getHeadingsToCollapse(tree, 2).map((h) => h.text)).toEqual(['Install', 'Usage']);
+        expect(getHeadingsToCollapse(tree, 1).map((h) => h.text)).toEqual(['Guide', 'Install', 'Usage']);
+        expect(getHeadingsToCollapse(tree, 6)).toEqual([]);
+    });
+});
@@ -0,0 +1,180 @@
+/**
+ * Heading hierarchy utilities.
+ *
+ * Derives a tree from the flat, document-ordered heading list using `HeadingItem.level`:
+ * a heading's parent is the nearest preceding heading with a lower level. Skipped levels
+ * (e.g. an H4 directly below an H2) simply attach to the nearest shallower heading.
+ *
+ * Used by the panel for collapsible tree rendering and ancestor reveal while filtering, and by
+ * the breadcrumb bar for the heading path and its sibling menus.
+ */
+
+import type { HeadingItem } from './types';
+
+export interface HeadingTreeNode {
+    heading: HeadingItem;
+    parentId: string | null;
+    childIds: string[];
+    /** Nesting depth in the tree (0 for top-level headings), independent of skipped levels */
+    depth: number;
+}
+
+export type HeadingTree = Map<string, HeadingTreeNode>;
+
+/**
+ * Builds the heading hierarchy.
+ *
+ * @param headings - Headings in document order
+ * @returns Map of heading id to tree node (iteration order follows document order)
+ */
+export function buildHeadingTree(headings: HeadingItem[]): HeadingTree {
+    const tree: HeadingTree = new Map();
+    const stack: HeadingTreeNode[] = [];
+
+    for (const heading of headings) {
+        while (stack.length && stack[stack.length - 1].heading.level >= heading.level) {
+            stack.pop();
+        }
+
+        const parent = stack[stack.length - 1] ?? null;
+        const node: HeadingTreeNode = {
+            heading,
+            parentId: parent?.heading.id ?? null,
+            childIds: [],
+            depth: stack.length,
+        };
+
+        parent?.childIds.push(heading.id);
+        tree.set(heading.id, node);
+        stack.push(node);
+    }
+
+    return tree;
+}
+
+/**
+ * Returns the ancestors of a heading, outermost first.
+ */
+export function getAncestors(tree: HeadingTree, headingId: string): HeadingItem[] {
+    const ancestors: HeadingItem[] = [];
+    let parentId = tree.get(headingId)?.parentId ?? null;
+
+    while (parentId) {
+        const parent = tree.get(parentId);
+        if (!parent) {
+            break;
+        }
+        ancestors.unshift(parent.heading);
+        parentId = parent.parentId;
+    }
+
+    return ancestors;
+}
+
+/**
+ * Returns a heading and its siblings in document order: the children of its parent, or the
+ * top-level headings for a top-level heading.
+ */
+export function getSiblings(tree: HeadingTree, headingId: string): HeadingItem[] {
+    const node = tree.get(headingId);
+    if (!node) {
+        return [];
+    }
+
+    const parent = node.parentId ? tree.get(node.parentId) : undefined;
+    if (parent) {
+        return parent.childIds.map((id) => tree.get(id)!.heading);
+    }
+
+    return [...tree.values()].filter((candidate) => candidate.parentId === null).map((candidate) => candidate.heading);
+}
+
+/**
+ * Returns the headings that remain visible when some sections are collapsed.
+ *
+ * @param headings - Headings in document order
+ * @param tree - Hierarchy for `headings`
+ * @param isCollapsed - Whether a heading's children are hidden
+ * @returns Visible headings in document order
+ */
+export function getVisibleHeadings(
+    headings: HeadingItem[],
+    tree: HeadingTree,
+    isCollapsed: (heading: HeadingItem) => boolean
+): HeadingItem[] {
+    const hidden = new Set<string>();
+
+    return headings.filter((heading) => {
+        const parentId = tree.get(heading.id)?.parentId ?? null;
+        const parent = parentId ? tree.get(parentId) : undefined;
+
+        if (parent && (hidden.has(parent.heading.id) || isCollapsed(parent.heading))) {
+            hidden.add(heading.id);
+            return false;
+        }
+
+        return true;
+    });
+}
+
+/**
+ * Returns the matched headings together with all of their ancestors, as a tree ordered by rank.
+ *
+ * Each heading is followed by its revealed descendants, so ancestors keep giving context, and
+ * siblings are ordered by the best rank found in their subtree: the group holding the top match
+ * comes first. Ties keep document order, so matches ranked in document order stay that way.
+ *
+ * @param headings - Headings in document order
+ * @param tree - Hierarchy for `headings`
+ * @param rankedIds - Ids of headings that matched the filter, best match first
+ */
+export function revealMatches(headings: HeadingItem[], tree: HeadingTree, rankedIds: string[]): HeadingItem[] {
+    // Best rank in each revealed heading's subtree; ranks are visited best first, so the first
+    // rank recorded for a heading is its best
+    const bestRanks = new Map<string, number>();
+
+    rankedIds.forEach((id, rank) => {
+        if (!tree.has(id) || bestRanks.has(id)) {
+            return;
+        }
+        bestRanks.set(id, rank);
+        getAncestors(tree, id).forEach((ancestor) => {
+            if (!bestRanks.has(ancestor.id)) {
+                bestRanks.set(ancestor.id, rank);
+            }
+        });
+    });
+
+    const byRank = (ids: string[]) =>
+        ids.filter((id) => bestRanks.has(id)).sort((a, b) => bestRanks.get(a)! - bestRanks.get(b)!);
+
+    const result: HeadingItem[] = [];
+    const visit = (id: string) => {
+        const node = tree.get(id)!;
+        result.push(node.heading);
+        byRank(node.childIds).forEach(visit);
+    };
+    byRank(headings.filter((heading) => tree.get(heading.id)?.parentId === null).map((heading) => heading.id)).forEach(
+        visit
+    );
+
+    return result;
+}
+
+/**
+ * Returns the headings to collapse so that only headings up to `level` remain expanded.
+ *
+ * Every heading at `level` or deeper that has children is collapsed, which hides all
+ * deeper headings nested below them.
+ */
+export function getHeadingsToCollapse(tree: HeadingTree, level: number): HeadingItem[] {
+    const result: HeadingItem[] = [];
+
+    tree.forEach((node) => {
+        if (node.heading.level >= level && node.childIds.length > 0) {
+            result.push(node.heading);
+        }
+    });
+
+    return result;
+}
@@ -3,7 +3,7 @@
  *
  * This file runs in the Joplin plugin host context with full API access. It:
  * - Registers the CodeMirror content script (runs in editor context)
- * - Handles messages from the content script (clipboard operations, data fetching)
+ * - Handles messages from the content script (clipboard operations, data fetching, settings)
  * - Registers commands, menu items, and toolbar buttons
  * - Manages plugin settings and configuration
  *
@@ -19,14 +19,150 @@
 
 import joplin from 'api';
 import { ContentScriptType, MenuItemLocation, ToolbarButtonLocation } from 'api/types';
-import { CODEMIRROR_CONTENT_SCRIPT_ID, COMMAND_GO_TO_HEADING, EDITOR_COMMAND_TOGGLE_PANEL } from './constants';
+import {
+    CODEMIRROR_CONTENT_SCRIPT_ID,
+    VIEWER_CONTENT_SCRIPT_ID,
+    COMMAND_CHECK_HEADING_LINKS,
+    COMMAND_CHECK_NOTEBOOK_HEADING_LINKS,
+    COMMAND_COPY_SECTION,
+    COMMAND_DEMOTE_SECTION,
+    COMMAND_GO_TO_FIRST_CHILD_HEADING,
+    COMMAND_GO_TO_HEADING,
+    COMMAND_GO_TO_NEXT_HEADING,
+    COMMAND_GO_TO_NEXT_SAME_LEVEL_HEADING,
+    COMMAND_GO_TO_PARENT_HEADING,
+    COMMAND_GO_TO_PREVIOUS_HEADING,
+    COMMAND_GO_TO_PREVIOUS_SAME_LEVEL_HEADING,
+    COMMAND_INSERT_TABLE_OF_CONTENTS,
+    COMMAND_NAVIGATE_BACK,
+    COMMAND_NAVIGATE_FORWARD,
+    COMMAND_NUMBER_HEADINGS,
+    COMMAND_PROMOTE_SECTION,
+    COMMAND_REMOVE_HEADING_NUMBERS,
+    COMMAND_SEARCH_ALL_HEADINGS,
+    COMMAND_TOGGLE_FOCUS_MODE,
+    COMMAND_TOGGLE_OUTLINE,
+    EDITOR_COMMAND_APPLY_OUTLINE_NUMBERING,
+    EDITOR_COMMAND_COPY_SECTION,
+    EDITOR_COMMAND_DEMOTE_HEADING,
+    EDITOR_COMMAND_GO_TO_ANCHOR,
+    EDITOR_COMMAND_INSERT_TABLE_OF_CONTENTS,
+    EDITOR_COMMAND_JUMP_BACK,
+    EDITOR_COMMAND_JUMP_FORWARD,
+    EDITOR_COMMAND_JUMP_TO_HEADING,
+    EDITOR_COMMAND_PROMOTE_HEADING,
+    EDITOR_COMMAND_REPLACE_RANGE,
+    EDITOR_COMMAND_SELECT_RANGE,
+    EDITOR_COMMAND_SET_BREADCRUMB_BAR,
+    EDITOR_COMMAND_TOGGLE_FOCUS_MODE,
+    EDITOR_COMMAND_TOGGLE_PANEL,
+} from './constants';
 import logger from './logger';
-import { loadPanelDimensions, registerPanelSettings } from './settings';
-import type { ContentScriptToPluginMessage, CopyHeadingLinkMessage } from './messages';
-import { formatHeadingLink } from './linkFormatting';
+import {
+    loadHeadingLinkOptions,
+    loadPanelOptions,
+    loadSectionCopyFormat,
+    loadShowBreadcrumbBar,
+    loadTableOfContentsOptions,
+    onShowBreadcrumbBarChange,
+    registerPanelSettings,
+} from './settings';
+import type {
+    ContentScriptToPluginMessage,
+    CopyHeadingLinkMessage,
+    CopySectionMessage,
+    OutlineNumberingMessage,
+    RenameHeadingMessage,
+    ShowHeadingBacklinksMessage,
+    UpdateHeadingLinksMessage,
+    ViewerToPluginMessage,
+} from './messages';
+import { htmlToPlainText } from './sectionCopy';
+import {
+    loadHeadingReferences,
+    loadRecentHeadings,
+    PINNED_HEADINGS_KEY,
+    saveHeadingReferences,
+    saveRecentHeadings,
+} from './headingReferenceStore';
+import { renderLinkTemplate, resolveLinkTemplate } from './linkFormatting';
+import { HeadingSearchDialog, NoteHeadingIndexer, type HeadingSearchSelection } from './globalHeadingSearch';
+import {
+    applyLinkFixToNote,
+    checkHeadingLinks,
+    getLinkFix,
+    HeadingLinkCheckDialog,
+    removeFixedLink,
+    type LinkCheckScope,
+} from './headingLinkCheck';
+import { applyLinkUpdates, findLinkUpdates, HeadingRenameDialog } from './headingLinkUpdates';
+import { countHeadingBacklinks, findHeadingBacklinks, HeadingBacklinksDialog } from './headingBacklinks';
+import type { EditorRangeReplacement, EditorRangeTarget, HeadingNavigationTarget } from './types';
+import type { HeadingJump } from './headingSections';
+import { OutlinePanel } from './outlinePanel';
+import { filterRenderedHeadings, ViewerCommandBridge } from './viewerNavigation';
+import { createPanelCss } from './contentScripts/theme/panelTheme';
+import { normalizeFilterMode } from './headingFilter';
+
+// The editor needs a moment to load a newly opened note before it can scroll to a heading
+const NAVIGATION_RETRY_DELAY_MS = 100;
+const NAVIGATION_MAX_ATTEMPTS = 20;
+// `MarkupLanguage.Markdown` in Joplin; the enum isn't exported to plugins
+const MARKUP_LANGUAGE_MARKDOWN = 1;
+
+// `clipboard.write` (several flavours in one entry) isn't declared by every plugin API version
+type MultiFormatClipboard = typeof joplin.clipboard & {
+    write?: (content: { html?: string; text?: string }) => Promise<void>;
+};
+
+// Commands that move the cursor to a nearby heading without opening the panel
+const HEADING_JUMP_COMMANDS: { name: string; label: string; iconName: string; jump: HeadingJump }[] = [
+    { name: COMMAND_GO_TO_NEXT_HEADING, label: 'Go to Next Heading', iconName: 'fas fa-chevron-down', jump: 'next' },
+    {
+        name: COMMAND_GO_TO_PREVIOUS_HEADING,
+        label: 'Go to Previous Heading',
+        iconName: 'fas fa-chevron-up',
+        jump: 'previous',
+    },
+    {
+        name: COMMAND_GO_TO_NEXT_SAME_LEVEL_HEADING,
+        label: 'Go to Next Heading of the Same Level',
+        iconName: 'fas fa-angle-double-down',
+        jump: 'nextSameLevel',
+    },
+    {
+        name: COMMAND_GO_TO_PREVIOUS_SAME_LEVEL_HEADING,
+        label: 'Go to Previous Heading of the Same Level',
+        iconName: 'fas fa-angle-double-up',
+        jump: 'previousSameLevel',
+    },
+    {
+        name: COMMAND_GO_TO_PARENT_HEADING,
+        label: 'Go to Parent Heading',
+        iconName: 'fas fa-level-up-alt',
+        jump: 'parent',
+    },
+    {
+        name: COMMAND_GO_TO_FIRST_CHILD_HEADING,
+        label: 'Go to First Child Heading',
+        iconName: 'fas fa-level-down-alt',
+        jump: 'firstChild',
+    },
+];
+
+const headingSearchDialog = new HeadingSearchDialog(new NoteHeadingIndexer());
+const headingLinkCheckDialog = new HeadingLinkCheckDialog();
+const headingRenameDialog = new HeadingRenameDialog();
+const headingBacklinksDialog = new HeadingBacklinksDialog();
+const outlinePanel = new OutlinePanel();
+const viewerCommands = new ViewerCommandBridge();
+
+function delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
 async function handleCopyHeadingLink(message: CopyHeadingLinkMessage): Promise<void> {
-    const { noteId, headingText, headingAnchor } = message;
+    const { noteId, headingText, headingAnchor, headingPath } = message;
 
     try {
         const note = await joplin.data.get(['notes', noteId], { fields: ['id', 'title'] });
@@ -37,15 +173,290 @@ async function handleCopyHeadingLink(message: CopyHeadingLinkMessage): Promise<v
         }
 
         const noteTitle = typeof note.title === 'string' && note.title ? note.title : 'Untitled';
-        const markdown = formatHeadingLink(headingText, noteTitle, noteId, headingAnchor);
+        const linkOptions = await loadHeadingLinkOptions();
+        const link = renderLinkTemplate(resolveLinkTemplate(linkOptions), {
+            heading: headingText,
+            note: noteTitle,
+            noteId,
+            anchor: headingAnchor,
+            ancestors: headingPath,
+        });
 
-        await joplin.clipboard.writeText(markdown);
+        await joplin.clipboard.writeText(link);
         logger.info('Copied heading link to clipboard', { noteId, headingAnchor });
     } catch (error) {
         logger.error('Failed to copy heading link to clipboard', error);
     }
 }
 
+/**
+ * Renders Markdown to HTML with Joplin's note renderer.
+ */
+async function renderMarkdown(markdown: string): Promise<string> {
+    const result = await joplin.commands.execute('renderMarkup', MARKUP_LANGUAGE_MARKDOWN, markdown);
+    if (typeof result === 'string') {
+        return result;
+    }
+    return typeof result?.html === 'string' ? result.html : '';
+}
+
+/**
+ * Writes HTML together with a plain text flavour, so apps that only accept text can paste it too.
+ */
+async function writeHtmlToClipboard(html: string): Promise<void> {
+    const clipboard = joplin.clipboard as MultiFormatClipboard;
+    const text = htmlToPlainText(html);
+
+    if (typeof clipboard.write === 'function') {
+        await clipboard.write({ html, text });
+        return;
+    }
+
+    // Older clients can only hold one flavour per write; HTML is what this format is for
+    logger.debug('Clipboard can only write HTML without a text flavour');
+    await joplin.clipboard.writeHtml(html);
+}
+
+async function handleCopySection(message: CopySectionMessage): Promise<void> {
+    try {
+        const format = await loadSectionCopyFormat();
+
+        switch (format) {
+            case 'rebasedMarkdown':
+                await joplin.clipboard.writeText(message.rebasedMarkdown);
+                break;
+            case 'html':
+                await writeHtmlToClipboard(await renderMarkdown(message.markdown));
+                break;
+            case 'plainText':
+                await joplin.clipboard.writeText(htmlToPlainText(await renderMarkdown(message.markdown)));
+                break;
+            case 'markdown':
+            default:
+                await joplin.clipboard.writeText(message.markdown);
+                break;
+        }
+        logger.info('Copied section to clipboard', { format });
+    } catch (error) {
+        logger.error('Failed to copy section to clipboard', error);
+    }
+}
+
+/**
+ * Opens a note and runs an editor command once the editor has loaded it.
+ *
+ * @returns false if the command never succeeded
+ */
+async function executeInOpenedNote(noteId: string, name: string, target: unknown): Promise<boolean> {
+    await joplin.commands.execute('openNote', noteId);
+
+    for (let attempt = 0; attempt < NAVIGATION_MAX_ATTEMPTS; attempt++) {
+        if (await joplin.commands.execute('editor.execCommand', { name, args: [target] })) {
+            return true;
+        }
+        await delay(NAVIGATION_RETRY_DELAY_MS);
+    }
+    return false;
+}
+
+async function navigateToNoteHeading(selection: HeadingSearchSelection): Promise<void> {
+    const { noteId, anchor } = selection;
+    const target: HeadingNavigationTarget = { noteId, anchor };
+
+    if (!(await executeInOpenedNote(noteId, EDITOR_COMMAND_GO_TO_ANCHOR, target))) {
+        logger.warn('Opened note but could not scroll the editor to the heading', { noteId, anchor });
+    }
+}
+
+async function navigateToNoteRange(target: EditorRangeTarget): Promise<void> {
+    if (!(await executeInOpenedNote(target.noteId, EDITOR_COMMAND_SELECT_RANGE, target))) {
+        logger.warn('Opened note but could not select the range in the editor', target);
+    }
+}
+
+/**
+ * Applies a link fix in the editor when the note is open there (keeping undo history), or
+ * through the data API otherwise.
+ */
+async function applyLinkFix(fix: EditorRangeReplacement): Promise<boolean> {
+    const selectedNote = await joplin.workspace.selectedNote();
+    if (selectedNote?.id === fix.noteId) {
+        const replaced = await joplin.commands.execute('editor.execCommand', {
+            name: EDITOR_COMMAND_REPLACE_RANGE,
+            args: [fix],
+        });
+        if (replaced) {
+            return true;
+        }
+    }
+    return applyLinkFixToNote(fix);
+}
+
+/**
+ * Shows the broken heading links of the current note or notebook until the dialog is closed or
+ * a link is opened. Fixed links are removed from the list without rescanning, because edits made
+ * in the editor reach the database only after Joplin saves the note.
+ */
+async function runHeadingLinkCheck(scope: LinkCheckScope): Promise<void> {
+    let result = await checkHeadingLinks(scope);
+
+    for (;;) {
+        const action = await headingLinkCheckDialog.open(result);
+        if (!action) {
+            return;
+        }
+
+        const { report } = action;
+        if (action.type === 'goTo') {
+            await navigateToNoteRange({
+                noteId: report.noteId,
+                from: report.broken.link.from,
+                to: report.broken.link.to,
+            });
+            return;
+        }
+
+        const fix = getLinkFix(report);
+        if (!fix) {
+            continue;
+        }
+        if (await applyLinkFix(fix)) {
+            result = removeFixedLink(result, report);
+        } else {
+            logger.warn('Note changed since it was checked; heading link not fixed', { noteId: fix.noteId });
+        }
+    }
+}
+
+/**
+ * Previews a heading rename when links point to the heading. The links in other notes are updated
+ * after the editor has applied the rename (`handleUpdateHeadingLinks`).
+ *
+ * @returns Whether the editor should apply the rename
+ */
+async function handleRenameHeading(message: RenameHeadingMessage): Promise<boolean> {
+    try {
+        const renamedAnchors = new Map(message.renamedAnchors);
+        const updates = await findLinkUpdates(message.noteId, renamedAnchors);
+        if (!updates.length && !message.sameNoteLinkCount) {
+            return true;
+        }
+
+        const summary = {
+            title: `Rename “${message.oldText}” to “${message.newText}”`,
+            confirmLabel: 'Rename and Update Links',
+            sameNoteLinkCount: message.sameNoteLinkCount,
+        };
+        return await headingRenameDialog.confirm(summary, updates);
+    } catch (error) {
+        logger.error('Failed to preview the heading rename', error);
+        return false;
+    }
+}
+
+/**
+ * Points the links in other notes at the anchors the editor has renamed.
+ *
+ * @returns Number of notes updated
+ */
+async function handleUpdateHeadingLinks(message: UpdateHeadingLinksMessage): Promise<number> {
+    try {
+        const renamedAnchors = new Map(message.renamedAnchors);
+        const updates = await findLinkUpdates(message.noteId, renamedAnchors);
+        return await applyLinkUpdates(updates, message.noteId, renamedAnchors);
+    } catch (error) {
+        logger.error('Failed to update links to the renamed headings', error);
+        return 0;
+    }
+}
+
+/**
+ * Previews the links in other notes to headings renumbered by outline numbering; they are updated
+ * after the editor has applied the numbering (`handleUpdateHeadingLinks`). Links within the note
+ * are updated by the editor without asking.
+ *
+ * @returns Whether the editor should apply the numbering
+ */
+async function handleOutlineNumbering(message: OutlineNumberingMessage): Promise<boolean> {
+    try {
+        const renamedAnchors = new Map(message.renamedAnchors);
+        const updates = await findLinkUpdates(message.noteId, renamedAnchors);
+        if (!updates.length) {
+            return true;
+        }
+
+        const summary = {
+            title: message.action === 'strip' ? 'Remove heading numbers' : 'Number headings',
+            confirmLabel: message.action === 'strip' ? 'Remove Numbers and Update Links' : 'Number and Update Links',
+            sameNoteLinkCount: message.sameNoteLinkCount,
+        };
+        return await headingRenameDialog.confirm(summary, updates);
+    } catch (error) {
+        logger.error('Failed to preview the outline numbering', error);
+        return false;
+    }
+}
+
+async function showHeadingBacklinks(message: ShowHeadingBacklinksMessage): Promise<void> {
+    try {
+        const backlinks = (await findHeadingBacklinks(message.noteId)).get(message.anchor) ?? [];
+        const backlink = await headingBacklinksDialog.open(message.headingText, backlinks);
+        if (backlink) {
+            await navigateToNoteRange({ noteId: backlink.noteId, from: backlink.from, to: backlink.to });
+        }
+    } catch (error) {
+        logger.error('Failed to show heading backlinks', error);
+    }
+}
+
+/**
+ * Whether "Go to Heading" should target the Markdown editor rather than the viewer.
+ *
+ * The editor wins whenever it is visible (including split view); the viewer is only used when
+ * it is the sole visible pane.
+ */
+async function isMarkdownEditorVisible(): Promise<boolean> {
+    try {
+        const visiblePanes = await joplin.settings.globalValue('noteVisiblePanes');
+        return !Array.isArray(visiblePanes) || visiblePanes.includes('editor') || !visiblePanes.includes('viewer');
+    } catch (error) {
+        logger.warn('Unable to read visible note panes; assuming the editor is visible', error);
+        return true;
+    }
+}
+
+async function handleViewerMessage(message: ViewerToPluginMessage): Promise<unknown> {
+    if (!message || typeof message !== 'object') {
+        return null;
+    }
+
+    switch (message.type) {
+        case 'waitForCommand':
+            return viewerCommands.waitForCommand();
+        case 'filterHeadings':
+            return filterRenderedHeadings(
+                message.headings ?? [],
+                message.query ?? '',
+                normalizeFilterMode(message.mode).value
+            );
+        case 'copyHeadingLink': {
+            const note = await joplin.workspace.selectedNote();
+            if (!note) {
+                logger.warn('Unable to copy heading link because no note is selected');
+                return null;
+            }
+            await handleCopyHeadingLink({ ...message, noteId: note.id });
+            return null;
+        }
+        case 'reportError':
+            logger.warn(`Viewer script: ${message.message}`, message.error);
+            return null;
+        default:
+            logger.warn('Received unsupported message from viewer script', message);
+            return null;
+    }
+}
+
 async function registerContentScripts(): Promise<void> {
     await joplin.contentScripts.register(
         ContentScriptType.CodeMirrorPlugin,
@@ -55,7 +466,7 @@ async function registerContentScripts(): Promise<void> {
 
     await joplin.contentScripts.onMessage(
         CODEMIRROR_CONTENT_SCRIPT_ID,
-        async (message: ContentScriptToPluginMessage): Promise<void> => {
+        async (message: ContentScriptToPluginMessage): Promise<unknown> => {
             if (!message || typeof message !== 'object') {
                 return;
             }
@@ -64,11 +475,71 @@ async function registerContentScripts(): Promise<void> {
                 case 'copyHeadingLink':
                     await handleCopyHeadingLink(message);
                     return;
+                case 'copySection':
+                    await handleCopySection(message);
+                    return;
+                case 'getTableOfContentsOptions':
+                    return loadTableOfContentsOptions();
+                case 'getBreadcrumbBarEnabled':
+                    return loadShowBreadcrumbBar();
+                case 'getOutlineVisible':
+                    return outlinePanel.isVisible();
+                case 'getPinnedHeadings':
+                    return loadHeadingReferences(message.noteId, PINNED_HEADINGS_KEY).catch((error) => {
+                        logger.error('Failed to load pinned headings', error);
+                        return [];
+                    });
+                case 'savePinnedHeadings':
+                    try {
+                        await saveHeadingReferences(message.noteId, PINNED_HEADINGS_KEY, message.pins);
+                    } catch (error) {
+                        logger.error('Failed to save pinned headings', error);
+                    }
+                    return;
+                case 'getRecentHeadings':
+                    return loadRecentHeadings(message.noteId).catch((error) => {
+                        logger.error('Failed to load recent headings', error);
+                        return [];
+                    });
+                case 'saveRecentHeadings':
+                    try {
+                        await saveRecentHeadings(message.noteId, message.headings);
+                    } catch (error) {
+                        logger.error('Failed to save recent headings', error);
+                    }
+                    return;
+                case 'renameHeading':
+                    return handleRenameHeading(message);
+                case 'updateHeadingLinks':
+                    return handleUpdateHeadingLinks(message);
+                case 'outlineNumbering':
+                    return handleOutlineNumbering(message);
+                case 'getHeadingBacklinkCounts':
+                    return findHeadingBacklinks(message.noteId)
+                        .then(countHeadingBacklinks)
+                        .catch((error) => {
+                            logger.error('Failed to count heading backlinks', error);
+                            return [];
+                        });
+                case 'showHeadingBacklinks':
+                    await showHeadingBacklinks(message);
+                    return;
+                case 'outlineUpdate':
+                case 'outlineActiveHeading':
+                    outlinePanel.handleMessage(message);
+                    return;
                 default:
                     logger.warn('Received unsupported message from content script', message);
             }
         }
     );
+
+    await joplin.contentScripts.register(
+        ContentScriptType.MarkdownItPlugin,
+        VIEWER_CONTENT_SCRIPT_ID,
+        './contentScripts/viewerHeadingNavigator.js'
+    );
+    await joplin.contentScripts.onMessage(VIEWER_CONTENT_SCRIPT_ID, handleViewerMessage);
 }
 
 async function registerCommands(): Promise<void> {
@@ -78,10 +549,189 @@ async function registerCommands(): Promise<void> {
         iconName: 'fas fa-heading',
         execute: async () => {
             logger.info('Go to Heading command triggered');
-            const panelDimensions = await loadPanelDimensions();
+            const panelOptions = await loadPanelOptions();
+
+            if (!(await isMarkdownEditorVisible())) {
+                const delivered = viewerCommands.send({
+                    type: 'togglePanel',
+                    options: panelOptions,
+                    css: createPanelCss(panelOptions),
+                });
+                if (!delivered) {
+                    logger.warn('Go to Heading is unavailable because the viewer has not loaded the plugin script');
+                }
+                return;
+            }
+
             await joplin.commands.execute('editor.execCommand', {
                 name: EDITOR_COMMAND_TOGGLE_PANEL,
-                args: [panelDimensions],
+                args: [panelOptions],
+            });
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_SEARCH_ALL_HEADINGS,
+        label: 'Go to Heading in Any Note',
+        iconName: 'fas fa-search',
+        execute: async () => {
+            try {
+                const { filterMode } = await loadPanelOptions();
+                const selection = await headingSearchDialog.open(filterMode);
+                if (selection) {
+                    await navigateToNoteHeading(selection);
+                }
+            } catch (error) {
+                logger.error('Failed to search headings across notes', error);
+            }
+        },
+    });
+
+    const linkCheckCommands: { name: string; label: string; scope: LinkCheckScope }[] = [
+        { name: COMMAND_CHECK_HEADING_LINKS, label: 'Check Heading Links', scope: 'note' },
+        { name: COMMAND_CHECK_NOTEBOOK_HEADING_LINKS, label: 'Check Heading Links in Notebook', scope: 'notebook' },
+    ];
+    for (const { name, label, scope } of linkCheckCommands) {
+        await joplin.commands.register({
+            name,
+            label,
+            iconName: 'fas fa-unlink',
+            execute: async () => {
+                try {
+                    await runHeadingLinkCheck(scope);
+                } catch (error) {
+                    logger.error('Failed to check heading links', error);
+                }
+            },
+        });
+    }
+
+    await joplin.commands.register({
+        name: COMMAND_TOGGLE_OUTLINE,
+        label: 'Toggle Outline Sidebar',
+        iconName: 'fas fa-list',
+        execute: async () => {
+            try {
+                await outlinePanel.toggle();
+            } catch (error) {
+                logger.error('Failed to toggle outline sidebar', error);
+            }
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_TOGGLE_FOCUS_MODE,
+        label: 'Toggle Focus Mode',
+        iconName: 'fas fa-crosshairs',
+        execute: async () => {
+            const { focusModeStyle } = await loadPanelOptions();
+            await joplin.commands.execute('editor.execCommand', {
+                name: EDITOR_COMMAND_TOGGLE_FOCUS_MODE,
+                args: [{ style: focusModeStyle }],
+            });
+        },
+    });
+
+    for (const { name, label, iconName, jump } of HEADING_JUMP_COMMANDS) {
+        await joplin.commands.register({
+            name,
+            label,
+            iconName,
+            execute: async () => {
+                await joplin.commands.execute('editor.execCommand', {
+                    name: EDITOR_COMMAND_JUMP_TO_HEADING,
+                    args: [jump],
+                });
+            },
+        });
+    }
+
+    await joplin.commands.register({
+        name: COMMAND_NAVIGATE_BACK,
+        label: 'Navigate Back',
+        iconName: 'fas fa-arrow-left',
+        execute: async () => {
+            await joplin.commands.execute('editor.execCommand', { name: EDITOR_COMMAND_JUMP_BACK });
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_NAVIGATE_FORWARD,
+        label: 'Navigate Forward',
+        iconName: 'fas fa-arrow-right',
+        execute: async () => {
+            await joplin.commands.execute('editor.execCommand', { name: EDITOR_COMMAND_JUMP_FORWARD });
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_PROMOTE_SECTION,
+        label: 'Promote Heading',
+        iconName: 'fas fa-outdent',
+        execute: async () => {
+            const { includeSubheadings } = await loadPanelOptions();
+            await joplin.commands.execute('editor.execCommand', {
+                name: EDITOR_COMMAND_PROMOTE_HEADING,
+                args: [{ includeSubheadings }],
+            });
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_DEMOTE_SECTION,
+        label: 'Demote Heading',
+        iconName: 'fas fa-indent',
+        execute: async () => {
+            const { includeSubheadings } = await loadPanelOptions();
+            await joplin.commands.execute('editor.execCommand', {
+                name: EDITOR_COMMAND_DEMOTE_HEADING,
+                args: [{ includeSubheadings }],
+            });
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_COPY_SECTION,
+        label: 'Copy Section',
+        iconName: 'fas fa-copy',
+        execute: async () => {
+            await joplin.commands.execute('editor.execCommand', { name: EDITOR_COMMAND_COPY_SECTION });
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_INSERT_TABLE_OF_CONTENTS,
+        label: 'Insert Table of Contents',
+        iconName: 'fas fa-list-ul',
+        execute: async () => {
+            const options = await loadTableOfContentsOptions();
+            await joplin.commands.execute('editor.execCommand', {
+                name: EDITOR_COMMAND_INSERT_TABLE_OF_CONTENTS,
+                args: [options],
+            });
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_NUMBER_HEADINGS,
+        label: 'Number Headings',
+        iconName: 'fas fa-list-ol',
+        execute: async () => {
+            await joplin.commands.execute('editor.execCommand', {
+                name: EDITOR_COMMAND_APPLY_OUTLINE_NUMBERING,
+                args: ['number'],
+            });
+        },
+    });
+
+    await joplin.commands.register({
+        name: COMMAND_REMOVE_HEADING_NUMBERS,
+        label: 'Remove Heading Numbers',
+        iconName: 'fas fa-eraser',
+        execute: async () => {
+            await joplin.commands.execute('editor.execCommand', {
+                name: EDITOR_COMMAND_APPLY_OUTLINE_NUMBERING,
+                args: ['strip'],
             });
         },
     });
@@ -89,6 +739,49 @@ async function registerCommands(): Promise<void> {
 
 async function registerMenuItems(): Promise<void> {
     await joplin.views.menuItems.create('headingNavigatorMenuItem', COMMAND_GO_TO_HEADING, MenuItemLocation.Edit);
+    await joplin.views.menuItems.create(
+        'headingNavigatorSearchMenuItem',
+        COMMAND_SEARCH_ALL_HEADINGS,
+        MenuItemLocation.Edit
+    );
+
+    // Secondary commands live in a submenu; being in a menu also makes them bindable under
+    // Tools | Options | Keyboard Shortcuts
+    await joplin.views.menus.create(
+        'headingNavigatorSubmenu',
+        'Heading Navigator',
+        [
+            { commandName: COMMAND_TOGGLE_OUTLINE },
+            { commandName: COMMAND_TOGGLE_FOCUS_MODE },
+            { type: 'separator' },
+            ...HEADING_JUMP_COMMANDS.map(({ name }) => ({ commandName: name })),
+            { commandName: COMMAND_NAVIGATE_BACK },
+            { commandName: COMMAND_NAVIGATE_FORWARD },
+            { type: 'separator' },
+            { commandName: COMMAND_PROMOTE_SECTION },
+            { commandName: COMMAND_DEMOTE_SECTION },
+            { commandName: COMMAND_COPY_SECTION },
+            { commandName: COMMAND_INSERT_TABLE_OF_CONTENTS },
+            { commandName: COMMAND_NUMBER_HEADINGS },
+            { commandName: COMMAND_REMOVE_HEADING_NUMBERS },
+            { type: 'separator' },
+            { commandName: COMMAND_CHECK_HEADING_LINKS },
+            { commandName: COMMAND_CHECK_NOTEBOOK_HEADING_LINKS },
+        ],
+        MenuItemLocation.Edit
+    );
+}
+
+async function setEditorBreadcrumbBar(enabled: boolean): Promise<void> {
+    try {
+        await joplin.commands.execute('editor.execCommand', {
+            name: EDITOR_COMMAND_SET_BREADCRUMB_BAR,
+            args: [enabled],
+        });
+    } catch (error) {
+        // No markdown editor is mounted; the content script asks for the setting when it starts
+        logger.debug('Could not update the breadcrumb bar in the editor', error);
+    }
 }
 
 async function registerToolbarButton(): Promise<void> {
@@ -107,5 +800,11 @@ joplin.plugins.register({
         await registerCommands();
         await registerMenuItems();
         await registerToolbarButton();
+
+        await joplin.workspace.onNoteSelectionChange(async () => {
+            await outlinePanel.handleNoteSelectionChange();
+        });
+        await outlinePanel.initialize();
+        await onShowBreadcrumbBarChange(setEditorBreadcrumbBar);
     },
 });
@@ -0,0 +1,48 @@
+import { JumpHistory } from './jumpHistory';
+
+describe('JumpHistory', () => {
+    it('goes back and forward through jumps', () => {
+        const history = new JumpHistory<number>();
+        history.push(1);
+        history.push(2);
+
+        expect(history.back(3)).toBe(2);
+        expect(history.back(2)).toBe(1);
+        expect(history.back(1)).toBeNull();
+        expect(history.forward(1)).toBe(2);
+        expect(history.forward(2)).toBe(3);
+        expect(history.forward(3)).toBeNull();
+    });
+
+    it('clears the forward stack on a new jump', () => {
+        const history = new JumpHistory<number>();
+        history.push(1);
+        history.back(2);
+        expect(history.canGoForward).toBe(true);
+
+        history.push(1);
+        expect(history.canGoForward).toBe(false);
+        expect(history.back(5)).toBe(1);
+    });
+
+    it('drops the oldest entries beyond the limit', () => {
+        const history = new JumpHistory<number>(2);
+        [1, 2, 3].forEach((position) => history.push(position));
+
+        expect(history.back(4)).toBe(3);
+        expect(history.back(3)).toBe(2);
+        expect(history.canGoBack).toBe(false);
+    });
+
+    it('maps entries in both directions', () => {
+        const history = new JumpHistory<number>();
+        history.push(1);
+        history.push(2);
+        history.back(3);
+
+        history.map((position) => position * 10);
+        expect(history.back(0)).toBe(10);
+        expect(history.forward(10)).toBe(0);
+        expect(history.forward(0)).toBe(30);
+    });
+});
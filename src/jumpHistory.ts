@@ -0,0 +1,74 @@
+/**
+ * Back/forward history of heading jumps, like an IDE's navigate back/forward.
+ *
+ * Jumping pushes the position being left onto the back stack and clears the forward stack.
+ * Going back or forward swaps the current position with the top of the opposite stack, so
+ * alternating back/forward walks the same positions. Entries are opaque to the history; the
+ * content script stores selections and scroll snapshots and maps them through document edits.
+ *
+ * See:
+ * - contentScripts/headingNavigator.ts - Keeps one history per note
+ */
+
+// Oldest entries are dropped beyond this many back steps
+export const MAX_JUMP_HISTORY = 50;
+
+export class JumpHistory<T> {
+    private backStack: T[] = [];
+    private forwardStack: T[] = [];
+
+    constructor(private readonly maxEntries = MAX_JUMP_HISTORY) {}
+
+    get canGoBack(): boolean {
+        return this.backStack.length > 0;
+    }
+
+    get canGoForward(): boolean {
+        return this.forwardStack.length > 0;
+    }
+
+    /**
+     * Records a jump away from `from`.
+     */
+    push(from: T): void {
+        this.backStack.push(from);
+        if (this.backStack.length > this.maxEntries) {
+            this.backStack.shift();
+        }
+        this.forwardStack = [];
+    }
+
+    /**
+     * @param current - Position to return to with `forward()`
+     * @returns The position to go back to, or null when there is none
+     */
+    back(current: T): T | null {
+        const entry = this.backStack.pop();
+        if (entry === undefined) {
+            return null;
+        }
+        this.forwardStack.push(current);
+        return entry;
+    }
+
+    /**
+     * @param current - Position to return to with `back()`
+     * @returns The position to go forward to, or null when there is none
+     */
+    forward(current: T): T | null {
+        const entry = this.forwardStack.pop();
+        if (entry === undefined) {
+            return null;
+        }
+        this.backStack.push(current);
+        return entry;
+    }
+
+    /**
+     * Rewrites every entry, e.g. to map positions through a document change.
+     */
+    map(mapEntry: (entry: T) => T): void {
+        this.backStack = this.backStack.map(mapEntry);
+        this.forwardStack = this.forwardStack.map(mapEntry);
+    }
+}
@@ -1,4 +1,12 @@
-import { escapeLinkText, formatHeadingLink } from './linkFormatting';
+import type { HeadingLinkOptions } from './types';
+import { DEFAULT_HEADING_LINK_OPTIONS } from './types';
+import {
+    HEADING_LINK_PRESETS,
+    escapeLinkText,
+    normalizeHeadingLinkOptions,
+    renderLinkTemplate,
+    resolveLinkTemplate,
+} from './linkFormatting';
 
 describe('escapeLinkText', () => {
     it('escapes square brackets', () => {
@@ -27,29 +35,102 @@ describe('escapeLinkText', () => {
     });
 });
 
-describe('formatHeadingLink', () => {
+describe('headingAtNote preset', () => {
+    const formatDefault = (heading: string, note: string, noteId: string, anchor: string) =>
+        renderLinkTemplate(HEADING_LINK_PRESETS.headingAtNote, { heading, note, noteId, anchor });
+
     it('formats heading link with note title', () => {
-        const result = formatHeadingLink('Usage', 'Guide', 'abc123', 'usage');
+        const result = formatDefault('Usage', 'Guide', 'abc123', 'usage');
         expect(result).toBe('[Usage @ Guide](:/abc123#usage)');
     });
 
     it('escapes special characters in heading and note title', () => {
-        const result = formatHeadingLink('[API]', '[Docs]', 'abc', 'api');
+        const result = formatDefault('[API]', '[Docs]', 'abc', 'api');
         expect(result).toBe('[\\[API\\] @ \\[Docs\\]](:/abc#api)');
     });
 
     it('escapes HTML tags in heading and note title', () => {
-        const result = formatHeadingLink('<div>', 'Section & Links', 'note', 'div');
+        const result = formatDefault('<div>', 'Section & Links', 'note', 'div');
         expect(result).toBe('[\\<div\\> @ Section \\& Links](:/note#div)');
     });
 
     it('handles headings with backslashes', () => {
-        const result = formatHeadingLink('Path\\to\\file', 'Note\\Title', 'id123', 'path-to-file');
+        const result = formatDefault('Path\\to\\file', 'Note\\Title', 'id123', 'path-to-file');
         expect(result).toBe('[Path\\\\to\\\\file @ Note\\\\Title](:/id123#path-to-file)');
     });
 
     it('formats link with special anchor characters', () => {
-        const result = formatHeadingLink('Hello World', 'My Note', 'xyz', 'hello-world-2');
+        const result = formatDefault('Hello World', 'My Note', 'xyz', 'hello-world-2');
         expect(result).toBe('[Hello World @ My Note](:/xyz#hello-world-2)');
     });
 });
+
+describe('renderLinkTemplate', () => {
+    const values = {
+        heading: 'Install & Configure',
+        note: 'Setup [Linux]',
+        noteId: 'abc',
+        anchor: 'install-configure',
+        ancestors: ['Guide', 'Getting #1'],
+    };
+
+    it('renders the built-in presets', () => {
+        expect(renderLinkTemplate(HEADING_LINK_PRESETS.heading, values)).toBe(
+            '[Install \\& Configure](:/abc#install-configure)'
+        );
+        expect(renderLinkTemplate(HEADING_LINK_PRESETS.note, values)).toBe(
+            '[Setup \\[Linux\\]](:/abc#install-configure)'
+        );
+        expect(renderLinkTemplate(HEADING_LINK_PRESETS.noteAndHeading, values)).toBe(
+            '[Setup \\[Linux\\] > Install \\& Configure](:/abc#install-configure)'
+        );
+        expect(renderLinkTemplate(HEADING_LINK_PRESETS.anchor, values)).toBe('#install-configure');
+    });
+
+    it('removes wiki link syntax characters from wiki links', () => {
+        expect(renderLinkTemplate(HEADING_LINK_PRESETS.wiki, values)).toBe('[[Setup Linux#Install & Configure]]');
+    });
+
+    it('escapes HTML links', () => {
+        expect(renderLinkTemplate(HEADING_LINK_PRESETS.html, { ...values, heading: '"A" <b> & \'c\'' })).toBe(
+            '<a href=":/abc#install-configure">&quot;A&quot; &lt;b&gt; &amp; &#39;c&#39;</a>'
+        );
+    });
+
+    it('fills in the heading path', () => {
+        expect(renderLinkTemplate({ template: '{path}', format: 'plain' }, values)).toBe(
+            'Guide > Getting #1 > Install & Configure'
+        );
+        expect(renderLinkTemplate({ template: '{path}', format: 'plain' }, { ...values, ancestors: undefined })).toBe(
+            'Install & Configure'
+        );
+    });
+
+    it('leaves unknown placeholders untouched and replaces repeated ones', () => {
+        expect(renderLinkTemplate({ template: '{title} {anchor}/{anchor}', format: 'markdown' }, values)).toBe(
+            '{title} install-configure/install-configure'
+        );
+    });
+});
+
+describe('link options', () => {
+    it('falls back to defaults for invalid values', () => {
+        expect(
+            normalizeHeadingLinkOptions({
+                style: 'fancy' as HeadingLinkOptions['style'],
+                customTemplate: '  ',
+                customFormat: 'rtf' as HeadingLinkOptions['customFormat'],
+            })
+        ).toEqual(DEFAULT_HEADING_LINK_OPTIONS);
+    });
+
+    it('resolves custom templates and presets', () => {
+        const custom = normalizeHeadingLinkOptions({
+            style: 'custom',
+            customTemplate: '{heading}',
+            customFormat: 'html',
+        });
+        expect(resolveLinkTemplate(custom)).toEqual({ template: '{heading}', format: 'html' });
+        expect(resolveLinkTemplate({ ...custom, style: 'wiki' })).toBe(HEADING_LINK_PRESETS.wiki);
+    });
+});
@@ -1,16 +1,72 @@
 /**
  * Utilities for formatting Joplin note links to headings.
  *
- * Creates markdown links in Joplin's internal link format: `[label](:/noteId#anchor)`
+ * By default creates markdown links in Joplin's internal link format: `[label](:/noteId#anchor)`
  * Used by the copy-to-clipboard feature to generate shareable heading links.
  *
+ * Links can also be rendered from templates with the placeholders `{heading}`, `{note}`,
+ * `{noteId}`, `{anchor}` and `{path}` (ancestor headings and the heading, joined with " > ").
+ * Each template has an output format that decides how placeholder values are escaped:
+ * - `markdown`: link-text escaping (see `escapeLinkText`)
+ * - `wiki`: characters with meaning inside `[[...]]` (`[`, `]`, `|`, `#`) are replaced by spaces
+ * - `html`: HTML entity escaping
+ * - `plain`: no escaping
+ *
  * @example
  * ```typescript
- * formatHeadingLink('Introduction', 'My Note', 'abc123', 'introduction')
+ * renderLinkTemplate(HEADING_LINK_PRESETS.headingAtNote, {
+ *     heading: 'Introduction',
+ *     note: 'My Note',
+ *     noteId: 'abc123',
+ *     anchor: 'introduction',
+ * })
  * // Returns: "[Introduction @ My Note](:/abc123#introduction)"
  * ```
  */
 
+import type { HeadingLinkOptions, HeadingLinkStyle, LinkTemplateFormat } from './types';
+import { DEFAULT_HEADING_LINK_OPTIONS } from './types';
+
+export interface HeadingLinkTemplate {
+    template: string;
+    format: LinkTemplateFormat;
+}
+
+export interface HeadingLinkValues {
+    heading: string;
+    note: string;
+    noteId: string;
+    anchor: string;
+    /** Ancestor heading texts, outermost first */
+    ancestors?: string[];
+}
+
+export const HEADING_LINK_STYLES: readonly HeadingLinkStyle[] = [
+    'headingAtNote',
+    'heading',
+    'note',
+    'noteAndHeading',
+    'wiki',
+    'anchor',
+    'html',
+    'custom',
+];
+
+export const LINK_TEMPLATE_FORMATS: readonly LinkTemplateFormat[] = ['markdown', 'wiki', 'html', 'plain'];
+
+export const HEADING_LINK_PRESETS: Record<Exclude<HeadingLinkStyle, 'custom'>, HeadingLinkTemplate> = {
+    headingAtNote: { template: '[{heading} @ {note}](:/{noteId}#{anchor})', format: 'markdown' },
+    heading: { template: '[{heading}](:/{noteId}#{anchor})', format: 'markdown' },
+    note: { template: '[{note}](:/{noteId}#{anchor})', format: 'markdown' },
+    noteAndHeading: { template: '[{note} > {heading}](:/{noteId}#{anchor})', format: 'markdown' },
+    wiki: { template: '[[{note}#{heading}]]', format: 'wiki' },
+    anchor: { template: '#{anchor}', format: 'plain' },
+    html: { template: '<a href=":/{noteId}#{anchor}">{heading}</a>', format: 'html' },
+};
+
+const PATH_SEPARATOR = ' > ';
+const PLACEHOLDER_PATTERN = /\{(heading|note|noteId|anchor|path)\}/g;
+
 // Backslashes, brackets: Required by Markdown syntax
 // HTML chars (<, >, &): Prevents Joplin from rendering HTML tags in link text
 export function escapeLinkText(text: string): string {
@@ -23,13 +79,86 @@ export function escapeLinkText(text: string): string {
         .replace(/\]/g, '\\]');
 }
 
-export function formatHeadingLink(
-    headingText: string,
-    noteTitle: string,
-    noteId: string,
-    headingAnchor: string
-): string {
-    const label = `${escapeLinkText(headingText)} @ ${escapeLinkText(noteTitle)}`;
-    const target = `:/${noteId}#${headingAnchor}`;
-    return `[${label}](${target})`;
+function escapeWikiText(text: string): string {
+    return text
+        .replace(/[[\]|#]/g, ' ')
+        .replace(/\s{2,}/g, ' ')
+        .trim();
+}
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function escapeText(text: string, format: LinkTemplateFormat): string {
+    switch (format) {
+        case 'markdown':
+            return escapeLinkText(text);
+        case 'wiki':
+            return escapeWikiText(text);
+        case 'html':
+            return escapeHtml(text);
+        case 'plain':
+        default:
+            return text;
+    }
+}
+
+/**
+ * Renders a link template, escaping each placeholder value for the template's format.
+ *
+ * Ids and anchors are URL-safe already and only escaped for HTML. Unknown placeholders are
+ * left as written.
+ */
+export function renderLinkTemplate(linkTemplate: HeadingLinkTemplate, values: HeadingLinkValues): string {
+    const { template, format } = linkTemplate;
+    const path = [...(values.ancestors ?? []), values.heading].join(PATH_SEPARATOR);
+
+    return template.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+        switch (name) {
+            case 'heading':
+                return escapeText(values.heading, format);
+            case 'note':
+                return escapeText(values.note, format);
+            case 'path':
+                return escapeText(path, format);
+            case 'noteId':
+                return format === 'html' ? escapeHtml(values.noteId) : values.noteId;
+            case 'anchor':
+            default:
+                return format === 'html' ? escapeHtml(values.anchor) : values.anchor;
+        }
+    });
+}
+
+export function normalizeHeadingLinkOptions(options?: Partial<HeadingLinkOptions>): HeadingLinkOptions {
+    const defaults = DEFAULT_HEADING_LINK_OPTIONS;
+    const style = options?.style;
+    const customTemplate = options?.customTemplate;
+    const customFormat = options?.customFormat;
+
+    return {
+        style: typeof style === 'string' && HEADING_LINK_STYLES.includes(style) ? style : defaults.style,
+        customTemplate:
+            typeof customTemplate === 'string' && customTemplate.trim() ? customTemplate : defaults.customTemplate,
+        customFormat:
+            typeof customFormat === 'string' && LINK_TEMPLATE_FORMATS.includes(customFormat)
+                ? customFormat
+                : defaults.customFormat,
+    };
+}
+
+/**
+ * Returns the template to use for the given link options.
+ */
+export function resolveLinkTemplate(options: HeadingLinkOptions): HeadingLinkTemplate {
+    if (options.style === 'custom') {
+        return { template: options.customTemplate, format: options.customFormat };
+    }
+    return HEADING_LINK_PRESETS[options.style];
 }
@@ -4,17 +4,236 @@
  * The content script runs in Joplin's CodeMirror editor context and cannot directly
  * access Joplin APIs (clipboard, data store, etc.). Messages defined here are sent
  * via the postMessage bridge to the plugin host, which handles the actual operations.
+ * The host's return value is delivered back to the content script as the result of
+ * `postMessage`, so messages can also be used to query host-side state such as settings.
+ *
+ * The Markdown viewer script uses a separate set of messages (`ViewerToPluginMessage`).
  *
  * See:
  * - headingNavigator.ts - Content script that sends these messages
+ * - viewer/headingNavigatorViewer.js - Viewer script that sends the viewer messages
  * - index.ts - Plugin host that receives and processes messages
  */
 
+import type { HeadingFilterMode, HeadingItem, HeadingReference } from './types';
+import type { OutlineNumberingAction } from './outlineNumbering';
+import type { RenderedHeading } from './viewerNavigation';
+
 export interface CopyHeadingLinkMessage {
     type: 'copyHeadingLink';
     noteId: string;
     headingText: string;
     headingAnchor: string;
+    /** Texts of the heading's ancestors, outermost first (for the `{path}` placeholder) */
+    headingPath?: string[];
+}
+
+/**
+ * Asks the host to copy a section (heading plus body) in the configured section copy format.
+ */
+export interface CopySectionMessage {
+    type: 'copySection';
+    /** Section Markdown as written in the note */
+    markdown: string;
+    /** Section Markdown with heading levels shifted so the section heading is H1 */
+    rebasedMarkdown: string;
+}
+
+/**
+ * Requests the current table-of-contents settings; answered with `TableOfContentsOptions`.
+ */
+export interface GetTableOfContentsOptionsMessage {
+    type: 'getTableOfContentsOptions';
+}
+
+/**
+ * Requests whether the breadcrumb bar is turned on; answered with a boolean. Later changes of
+ * the setting are pushed to the editor with the set-breadcrumb-bar command.
+ */
+export interface GetBreadcrumbBarEnabledMessage {
+    type: 'getBreadcrumbBarEnabled';
+}
+
+/**
+ * Requests whether the outline sidebar is visible, so a newly mounted editor starts syncing
+ * without waiting for the host; answered with a boolean.
+ */
+export interface GetOutlineVisibleMessage {
+    type: 'getOutlineVisible';
+}
+
+/**
+ * Full heading list for the outline sidebar, sent when syncing starts and after edits.
+ */
+export interface OutlineUpdateMessage {
+    type: 'outlineUpdate';
+    noteId: string | null;
+    headings: HeadingItem[];
+    activeHeadingId: string | null;
+}
+
+/**
+ * Sent when the cursor moves into another heading's section.
+ */
+export interface OutlineActiveHeadingMessage {
+    type: 'outlineActiveHeading';
+    noteId: string | null;
+    activeHeadingId: string | null;
+}
+
+/**
+ * Requests the note's pinned headings; answered with `HeadingReference[]`.
+ */
+export interface GetPinnedHeadingsMessage {
+    type: 'getPinnedHeadings';
+    noteId: string;
+}
+
+/**
+ * Replaces the note's pinned headings.
+ */
+export interface SavePinnedHeadingsMessage {
+    type: 'savePinnedHeadings';
+    noteId: string;
+    pins: HeadingReference[];
+}
+
+/**
+ * Requests the note's recently visited headings, most recent first; answered with
+ * `HeadingReference[]`.
+ */
+export interface GetRecentHeadingsMessage {
+    type: 'getRecentHeadings';
+    noteId: string;
+}
+
+/**
+ * Replaces the note's recently visited headings.
+ */
+export interface SaveRecentHeadingsMessage {
+    type: 'saveRecentHeadings';
+    noteId: string;
+    headings: HeadingReference[];
+}
+
+/**
+ * Asks the host to preview a heading rename and the links it changes in other notes; answered
+ * with true when the rename should be applied in the editor. The links are only updated once the
+ * editor has applied it (`UpdateHeadingLinksMessage`).
+ */
+export interface RenameHeadingMessage {
+    type: 'renameHeading';
+    noteId: string;
+    oldText: string;
+    newText: string;
+    /** Old anchor → new anchor, for every heading whose anchor changes */
+    renamedAnchors: [string, string][];
+    /** Links in the renamed note itself that the editor updates along with the heading */
+    sameNoteLinkCount: number;
+}
+
+/**
+ * Sent after the editor renamed headings (by a rename or outline numbering): the host points the
+ * links in other notes at the new anchors. Answered with the number of notes updated.
+ */
+export interface UpdateHeadingLinksMessage {
+    type: 'updateHeadingLinks';
+    noteId: string;
+    /** Old anchor → new anchor, as applied in the editor */
+    renamedAnchors: [string, string][];
+}
+
+/**
+ * Asks the host to preview the links in other notes to headings whose anchors change with outline
+ * numbering; answered with true when the numbering should be applied in the editor. The links are
+ * only updated once the editor has applied it (`UpdateHeadingLinksMessage`).
+ */
+export interface OutlineNumberingMessage {
+    type: 'outlineNumbering';
+    noteId: string;
+    action: OutlineNumberingAction;
+    /** Old anchor → new anchor, for every heading whose anchor changes */
+    renamedAnchors: [string, string][];
+    /** Links in the note itself that the editor updates along with the headings */
+    sameNoteLinkCount: number;
+}
+
+/**
+ * Requests the number of other notes linking to each heading of a note; answered with
+ * `HeadingBacklinkCount[]` (headings without backlinks are left out).
+ */
+export interface GetHeadingBacklinkCountsMessage {
+    type: 'getHeadingBacklinkCounts';
+    noteId: string;
+}
+
+/**
+ * Asks the host to list the links to a heading and open the one the user picks.
+ */
+export interface ShowHeadingBacklinksMessage {
+    type: 'showHeadingBacklinks';
+    noteId: string;
+    anchor: string;
+    headingText: string;
+}
+
+export type ContentScriptToPluginMessage =
+    | CopyHeadingLinkMessage
+    | CopySectionMessage
+    | GetTableOfContentsOptionsMessage
+    | GetBreadcrumbBarEnabledMessage
+    | GetOutlineVisibleMessage
+    | GetPinnedHeadingsMessage
+    | SavePinnedHeadingsMessage
+    | GetRecentHeadingsMessage
+    | SaveRecentHeadingsMessage
+    | RenameHeadingMessage
+    | UpdateHeadingLinksMessage
+    | OutlineNumberingMessage
+    | GetHeadingBacklinkCountsMessage
+    | ShowHeadingBacklinksMessage
+    | OutlineUpdateMessage
+    | OutlineActiveHeadingMessage;
+
+/**
+ * Long-poll request from the viewer script; answered with the next `ViewerCommand` (or null
+ * when the poll times out).
+ */
+export interface WaitForViewerCommandMessage {
+    type: 'waitForCommand';
+}
+
+/**
+ * Filters the viewer's rendered headings; answered with `RenderedHeadingMatch[]`.
+ */
+export interface FilterRenderedHeadingsMessage {
+    type: 'filterHeadings';
+    query: string;
+    mode: HeadingFilterMode;
+    headings: RenderedHeading[];
+}
+
+/**
+ * Copy request from the viewer, which doesn't know the note id (the selected note is used).
+ */
+export interface ViewerCopyHeadingLinkMessage {
+    type: 'copyHeadingLink';
+    headingText: string;
+    headingAnchor: string;
+    headingPath?: string[];
+}
+
+/**
+ * Error in the viewer script, which has no logger of its own; logged by the host.
+ */
+export interface ViewerErrorMessage {
+    type: 'reportError';
+    message: string;
+    error: string;
 }
 
-export type ContentScriptToPluginMessage = CopyHeadingLinkMessage;
+export type ViewerToPluginMessage =
+    | WaitForViewerCommandMessage
+    | FilterRenderedHeadingsMessage
+    | ViewerCopyHeadingLinkMessage
+    | ViewerErrorMessage;
@@ -0,0 +1,64 @@
+/**
+ * Reading notes through Joplin's data API, for the host features that work across notes.
+ *
+ * The broken link check, backlinks, link updates after a rename and the global heading search
+ * all read note bodies and skip notes whose headings don't come from Markdown.
+ *
+ * See:
+ * - globalHeadingSearch.ts, headingLinkCheck.ts, headingBacklinks.ts, headingLinkUpdates.ts
+ */
+
+import joplin from 'api';
+import type { Path } from 'api/types';
+
+export const NOTE_FIELDS = ['id', 'title', 'body', 'markup_language', 'is_conflict', 'deleted_time'];
+const PAGE_SIZE = 100;
+
+// Value from Joplin's data model (not exported by the plugin API types)
+const MARKUP_LANGUAGE_HTML = 2;
+
+export interface NoteEntity {
+    id: string;
+    title?: string;
+    body?: string;
+    markup_language?: number;
+    is_conflict?: number;
+    deleted_time?: number;
+}
+
+export function isHtmlNote(note: NoteEntity): boolean {
+    return note.markup_language === MARKUP_LANGUAGE_HTML;
+}
+
+/**
+ * Whether the note's headings can be read and linked to: a Markdown note that is neither a
+ * conflict copy nor in the trash.
+ */
+export function isMarkdownNote(note: NoteEntity): boolean {
+    return !isHtmlNote(note) && !note.is_conflict && !note.deleted_time;
+}
+
+export async function loadNote(noteId: string, fields: string[] = NOTE_FIELDS): Promise<NoteEntity> {
+    return (await joplin.data.get(['notes', noteId], { fields })) as NoteEntity;
+}
+
+/**
+ * Reads every page of a note listing (`notes`, `folders/:id/notes`, `search`, ...) with the
+ * fields in `NOTE_FIELDS`, handing each page to `visit`.
+ *
+ * @param query - Extra query parameters, such as the search query
+ */
+export async function forEachNotePage(
+    path: Path,
+    query: Record<string, unknown>,
+    visit: (notes: NoteEntity[]) => void
+): Promise<void> {
+    let page = 1;
+    let hasMore = true;
+    while (hasMore) {
+        const response = await joplin.data.get(path, { ...query, fields: NOTE_FIELDS, limit: PAGE_SIZE, page });
+        visit(response.items as NoteEntity[]);
+        hasMore = Boolean(response.has_more);
+        page++;
+    }
+}
@@ -0,0 +1,47 @@
+import { NoteHeadingIndex } from './noteHeadingIndex';
+
+function createIndex(): NoteHeadingIndex {
+    const index = new NoteHeadingIndex();
+    index.setNote('b', 'Server', '# Setup\n## Linux\n## Windows');
+    index.setNote('a', 'Desktop', '# Install & Configure\n## Linux');
+    return index;
+}
+
+describe('NoteHeadingIndex', () => {
+    it('finds headings across notes with their note and ancestors', () => {
+        const results = createIndex().search('linux', 'substring', 10);
+
+        expect(results.map((result) => [result.noteTitle, result.heading.text, result.path])).toEqual([
+            ['Desktop', 'Linux', ['Install & Configure']],
+            ['Server', 'Linux', ['Setup']],
+        ]);
+        expect(results[0].indices).toEqual([0, 1, 2, 3, 4]);
+    });
+
+    it('ranks fuzzy matches by score across notes', () => {
+        const results = createIndex().search('instcfg', 'fuzzy', 10);
+        expect(results).toHaveLength(1);
+        expect(results[0]).toMatchObject({ noteId: 'a', heading: { anchor: 'install-configure' } });
+    });
+
+    it('supports breadcrumb path queries within a note', () => {
+        const results = createIndex().search('setup > linux', 'fuzzy', 10);
+        expect(results[0]).toMatchObject({ noteId: 'b', heading: { text: 'Linux' } });
+    });
+
+    it('limits results and returns nothing for an empty query', () => {
+        const index = createIndex();
+        expect(index.search('n', 'substring', 2)).toHaveLength(2);
+        expect(index.search('  ', 'fuzzy', 10)).toEqual([]);
+    });
+
+    it('replaces and removes notes', () => {
+        const index = createIndex();
+        index.setNote('b', 'Server', '# Deploy');
+        expect(index.search('linux', 'substring', 10).map((result) => result.noteId)).toEqual(['a']);
+
+        index.removeNote('a');
+        expect(index.size).toBe(1);
+        expect(index.search('linux', 'substring', 10)).toEqual([]);
+    });
+});
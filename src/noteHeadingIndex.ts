@@ -0,0 +1,103 @@
+/**
+ * In-memory heading index across notes, used by the global heading search.
+ *
+ * Stores only the extracted headings (not note bodies) per note id, so indexing thousands of
+ * notes stays light. Callers keep it current by upserting/removing individual notes as they
+ * change; nothing here talks to Joplin's data API.
+ *
+ * Searching reuses `filterHeadings` per note, so matching (fuzzy scoring, breadcrumb paths,
+ * highlight indices) behaves exactly like the in-note panel.
+ */
+
+import type { HeadingFilterMode, HeadingItem } from './types';
+import { extractHeadings } from './headingExtractor';
+import { filterHeadings } from './headingFilter';
+import { buildHeadingTree, getAncestors } from './headingTree';
+
+export interface IndexedNote {
+    id: string;
+    title: string;
+    headings: HeadingItem[];
+}
+
+export interface NoteHeadingMatch {
+    noteId: string;
+    noteTitle: string;
+    heading: HeadingItem;
+    /** Ancestor heading texts, outermost first */
+    path: string[];
+    score: number;
+    indices: number[];
+}
+
+export class NoteHeadingIndex {
+    private readonly notes = new Map<string, IndexedNote>();
+
+    get size(): number {
+        return this.notes.size;
+    }
+
+    has(noteId: string): boolean {
+        return this.notes.has(noteId);
+    }
+
+    /**
+     * Adds or replaces a note, extracting its headings from `body`.
+     */
+    setNote(id: string, title: string, body: string): void {
+        this.notes.set(id, { id, title, headings: extractHeadings(body) });
+    }
+
+    removeNote(id: string): void {
+        this.notes.delete(id);
+    }
+
+    clear(): void {
+        this.notes.clear();
+    }
+
+    /**
+     * Searches headings in every indexed note.
+     *
+     * Fuzzy results are ranked by score across notes (ties keep note title order, then document
+     * order); other modes are ordered by note title and document order.
+     *
+     * @param query - Filter text; an empty query returns nothing rather than every heading
+     * @param mode - Matching mode shared with the panel
+     * @param limit - Maximum number of results
+     */
+    search(query: string, mode: HeadingFilterMode, limit: number): NoteHeadingMatch[] {
+        if (!query.trim()) {
+            return [];
+        }
+
+        const notes = [...this.notes.values()].sort((a, b) => a.title.localeCompare(b.title));
+        const results: NoteHeadingMatch[] = [];
+
+        for (const note of notes) {
+            const matches = filterHeadings(note.headings, query, mode);
+            if (!matches.length) {
+                continue;
+            }
+
+            const tree = buildHeadingTree(note.headings);
+            for (const match of matches) {
+                results.push({
+                    noteId: note.id,
+                    noteTitle: note.title,
+                    heading: match.heading,
+                    path: getAncestors(tree, match.heading.id).map((ancestor) => ancestor.text),
+                    score: match.score,
+                    indices: match.indices,
+                });
+            }
+        }
+
+        if (mode === 'fuzzy') {
+            // Array.prototype.sort is stable, so equal scores keep title/document order
+            results.sort((a, b) => b.score - a.score);
+        }
+
+        return results.slice(0, limit);
+    }
+}
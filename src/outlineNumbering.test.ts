@@ -0,0 +1,80 @@
+import { extractHeadings } from './headingExtractor';
+import type { TextChange } from './headingSections';
+import { computeOutlineNumberingChanges, computeOutlineNumbers, stripOutlineNumber } from './outlineNumbering';
+
+function applyChanges(source: string, changes: TextChange[]): string {
+    return [...changes]
+        .reverse()
+        .reduce((result, change) => result.slice(0, change.from) + change.insert + result.slice(change.to), source);
+}
+
+function headingLines(content: string): string[] {
+    return content.split('\n').filter((line) => line.startsWith('#'));
+}
+
+describe('stripOutlineNumber', () => {
+    it('removes outline numbers but keeps other leading numbers', () => {
+        expect(stripOutlineNumber('1. Introduction')).toBe('Introduction');
+        expect(stripOutlineNumber('1.2.3 Details')).toBe('Details');
+        expect(stripOutlineNumber('2.1. Scope')).toBe('Scope');
+        expect(stripOutlineNumber('2024 Plans')).toBe('2024 Plans');
+        expect(stripOutlineNumber('1.5x faster')).toBe('1.5x faster');
+    });
+});
+
+describe('computeOutlineNumbers', () => {
+    it('numbers headings by depth, skipping a lone title heading', () => {
+        const headings = extractHeadings('# Spec\n## Intro\n### Scope\n#### Deep\n### Terms\n## Design\n##### Skipped');
+        const numbers = computeOutlineNumbers(headings);
+
+        expect(headings.map((heading) => numbers.get(heading.id))).toEqual([
+            undefined,
+            '1.',
+            '1.1',
+            '1.1.1',
+            '1.2',
+            '2.',
+            '2.1',
+        ]);
+    });
+
+    it('numbers every top-level heading when there are several', () => {
+        const headings = extractHeadings('# One\n## Sub\n# Two');
+        const numbers = computeOutlineNumbers(headings);
+
+        expect(headings.map((heading) => numbers.get(heading.id))).toEqual(['1.', '1.1', '2.']);
+    });
+});
+
+describe('computeOutlineNumberingChanges', () => {
+    const content = '# Spec\n## 2. Intro\n### Scope\nbody\n## 1. Design\n';
+
+    it('writes and updates numbers, leaving correct ones untouched', () => {
+        const headings = extractHeadings(content);
+        const changes = computeOutlineNumberingChanges(content, headings, 'number');
+
+        expect(changes).toHaveLength(3);
+        expect(headingLines(applyChanges(content, changes))).toEqual([
+            '# Spec',
+            '## 1. Intro',
+            '### 1.1 Scope',
+            '## 2. Design',
+        ]);
+    });
+
+    it('strips numbers', () => {
+        const headings = extractHeadings(content);
+        const result = applyChanges(content, computeOutlineNumberingChanges(content, headings, 'strip'));
+
+        expect(headingLines(result)).toEqual(['# Spec', '## Intro', '### Scope', '## Design']);
+    });
+
+    it('escapes the dot in Setext headings so they stay headings', () => {
+        const setext = 'One\n===\n\nTwo\n===\n';
+        const result = applyChanges(setext, computeOutlineNumberingChanges(setext, extractHeadings(setext), 'number'));
+
+        expect(result).toBe('1\\. One\n===\n\n2\\. Two\n===\n');
+        expect(extractHeadings(result).map((heading) => heading.text)).toEqual(['1. One', '2. Two']);
+        expect(computeOutlineNumberingChanges(result, extractHeadings(result), 'number')).toEqual([]);
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Hierarchical outline numbers for headings (1., 1.1, 1.2.3).
+ *
+ * Numbers follow the heading tree from `headingTree.ts`, so skipped levels (an H4 directly
+ * below an H2) don't produce empty segments. When a note has a single top-level heading, it is
+ * treated as the note title and left unnumbered; its subheadings are numbered from 1.
+ *
+ * Written numbers are a prefix of the heading text followed by a space. Single-segment numbers
+ * end with a dot ("1. Introduction") so that years and other leading numbers ("2024 Plans") are
+ * not mistaken for outline numbers; in Setext headings the dot is escaped ("1\. ") because the
+ * line would otherwise become an ordered list item.
+ *
+ * See:
+ * - headingTree.ts - Hierarchy the numbers are derived from
+ * - headingExtractor.ts - Can generate anchors that ignore the number prefix
+ * - headingLinks.ts - Updates links to headings whose anchors change when renumbering
+ */
+
+import type { HeadingItem } from './types';
+import type { TextChange } from './headingSections';
+import { buildHeadingTree } from './headingTree';
+
+export type OutlineNumberingAction = 'number' | 'strip';
+
+// Number prefix of normalized heading text (escapes already resolved by the extractor)
+const TEXT_NUMBER_PATTERN = /^(?:\d+(?:\.\d+)+\.?|\d+\.)\s+(?=\S)/;
+
+// Number prefix as written in the Markdown source, including the escaped dot used in Setext headings
+const SOURCE_NUMBER_PATTERN = /^(?:\d+(?:\.\d+)+\.?|\d+\\?\.)[ \t]+(?=\S)/;
+
+export function formatOutlineNumber(segments: number[]): string {
+    const number = segments.join('.');
+    return segments.length === 1 ? `${number}.` : number;
+}
+
+/**
+ * Removes a leading outline number ("1.2 Setup" → "Setup").
+ */
+export function stripOutlineNumber(text: string): string {
+    return text.replace(TEXT_NUMBER_PATTERN, '');
+}
+
+/**
+ * Computes the outline number of each heading.
+ *
+ * @returns Map of heading ids to formatted numbers; a lone top-level heading has no entry
+ */
+export function computeOutlineNumbers(headings: HeadingItem[]): Map<string, string> {
+    const tree = buildHeadingTree(headings);
+    const roots = headings.filter((heading) => tree.get(heading.id)?.parentId === null);
+    const titleId = roots.length === 1 ? roots[0].id : null;
+    const numbers = new Map<string, string>();
+
+    const assign = (childIds: string[], prefix: number[]): void => {
+        childIds.forEach((id, index) => {
+            const segments = [...prefix, index + 1];
+            numbers.set(id, formatOutlineNumber(segments));
+            assign(tree.get(id)?.childIds ?? [], segments);
+        });
+    };
+
+    if (titleId) {
+        assign(tree.get(titleId)?.childIds ?? [], []);
+    } else {
+        assign(
+            roots.map((heading) => heading.id),
+            []
+        );
+    }
+
+    return numbers;
+}
+
+function isSetextHeading(content: string, heading: HeadingItem): boolean {
+    return content.slice(heading.from, heading.to).includes('\n');
+}
+
+// Offset where the heading text starts on its (first) line
+function findTextStart(content: string, heading: HeadingItem): number {
+    if (isSetextHeading(content, heading)) {
+        return heading.from;
+    }
+
+    let position = heading.from;
+    while (content[position] === '#') {
+        position++;
+    }
+    while (content[position] === ' ' || content[position] === '\t') {
+        position++;
+    }
+    return position;
+}
+
+/**
+ * Computes the edits that write (or update) outline numbers in the heading text, or remove them.
+ *
+ * Headings whose prefix is already correct are left untouched, so renumbering after moving a
+ * section only changes the headings whose number changed.
+ *
+ * @param content - Markdown document the headings were extracted from
+ * @param headings - Headings in document order
+ * @param action - `number` to write numbers, `strip` to remove them
+ * @returns Changes in document order
+ */
+export function computeOutlineNumberingChanges(
+    content: string,
+    headings: HeadingItem[],
+    action: OutlineNumberingAction
+): TextChange[] {
+    const numbers = action === 'number' ? computeOutlineNumbers(headings) : new Map<string, string>();
+    const changes: TextChange[] = [];
+
+    headings.forEach((heading) => {
+        const textStart = findTextStart(content, heading);
+        const lineEnd = content.indexOf('\n', textStart);
+        const line = content.slice(textStart, lineEnd < 0 ? content.length : lineEnd);
+        const existing = SOURCE_NUMBER_PATTERN.exec(line)?.[0] ?? '';
+
+        let prefix = '';
+        const number = numbers.get(heading.id);
+        if (number) {
+            prefix = `${isSetextHeading(content, heading) ? number.replace(/\.$/, '\\.') : number} `;
+        }
+
+        if (existing !== prefix) {
+            changes.push({ from: textStart, to: textStart + existing.length, insert: prefix });
+        }
+    });
+
+    return changes;
+}
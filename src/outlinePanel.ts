@@ -0,0 +1,203 @@
+/**
+ * Dockable outline sidebar for the plugin host.
+ *
+ * Shows the current note's headings in a `joplin.views.panels` webview, highlights the heading
+ * whose section contains the cursor, and navigates the editor when a heading is clicked.
+ *
+ * Data flow:
+ * - The content script's `OutlineSync` posts `outlineUpdate` / `outlineActiveHeading` messages
+ *   while syncing is enabled; the host enables it (via an editor command) only while the
+ *   sidebar is visible, and a newly mounted editor asks whether the sidebar is visible.
+ * - The host forwards the state to the webview (`panels/outline.js`) with `panels.postMessage`;
+ *   the webview pulls the current state when it (re)loads and posts clicks back to the host.
+ *
+ * Visibility is persisted so the sidebar is restored on startup.
+ *
+ * See:
+ * - contentScripts/outlineSync.ts - Editor-side sync
+ * - messages.ts - Message protocol definitions
+ */
+
+import joplin from 'api';
+import { EDITOR_COMMAND_GO_TO_ANCHOR, EDITOR_COMMAND_SET_OUTLINE_SYNC, OUTLINE_PANEL_ID } from './constants';
+import type { HeadingItem, HeadingNavigationTarget } from './types';
+import type { OutlineActiveHeadingMessage, OutlineUpdateMessage } from './messages';
+import { buildHeadingTree } from './headingTree';
+import { loadOutlineVisible, saveOutlineVisible } from './settings';
+import logger from './logger';
+
+/**
+ * Heading as rendered by the webview.
+ */
+interface OutlineItem {
+    id: string;
+    text: string;
+    level: number;
+    anchor: string;
+    depth: number;
+}
+
+interface OutlineState {
+    noteId: string | null;
+    items: OutlineItem[];
+    activeHeadingId: string | null;
+}
+
+type OutlineWebviewMessage = { type: 'outlineReady' } | { type: 'outlineNavigate'; anchor: string };
+
+function toOutlineItems(headings: HeadingItem[]): OutlineItem[] {
+    const tree = buildHeadingTree(headings);
+    return headings.map((heading) => ({
+        id: heading.id,
+        text: heading.text,
+        level: heading.level,
+        anchor: heading.anchor,
+        depth: tree.get(heading.id)?.depth ?? 0,
+    }));
+}
+
+export class OutlinePanel {
+    private handle: string | null = null;
+    private visible = false;
+    private state: OutlineState = { noteId: null, items: [], activeHeadingId: null };
+
+    /**
+     * Restores the sidebar if it was open when Joplin was last closed.
+     */
+    async initialize(): Promise<void> {
+        if (await loadOutlineVisible()) {
+            await this.show();
+        }
+    }
+
+    isVisible(): boolean {
+        return this.visible;
+    }
+
+    async toggle(): Promise<void> {
+        if (this.visible) {
+            await this.hide();
+        } else {
+            await this.show();
+        }
+    }
+
+    async show(): Promise<void> {
+        const handle = await this.ensurePanel();
+        await joplin.views.panels.show(handle, true);
+        this.visible = true;
+        await saveOutlineVisible(true);
+        await this.setEditorSync(true);
+    }
+
+    async hide(): Promise<void> {
+        if (this.handle) {
+            await joplin.views.panels.hide(this.handle);
+        }
+        this.visible = false;
+        await saveOutlineVisible(false);
+        await this.setEditorSync(false);
+    }
+
+    /**
+     * Re-requests the headings after another note is selected; the editor may not have been
+     * mounted (e.g. in viewer-only layout) when syncing was last enabled.
+     */
+    async handleNoteSelectionChange(): Promise<void> {
+        if (!this.visible) {
+            return;
+        }
+
+        const note = await joplin.workspace.selectedNote();
+        if (!note || note.id !== this.state.noteId) {
+            this.setState({ noteId: note?.id ?? null, items: [], activeHeadingId: null });
+        }
+        await this.setEditorSync(true);
+    }
+
+    handleMessage(message: OutlineUpdateMessage | OutlineActiveHeadingMessage): void {
+        if (!this.visible) {
+            return;
+        }
+
+        if (message.type === 'outlineUpdate') {
+            this.setState({
+                noteId: message.noteId,
+                items: toOutlineItems(message.headings),
+                activeHeadingId: message.activeHeadingId,
+            });
+            return;
+        }
+
+        if (message.noteId === this.state.noteId) {
+            this.state.activeHeadingId = message.activeHeadingId;
+            this.post({ type: 'outlineActiveHeading', activeHeadingId: message.activeHeadingId });
+        }
+    }
+
+    private setState(state: OutlineState): void {
+        this.state = state;
+        this.post({ type: 'outlineState', ...state });
+    }
+
+    private post(message: Record<string, unknown>): void {
+        if (this.handle) {
+            joplin.views.panels.postMessage(this.handle, message);
+        }
+    }
+
+    private async ensurePanel(): Promise<string> {
+        if (this.handle) {
+            return this.handle;
+        }
+
+        const handle = await joplin.views.panels.create(OUTLINE_PANEL_ID);
+        await joplin.views.panels.setHtml(
+            handle,
+            `
+                <div class="outline">
+                    <div class="outline-title">Outline</div>
+                    <ul class="outline-list" role="tree"></ul>
+                    <p class="outline-empty">No headings</p>
+                </div>
+            `
+        );
+        await joplin.views.panels.addScript(handle, './panels/outline.css');
+        await joplin.views.panels.addScript(handle, './panels/outline.js');
+        await joplin.views.panels.onMessage(handle, async (message: OutlineWebviewMessage) => {
+            switch (message?.type) {
+                case 'outlineReady':
+                    return { type: 'outlineState', ...this.state };
+                case 'outlineNavigate':
+                    await this.navigate(message.anchor);
+                    return null;
+                default:
+                    return null;
+            }
+        });
+
+        this.handle = handle;
+        return handle;
+    }
+
+    private async navigate(anchor: string): Promise<void> {
+        const target: HeadingNavigationTarget = { noteId: this.state.noteId ?? undefined, anchor };
+        try {
+            await joplin.commands.execute('editor.execCommand', { name: EDITOR_COMMAND_GO_TO_ANCHOR, args: [target] });
+        } catch (error) {
+            logger.warn('Failed to navigate to heading from outline', error);
+        }
+    }
+
+    private async setEditorSync(enabled: boolean): Promise<void> {
+        try {
+            await joplin.commands.execute('editor.execCommand', {
+                name: EDITOR_COMMAND_SET_OUTLINE_SYNC,
+                args: [enabled],
+            });
+        } catch (error) {
+            // No markdown editor is mounted (rich text editor or viewer only); synced once it is
+            logger.debug('Could not update outline sync in the editor', error);
+        }
+    }
+}
@@ -0,0 +1,40 @@
+import { normalizePanelOptions } from './panelOptions';
+import { DEFAULT_PANEL_OPTIONS } from './types';
+
+describe('normalizePanelOptions', () => {
+    it('returns defaults when options are missing', () => {
+        expect(normalizePanelOptions()).toEqual(DEFAULT_PANEL_OPTIONS);
+    });
+
+    it('keeps valid options and replaces invalid ones', () => {
+        expect(
+            normalizePanelOptions({
+                width: 400,
+                maxHeightRatio: 2,
+                filterMode: 'substring',
+            })
+        ).toEqual({
+            ...DEFAULT_PANEL_OPTIONS,
+            width: 400,
+            maxHeightRatio: 0.9,
+            filterMode: 'substring',
+        });
+
+        expect(normalizePanelOptions({ filterMode: 'unknown' as never }).filterMode).toBe(
+            DEFAULT_PANEL_OPTIONS.filterMode
+        );
+        expect(normalizePanelOptions({ includeSubheadings: 'yes' as never }).includeSubheadings).toBe(
+            DEFAULT_PANEL_OPTIONS.includeSubheadings
+        );
+        expect(normalizePanelOptions({ includeSubheadings: false }).includeSubheadings).toBe(false);
+        expect(normalizePanelOptions({ recentHeadingsCount: 0 }).recentHeadingsCount).toBe(0);
+        expect(normalizePanelOptions({ recentHeadingsCount: 99 }).recentHeadingsCount).toBe(20);
+        expect(normalizePanelOptions({ recentHeadingsCount: '3' as never }).recentHeadingsCount).toBe(
+            DEFAULT_PANEL_OPTIONS.recentHeadingsCount
+        );
+        expect(normalizePanelOptions({ maxLevel: 2 }).maxLevel).toBe(2);
+        expect(normalizePanelOptions({ maxLevel: 0 }).maxLevel).toBe(1);
+        expect(normalizePanelOptions({ maxLevel: 'all' as never }).maxLevel).toBe(DEFAULT_PANEL_OPTIONS.maxLevel);
+        expect(normalizePanelOptions({ filterBeyondMaxLevel: true }).filterBeyondMaxLevel).toBe(true);
+    });
+});
@@ -0,0 +1,64 @@
+/**
+ * Normalization for the full panel configuration (dimensions plus behaviour options).
+ *
+ * The content script receives options from the plugin host as untyped command arguments,
+ * so every field is validated here and replaced with its default when missing or invalid.
+ *
+ * See:
+ * - panelDimensions.ts - Dimension-specific validation
+ * - settings.ts - Loads the options from Joplin settings on the host side
+ */
+
+import type { PanelOptions } from './types';
+import { DEFAULT_PANEL_OPTIONS, MAX_RECENT_HEADINGS_COUNT } from './types';
+import { clamp, normalizePanelDimensions } from './panelDimensions';
+import { normalizeFilterMode } from './headingFilter';
+import { normalizeFocusModeStyle } from './sectionFocus';
+import { MAX_HEADING_LEVEL, MIN_HEADING_LEVEL } from './headingSections';
+
+export function normalizeBoolean(raw: unknown, fallback: boolean): boolean {
+    return typeof raw === 'boolean' ? raw : fallback;
+}
+
+export function normalizeRecentHeadingsCount(raw: unknown): { value: number; changed: boolean } {
+    if (typeof raw !== 'number' || Number.isNaN(raw)) {
+        return { value: DEFAULT_PANEL_OPTIONS.recentHeadingsCount, changed: true };
+    }
+    const clamped = clamp(Math.round(raw), 0, MAX_RECENT_HEADINGS_COUNT);
+    return { value: clamped, changed: clamped !== raw };
+}
+
+export function normalizeMaxLevel(raw: unknown): { value: number; changed: boolean } {
+    if (typeof raw !== 'number' || Number.isNaN(raw)) {
+        return { value: DEFAULT_PANEL_OPTIONS.maxLevel, changed: true };
+    }
+    const clamped = clamp(Math.round(raw), MIN_HEADING_LEVEL, MAX_HEADING_LEVEL);
+    return { value: clamped, changed: clamped !== raw };
+}
+
+/**
+ * Normalizes and validates panel options.
+ *
+ * @param options - Partial panel options (may contain invalid or missing values)
+ * @returns Validated panel options with all required fields
+ */
+export function normalizePanelOptions(options?: Partial<PanelOptions>): PanelOptions {
+    return {
+        ...normalizePanelDimensions(options),
+        filterMode: normalizeFilterMode(options?.filterMode).value,
+        includeSubheadings: normalizeBoolean(options?.includeSubheadings, DEFAULT_PANEL_OPTIONS.includeSubheadings),
+        recentHeadingsCount: normalizeRecentHeadingsCount(options?.recentHeadingsCount).value,
+        showOutlineNumbers: normalizeBoolean(options?.showOutlineNumbers, DEFAULT_PANEL_OPTIONS.showOutlineNumbers),
+        showBacklinkCounts: normalizeBoolean(options?.showBacklinkCounts, DEFAULT_PANEL_OPTIONS.showBacklinkCounts),
+        showSectionStatistics: normalizeBoolean(
+            options?.showSectionStatistics,
+            DEFAULT_PANEL_OPTIONS.showSectionStatistics
+        ),
+        focusModeStyle: normalizeFocusModeStyle(options?.focusModeStyle).value,
+        maxLevel: normalizeMaxLevel(options?.maxLevel).value,
+        filterBeyondMaxLevel: normalizeBoolean(
+            options?.filterBeyondMaxLevel,
+            DEFAULT_PANEL_OPTIONS.filterBeyondMaxLevel
+        ),
+    };
+}
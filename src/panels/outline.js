@@ -0,0 +1,78 @@
+/**
+ * Webview script for the outline sidebar.
+ *
+ * Renders the heading list pushed by the plugin host, keeps the active heading highlighted and
+ * scrolled into view, and posts clicks back to the host for navigation. The current state is
+ * requested on load because messages posted before the webview was ready are dropped.
+ */
+
+/* global webviewApi */
+(function () {
+    const INDENT_PX = 12;
+
+    let activeHeadingId = null;
+
+    function updateActive(headingId) {
+        activeHeadingId = headingId;
+        document.querySelectorAll('.outline-item').forEach((item) => {
+            const isActive = item.dataset.id === activeHeadingId;
+            item.classList.toggle('is-active', isActive);
+            item.setAttribute('aria-selected', String(isActive));
+            if (isActive) {
+                item.scrollIntoView({ block: 'nearest' });
+            }
+        });
+    }
+
+    function render(state) {
+        const list = document.querySelector('.outline-list');
+        const empty = document.querySelector('.outline-empty');
+        if (!list || !empty) {
+            return;
+        }
+
+        const items = Array.isArray(state.items) ? state.items : [];
+        list.textContent = '';
+        items.forEach((heading) => {
+            const item = document.createElement('li');
+            item.className = `outline-item outline-level-${heading.level}`;
+            item.setAttribute('role', 'treeitem');
+            item.dataset.id = heading.id;
+            item.dataset.anchor = heading.anchor;
+            item.style.paddingLeft = `${8 + heading.depth * INDENT_PX}px`;
+            item.textContent = heading.text || '(untitled)';
+            item.title = heading.text;
+            list.appendChild(item);
+        });
+
+        empty.hidden = items.length > 0;
+        updateActive(state.activeHeadingId);
+    }
+
+    function handleMessage(message) {
+        if (!message || typeof message !== 'object') {
+            return;
+        }
+
+        if (message.type === 'outlineState') {
+            render(message);
+        } else if (message.type === 'outlineActiveHeading') {
+            updateActive(message.activeHeadingId);
+        }
+    }
+
+    webviewApi.onMessage((event) => {
+        // Joplin wraps host messages as { message } in newer versions
+        handleMessage(event && event.message !== undefined ? event.message : event);
+    });
+
+    document.addEventListener('click', (event) => {
+        const item = event.target.closest && event.target.closest('.outline-item');
+        if (item) {
+            updateActive(item.dataset.id);
+            void webviewApi.postMessage({ type: 'outlineNavigate', anchor: item.dataset.anchor });
+        }
+    });
+
+    void webviewApi.postMessage({ type: 'outlineReady' }).then(handleMessage);
+})();
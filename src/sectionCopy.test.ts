@@ -0,0 +1,26 @@
+import { htmlToPlainText, normalizeSectionCopyFormat } from './sectionCopy';
+
+describe('normalizeSectionCopyFormat', () => {
+    it('accepts known formats and falls back to Markdown', () => {
+        expect(normalizeSectionCopyFormat('html')).toEqual({ value: 'html', changed: false });
+        expect(normalizeSectionCopyFormat('pdf')).toEqual({ value: 'markdown', changed: true });
+        expect(normalizeSectionCopyFormat(undefined)).toEqual({ value: 'markdown', changed: true });
+    });
+});
+
+describe('htmlToPlainText', () => {
+    it('puts block elements on their own lines', () => {
+        const html = '<h1 id="setup">Setup</h1>\n<p>Install <strong>it</strong>.<br>Then run.</p><p>Done</p>';
+        expect(htmlToPlainText(html)).toBe('Setup\n\nInstall it.\nThen run.\n\nDone');
+    });
+
+    it('prefixes list items and separates table cells', () => {
+        const html = '<ul>\n<li>One</li>\n<li>Two</li>\n</ul><table><tr><td>a</td><td>b</td></tr></table>';
+        expect(htmlToPlainText(html)).toBe('- One\n- Two\n\na\tb');
+    });
+
+    it('decodes entities and drops styles, scripts and comments', () => {
+        const html = '<style>p { color: red; }</style><!-- x --><p>A &amp; B &lt;c&gt; &#39;d&#x27; &copy;</p>';
+        expect(htmlToPlainText(html)).toBe("A & B <c> 'd' &copy;");
+    });
+});
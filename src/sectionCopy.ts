@@ -0,0 +1,72 @@
+/**
+ * Clipboard formats for copying a whole section (heading plus body).
+ *
+ * The editor sends the section's Markdown both as written and with heading levels rebased to H1;
+ * the host picks one according to the section copy format setting. The HTML format is rendered
+ * with Joplin's `renderMarkup` command and the plain-text format is derived from that HTML.
+ *
+ * See:
+ * - headingSections.ts - `getSectionText` extracts the section Markdown
+ * - index.ts - Renders and writes the section to the clipboard
+ */
+
+import type { SectionCopyFormat } from './types';
+
+export const SECTION_COPY_FORMATS: readonly SectionCopyFormat[] = ['markdown', 'rebasedMarkdown', 'html', 'plainText'];
+
+export const DEFAULT_SECTION_COPY_FORMAT: SectionCopyFormat = 'markdown';
+
+// Elements whose content starts on a new line in the plain-text output
+const BLOCK_TAG_PATTERN =
+    /<\/?(?:p|div|h[1-6]|ul|ol|blockquote|pre|table|thead|tbody|tr|hr|section|details|summary)\b[^>]*>/gi;
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&',
+    lt: '<',
+    gt: '>',
+    quot: '"',
+    apos: "'",
+    nbsp: ' ',
+};
+
+export function normalizeSectionCopyFormat(raw: unknown): { value: SectionCopyFormat; changed: boolean } {
+    if (typeof raw === 'string' && (SECTION_COPY_FORMATS as readonly string[]).includes(raw)) {
+        return { value: raw as SectionCopyFormat, changed: false };
+    }
+    return { value: DEFAULT_SECTION_COPY_FORMAT, changed: true };
+}
+
+function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+        if (name[0] === '#') {
+            const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+            return Number.isNaN(codePoint) || codePoint > 0x10ffff ? entity : String.fromCodePoint(codePoint);
+        }
+        return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    });
+}
+
+/**
+ * Converts rendered note HTML to readable plain text.
+ *
+ * Block elements become separate lines, list items are prefixed with "- ", table cells are
+ * separated by tabs and all other markup is dropped. Runs in the plugin host, which has no DOM.
+ */
+export function htmlToPlainText(html: string): string {
+    const text = html
+        .replace(/<(script|style)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/li>\s*/gi, '')
+        .replace(/<li\b[^>]*>/gi, '\n- ')
+        .replace(/<\/t[dh]>\s*<t[dh]\b[^>]*>/gi, '\t')
+        .replace(BLOCK_TAG_PATTERN, '\n')
+        .replace(/<[^>]+>/g, '');
+
+    return decodeEntities(text)
+        .split('\n')
+        .map((line) => line.replace(/[ \t]+$/, ''))
+        .join('\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
@@ -0,0 +1,33 @@
+import { extractHeadings } from './headingExtractor';
+import { getFocusRange, normalizeFocusModeStyle } from './sectionFocus';
+
+describe('normalizeFocusModeStyle', () => {
+    it('accepts known styles and falls back to dimming', () => {
+        expect(normalizeFocusModeStyle('hide')).toEqual({ value: 'hide', changed: false });
+        expect(normalizeFocusModeStyle('blur')).toEqual({ value: 'dim', changed: true });
+    });
+});
+
+describe('getFocusRange', () => {
+    const content = ['preamble', '# Guide', 'intro', '## Install', 'install body', '## Usage', 'usage body'].join('\n');
+    const headings = extractHeadings(content);
+
+    function focusedText(position: number): string | undefined {
+        const range = getFocusRange(content, headings, position);
+        return range ? content.slice(range.from, range.to) : undefined;
+    }
+
+    it('focuses the section containing the cursor, with its subsections', () => {
+        expect(focusedText(content.indexOf('install body'))).toBe('## Install\ninstall body\n');
+        expect(focusedText(content.indexOf('intro'))).toBe(content.slice(content.indexOf('# Guide')));
+    });
+
+    it('focuses the text before the first heading as its own section', () => {
+        expect(focusedText(2)).toBe('preamble\n');
+        expect(focusedText(0)).toBe('preamble\n');
+    });
+
+    it('returns null without headings', () => {
+        expect(getFocusRange('just text', [], 0)).toBeNull();
+    });
+});
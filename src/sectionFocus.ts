@@ -0,0 +1,49 @@
+/**
+ * Focus mode: the section that stays readable while the rest of the note is dimmed or hidden.
+ *
+ * The focused section is the section containing the cursor, subsections included (see
+ * `getSectionRange`). Text before the first heading forms a section of its own, so the cursor
+ * always has a section to focus once the note has a heading.
+ *
+ * See:
+ * - headingSections.ts - Section ranges
+ * - contentScripts/focusMode.ts - Editor decorations that follow the cursor
+ */
+
+import type { FocusModeStyle, HeadingItem } from './types';
+import { DEFAULT_PANEL_OPTIONS } from './types';
+import { findSectionHeading, getSectionRange, type SectionRange } from './headingSections';
+
+export const FOCUS_MODE_STYLES: readonly FocusModeStyle[] = ['dim', 'hide'];
+
+export const DEFAULT_FOCUS_MODE_STYLE: FocusModeStyle = DEFAULT_PANEL_OPTIONS.focusModeStyle;
+
+export function normalizeFocusModeStyle(raw: unknown): { value: FocusModeStyle; changed: boolean } {
+    if (typeof raw === 'string' && (FOCUS_MODE_STYLES as readonly string[]).includes(raw)) {
+        return { value: raw as FocusModeStyle, changed: false };
+    }
+    return { value: DEFAULT_FOCUS_MODE_STYLE, changed: true };
+}
+
+/**
+ * Returns the range of the section to focus for a cursor position.
+ *
+ * @param content - Markdown document the headings were extracted from
+ * @param headings - Headings in document order
+ * @param position - Cursor position
+ * @returns Range from the start of the section's heading line to the start of the next section,
+ *   or null when the note has no headings
+ */
+export function getFocusRange(content: string, headings: HeadingItem[], position: number): SectionRange | null {
+    if (!headings.length) {
+        return null;
+    }
+
+    const heading = findSectionHeading(headings, position);
+    const firstSectionStart = getSectionRange(content, headings, 0).from;
+    if (!heading && firstSectionStart > 0) {
+        return { from: 0, to: firstSectionStart };
+    }
+
+    return getSectionRange(content, headings, heading ? headings.indexOf(heading) : 0);
+}
@@ -0,0 +1,102 @@
+import { ChangeSet, Text } from '@codemirror/state';
+import { extractHeadings } from './headingExtractor';
+import { buildHeadingTree } from './headingTree';
+import {
+    countTextStatistics,
+    estimateReadingMinutes,
+    formatSectionStatistics,
+    formatWordCount,
+    SectionStatisticsTracker,
+    sortHeadingsBySectionSize,
+} from './sectionStatistics';
+
+const content = [
+    '# Guide',
+    'Intro text here.',
+    '## Install',
+    'Run the installer, then restart.',
+    '## Usage',
+    'One two.',
+    '### Details',
+    "It's well-known: 三个字.",
+].join('\n');
+
+function statisticsOf(text: string) {
+    const headings = extractHeadings(text);
+    const statistics = new SectionStatisticsTracker().update(headings, text.length, (from, to) => text.slice(from, to));
+    return { headings, statistics };
+}
+
+describe('countTextStatistics', () => {
+    it('counts words and non-whitespace characters', () => {
+        expect(countTextStatistics("It's a well-known fact, 42 times.")).toEqual({ words: 6, characters: 28 });
+        expect(countTextStatistics('三个字')).toEqual({ words: 3, characters: 3 });
+        expect(countTextStatistics('  \n ')).toEqual({ words: 0, characters: 0 });
+    });
+});
+
+describe('estimateReadingMinutes', () => {
+    it('rounds up to whole minutes', () => {
+        expect(estimateReadingMinutes(0)).toBe(0);
+        expect(estimateReadingMinutes(1)).toBe(1);
+        expect(estimateReadingMinutes(401)).toBe(3);
+    });
+});
+
+describe('formatSectionStatistics', () => {
+    it('formats compact counts', () => {
+        expect(formatWordCount(1)).toBe('1 word');
+        expect(formatWordCount(1234)).toBe('1.2k words');
+        expect(formatWordCount(12345)).toBe('12k words');
+        expect(
+            formatSectionStatistics({ own: { words: 0, characters: 0 }, total: { words: 250, characters: 1200 } })
+        ).toBe('250 words · 2 min');
+    });
+});
+
+describe('SectionStatisticsTracker', () => {
+    it('computes own and subtree statistics', () => {
+        const { headings, statistics } = statisticsOf(content);
+        const [guide, install, usage, details] = headings.map((heading) => statistics.get(heading.id));
+
+        expect(guide?.own.words).toBe(3);
+        expect(install?.total.words).toBe(5);
+        expect(details?.own.words).toBe(5);
+        // Usage: own body (2), the "Details" heading (1) and its body (5)
+        expect(usage?.total.words).toBe(8);
+        // Guide: own body plus both subsections and their headings
+        expect(guide?.total.words).toBe(3 + 1 + 5 + 1 + 8);
+    });
+
+    it('only recounts the sections touched by an edit', () => {
+        const tracker = new SectionStatisticsTracker();
+        const headings = extractHeadings(content);
+        tracker.update(headings, content.length, (from, to) => content.slice(from, to));
+
+        const position = content.indexOf('One two.');
+        const changes = ChangeSet.of({ from: position, insert: 'Zero ' }, content.length);
+        const edited = changes.apply(Text.of(content.split('\n'))).toString();
+        const sliced: string[] = [];
+        const statistics = tracker.update(
+            extractHeadings(edited),
+            edited.length,
+            (from, to) => {
+                sliced.push(edited.slice(from, to));
+                return edited.slice(from, to);
+            },
+            changes
+        );
+
+        expect(sliced).toEqual(['\nZero One two.\n']);
+        expect(statistics.get(extractHeadings(edited)[0].id)?.total.words).toBe(19);
+    });
+});
+
+describe('sortHeadingsBySectionSize', () => {
+    it('sorts siblings by size and keeps subheadings below their parent', () => {
+        const { headings, statistics } = statisticsOf(content);
+        const sorted = sortHeadingsBySectionSize(headings, buildHeadingTree(headings), statistics);
+
+        expect(sorted.map((heading) => heading.text)).toEqual(['Guide', 'Usage', 'Details', 'Install']);
+    });
+});
@@ -0,0 +1,222 @@
+/**
+ * Per-section statistics: word count, character count and estimated reading time.
+ *
+ * A heading's own body is the text between its heading line and the next heading (of any level);
+ * its total covers the whole section, i.e. its own body plus the headings and bodies of its
+ * subheadings. Words are runs of letters and digits (apostrophes and hyphens inside a word don't
+ * split it), and each CJK character counts as a word. Characters exclude whitespace. Markdown
+ * syntax is counted as written, which is close enough for comparing section sizes.
+ *
+ * `SectionStatisticsTracker` keeps the counts of unchanged section bodies between edits, so only
+ * the sections touched by a change are counted again.
+ *
+ * See:
+ * - headingTree.ts - Hierarchy used to sum subsection statistics
+ * - contentScripts/ui/headingPanel.ts - Shows the statistics and size bars
+ */
+
+import type { HeadingItem } from './types';
+import { buildHeadingTree, type HeadingTree } from './headingTree';
+
+export interface TextStatistics {
+    words: number;
+    characters: number;
+}
+
+export interface SectionStatistics {
+    /** Body between the heading and the next heading */
+    own: TextStatistics;
+    /** Own body plus subheadings and their bodies */
+    total: TextStatistics;
+}
+
+/**
+ * Position mapping of a document change (CodeMirror's `ChangeSet` / `ChangeDesc`).
+ */
+export interface DocumentChangeMapping {
+    mapPos(pos: number, assoc?: number): number;
+    touchesRange(from: number, to?: number): boolean | 'cover';
+}
+
+export const READING_WORDS_PER_MINUTE = 200;
+
+const WORD_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu;
+const WHITESPACE_PATTERN = /\s/gu;
+
+const EMPTY_STATISTICS: TextStatistics = { words: 0, characters: 0 };
+
+export function countTextStatistics(text: string): TextStatistics {
+    if (!text) {
+        return EMPTY_STATISTICS;
+    }
+    return {
+        words: text.match(WORD_PATTERN)?.length ?? 0,
+        characters: text.length - (text.match(WHITESPACE_PATTERN)?.length ?? 0),
+    };
+}
+
+/**
+ * Estimated reading time in whole minutes (at least one minute for any text).
+ */
+export function estimateReadingMinutes(words: number): number {
+    return words > 0 ? Math.ceil(words / READING_WORDS_PER_MINUTE) : 0;
+}
+
+function addStatistics(a: TextStatistics, b: TextStatistics): TextStatistics {
+    return { words: a.words + b.words, characters: a.characters + b.characters };
+}
+
+/**
+ * Returns the body range of each heading: from the end of the heading to the next heading.
+ */
+export function getSectionBodyRanges(
+    headings: HeadingItem[],
+    docLength: number
+): { headingId: string; from: number; to: number }[] {
+    return headings.map((heading, index) => ({
+        headingId: heading.id,
+        from: Math.min(heading.to, docLength),
+        to: index + 1 < headings.length ? headings[index + 1].from : docLength,
+    }));
+}
+
+/**
+ * Sums own-body statistics into section totals.
+ *
+ * @param headings - Headings in document order
+ * @param own - Own-body statistics by heading id
+ */
+export function aggregateSectionStatistics(
+    headings: HeadingItem[],
+    own: Map<string, TextStatistics>,
+    tree: HeadingTree = buildHeadingTree(headings)
+): Map<string, SectionStatistics> {
+    const statistics = new Map<string, SectionStatistics>();
+
+    // Children follow their parent in document order, so totals are summed bottom-up
+    for (let index = headings.length - 1; index >= 0; index--) {
+        const heading = headings[index];
+        const ownStatistics = own.get(heading.id) ?? EMPTY_STATISTICS;
+        const total = (tree.get(heading.id)?.childIds ?? []).reduce((sum, childId) => {
+            const child = statistics.get(childId);
+            const childHeading = tree.get(childId)?.heading;
+            const withHeading = childHeading ? addStatistics(sum, countTextStatistics(childHeading.text)) : sum;
+            return child ? addStatistics(withHeading, child.total) : withHeading;
+        }, ownStatistics);
+
+        statistics.set(heading.id, { own: ownStatistics, total });
+    }
+
+    return statistics;
+}
+
+/**
+ * Formats a word count compactly ("350 words", "1.2k words").
+ */
+export function formatWordCount(words: number): string {
+    if (words >= 1000) {
+        const thousands = words / 1000;
+        return `${thousands >= 10 ? Math.round(thousands) : Math.round(thousands * 10) / 10}k words`;
+    }
+    return `${words} ${words === 1 ? 'word' : 'words'}`;
+}
+
+/**
+ * Formats a section's statistics for the panel row ("1.2k words · 6 min").
+ */
+export function formatSectionStatistics(statistics: SectionStatistics): string {
+    const { words } = statistics.total;
+    const minutes = estimateReadingMinutes(words);
+    return minutes ? `${formatWordCount(words)} · ${minutes} min` : formatWordCount(words);
+}
+
+/**
+ * Formats the detailed statistics shown as the row tooltip.
+ */
+export function describeSectionStatistics(statistics: SectionStatistics): string {
+    const describe = ({ words, characters }: TextStatistics) =>
+        `${words} ${words === 1 ? 'word' : 'words'}, ${characters} characters, ~${estimateReadingMinutes(words)} min read`;
+    return `This section: ${describe(statistics.own)}\nWith subsections: ${describe(statistics.total)}`;
+}
+
+/**
+ * Orders headings so that siblings are sorted by section size (largest first) while each
+ * heading stays directly above its subheadings.
+ *
+ * @param headings - Headings to order (e.g. the visible ones), in document order
+ * @param tree - Hierarchy of all headings
+ * @param statistics - Section statistics by heading id
+ */
+export function sortHeadingsBySectionSize(
+    headings: HeadingItem[],
+    tree: HeadingTree,
+    statistics: Map<string, SectionStatistics>
+): HeadingItem[] {
+    const included = new Set(headings.map((heading) => heading.id));
+    const size = (heading: HeadingItem) => statistics.get(heading.id)?.total.characters ?? 0;
+    // Stable sort keeps document order between sections of the same size
+    const bySize = (items: HeadingItem[]) => [...items].sort((a, b) => size(b) - size(a));
+
+    const sorted: HeadingItem[] = [];
+    const visit = (heading: HeadingItem): void => {
+        sorted.push(heading);
+        const children = (tree.get(heading.id)?.childIds ?? [])
+            .filter((id) => included.has(id))
+            .map((id) => tree.get(id)!.heading);
+        bySize(children).forEach(visit);
+    };
+
+    const roots = headings.filter((heading) => {
+        const parentId = tree.get(heading.id)?.parentId ?? null;
+        return parentId === null || !included.has(parentId);
+    });
+    bySize(roots).forEach(visit);
+
+    return sorted;
+}
+
+/**
+ * Computes section statistics, reusing the counts of section bodies that an edit didn't touch.
+ */
+export class SectionStatisticsTracker {
+    // Own-body statistics by body range ("from:to") as of the last update
+    private cache = new Map<string, TextStatistics>();
+
+    /**
+     * @param headings - Current headings in document order
+     * @param docLength - Current document length
+     * @param sliceDoc - Reads a range of the current document
+     * @param changes - Changes since the last update; without them, every body is counted again
+     */
+    update(
+        headings: HeadingItem[],
+        docLength: number,
+        sliceDoc: (from: number, to: number) => string,
+        changes?: DocumentChangeMapping
+    ): Map<string, SectionStatistics> {
+        const reusable = new Map<string, TextStatistics>();
+        if (changes) {
+            for (const [key, statistics] of this.cache) {
+                const [from, to] = key.split(':').map(Number);
+                if (!changes.touchesRange(from, to)) {
+                    reusable.set(`${changes.mapPos(from, 1)}:${changes.mapPos(to, -1)}`, statistics);
+                }
+            }
+        }
+
+        const own = new Map<string, TextStatistics>();
+        this.cache = new Map();
+        for (const { headingId, from, to } of getSectionBodyRanges(headings, docLength)) {
+            const key = `${from}:${to}`;
+            const statistics = reusable.get(key) ?? countTextStatistics(from < to ? sliceDoc(from, to) : '');
+            own.set(headingId, statistics);
+            this.cache.set(key, statistics);
+        }
+
+        return aggregateSectionStatistics(headings, own);
+    }
+
+    reset(): void {
+        this.cache.clear();
+    }
+}
@@ -1,8 +1,8 @@
 /**
- * Joplin settings registration and loading for panel dimensions.
+ * Joplin settings registration and loading for panel dimensions and behaviour.
  *
- * Integrates panel dimension configuration into Joplin's preferences UI, allowing
- * users to customize panel width and height through Settings > Heading Navigator.
+ * Integrates panel configuration into Joplin's preferences UI, allowing users to
+ * customize panel width, height and filtering through Settings > Heading Navigator.
  *
  * Settings are:
  * - Stored by Joplin across sessions (persisted to disk)
@@ -11,13 +11,35 @@
  *
  * See:
  * - panelDimensions.ts - Validation and normalization utilities
+ * - headingFilter.ts - Filter modes and their normalization
+ * - tableOfContents.ts - Table-of-contents option normalization
+ * - linkFormatting.ts - Heading link style and template normalization
  * - index.ts - Calls registerPanelSettings() on plugin startup
  */
 
 import joplin from 'api';
 import { SettingItemType } from 'api/types';
 import logger from './logger';
-import type { PanelDimensions } from './types';
+import type {
+    HeadingLinkOptions,
+    HeadingReference,
+    PanelDimensions,
+    PanelOptions,
+    SectionCopyFormat,
+    TableOfContentsOptions,
+} from './types';
+import {
+    DEFAULT_HEADING_LINK_OPTIONS,
+    DEFAULT_PANEL_OPTIONS,
+    DEFAULT_TABLE_OF_CONTENTS_OPTIONS,
+    MAX_RECENT_HEADINGS_COUNT,
+} from './types';
+import { normalizeBoolean, normalizeMaxLevel, normalizeRecentHeadingsCount } from './panelOptions';
+import { DEFAULT_HEADING_FILTER_MODE, normalizeFilterMode } from './headingFilter';
+import { normalizeTableOfContentsOptions } from './tableOfContents';
+import { normalizeHeadingLinkOptions } from './linkFormatting';
+import { DEFAULT_SECTION_COPY_FORMAT, normalizeSectionCopyFormat } from './sectionCopy';
+import { DEFAULT_FOCUS_MODE_STYLE, normalizeFocusModeStyle } from './sectionFocus';
 import {
     DEFAULT_PANEL_HEIGHT_PERCENTAGE,
     DEFAULT_PANEL_WIDTH,
@@ -32,6 +54,27 @@ import {
 const SECTION_ID = 'headingNavigator';
 const SETTING_PANEL_WIDTH = 'headingNavigator.panelWidth';
 const SETTING_PANEL_MAX_HEIGHT = 'headingNavigator.panelMaxHeightPercentage';
+const SETTING_FILTER_MODE = 'headingNavigator.filterMode';
+const SETTING_INCLUDE_SUBHEADINGS = 'headingNavigator.levelChangeIncludesSubheadings';
+const SETTING_TOC_MIN_LEVEL = 'headingNavigator.tocMinLevel';
+const SETTING_TOC_MAX_LEVEL = 'headingNavigator.tocMaxLevel';
+const SETTING_TOC_LIST_STYLE = 'headingNavigator.tocListStyle';
+const SETTING_TOC_EXCLUDE_OWN_HEADING = 'headingNavigator.tocExcludeOwnHeading';
+const SETTING_TOC_AUTO_REFRESH = 'headingNavigator.tocAutoRefresh';
+const SETTING_OUTLINE_VISIBLE = 'headingNavigator.outlineVisible';
+const SETTING_LINK_STYLE = 'headingNavigator.linkStyle';
+const SETTING_LINK_TEMPLATE = 'headingNavigator.linkTemplate';
+const SETTING_LINK_TEMPLATE_FORMAT = 'headingNavigator.linkTemplateFormat';
+const SETTING_SECTION_COPY_FORMAT = 'headingNavigator.sectionCopyFormat';
+const SETTING_RECENT_HEADINGS_COUNT = 'headingNavigator.recentHeadingsCount';
+const SETTING_RECENT_HEADINGS = 'headingNavigator.recentHeadings';
+const SETTING_SHOW_OUTLINE_NUMBERS = 'headingNavigator.showOutlineNumbers';
+const SETTING_SHOW_BACKLINK_COUNTS = 'headingNavigator.showBacklinkCounts';
+const SETTING_SHOW_SECTION_STATISTICS = 'headingNavigator.showSectionStatistics';
+const SETTING_FOCUS_MODE_STYLE = 'headingNavigator.focusModeStyle';
+const SETTING_MAX_LEVEL = 'headingNavigator.maxLevelShown';
+const SETTING_FILTER_BEYOND_MAX_LEVEL = 'headingNavigator.filterBeyondMaxLevel';
+const SETTING_SHOW_BREADCRUMB_BAR = 'headingNavigator.showBreadcrumbBar';
 
 export async function registerPanelSettings(): Promise<void> {
     await joplin.settings.registerSection(SECTION_ID, {
@@ -63,6 +106,239 @@ export async function registerPanelSettings(): Promise<void> {
             maximum: MAX_PANEL_HEIGHT_PERCENTAGE,
             step: 5,
         },
+        [SETTING_FILTER_MODE]: {
+            value: DEFAULT_HEADING_FILTER_MODE,
+            type: SettingItemType.String,
+            isEnum: true,
+            public: true,
+            section: SECTION_ID,
+            label: 'Filter mode',
+            description:
+                'How the filter matches headings. Fuzzy matches characters in order (e.g. "instcfg" finds "Install & Configure") and ranks the best matches first.',
+            options: {
+                fuzzy: 'Fuzzy',
+                substring: 'Substring',
+                prefix: 'Exact prefix',
+            },
+        },
+        [SETTING_MAX_LEVEL]: {
+            value: DEFAULT_PANEL_OPTIONS.maxLevel,
+            type: SettingItemType.Int,
+            public: true,
+            section: SECTION_ID,
+            label: 'Max level shown',
+            description:
+                'Deepest heading level listed when the panel opens (e.g. 2 lists H1 and H2 only). Ctrl+1…6 or the level chips change it while the panel is open.',
+            minimum: 1,
+            maximum: 6,
+            step: 1,
+        },
+        [SETTING_FILTER_BEYOND_MAX_LEVEL]: {
+            value: DEFAULT_PANEL_OPTIONS.filterBeyondMaxLevel,
+            type: SettingItemType.Bool,
+            public: true,
+            section: SECTION_ID,
+            label: 'Filter deeper headings too',
+            description:
+                'When typing a filter, also match headings deeper than the max level shown, so they stay reachable.',
+        },
+        [SETTING_INCLUDE_SUBHEADINGS]: {
+            value: DEFAULT_PANEL_OPTIONS.includeSubheadings,
+            type: SettingItemType.Bool,
+            public: true,
+            section: SECTION_ID,
+            label: 'Promote/demote subheadings too',
+            description:
+                'When promoting or demoting a heading, shift all of its subheadings by the same amount. Hold Shift in the panel to do the opposite.',
+        },
+        [SETTING_RECENT_HEADINGS_COUNT]: {
+            value: DEFAULT_PANEL_OPTIONS.recentHeadingsCount,
+            type: SettingItemType.Int,
+            public: true,
+            section: SECTION_ID,
+            label: 'Recently visited headings',
+            description:
+                'Number of headings you recently jumped to in a note that are listed at the top of the panel (0 hides the group).',
+            minimum: 0,
+            maximum: MAX_RECENT_HEADINGS_COUNT,
+            step: 1,
+        },
+        [SETTING_SHOW_OUTLINE_NUMBERS]: {
+            value: DEFAULT_PANEL_OPTIONS.showOutlineNumbers,
+            type: SettingItemType.Bool,
+            public: true,
+            section: SECTION_ID,
+            label: 'Show outline numbers in the panel',
+            description:
+                'Show hierarchical section numbers (1., 1.1, 1.2.3) next to each heading. Use "Number Headings" to write them into the note.',
+        },
+        [SETTING_SHOW_BACKLINK_COUNTS]: {
+            value: DEFAULT_PANEL_OPTIONS.showBacklinkCounts,
+            type: SettingItemType.Bool,
+            public: true,
+            section: SECTION_ID,
+            label: 'Show backlink counts in the panel',
+            description:
+                'Show how many other notes link to each heading. The notes are searched each time the panel opens.',
+        },
+        [SETTING_SHOW_SECTION_STATISTICS]: {
+            value: DEFAULT_PANEL_OPTIONS.showSectionStatistics,
+            type: SettingItemType.Bool,
+            public: true,
+            section: SECTION_ID,
+            label: 'Show section statistics in the panel',
+            description:
+                'Show the word count and reading time of each section (with its subsections) and a bar comparing its size with the largest section. Alt+S in the panel sorts sections by size.',
+        },
+        [SETTING_FOCUS_MODE_STYLE]: {
+            value: DEFAULT_FOCUS_MODE_STYLE,
+            type: SettingItemType.String,
+            isEnum: true,
+            public: true,
+            section: SECTION_ID,
+            label: 'Focus mode',
+            description:
+                'How "Toggle Focus Mode" (Alt+Z in the panel) treats the text outside the section containing the cursor.',
+            options: {
+                dim: 'Dim other sections',
+                hide: 'Hide other sections',
+            },
+        },
+        [SETTING_SHOW_BREADCRUMB_BAR]: {
+            value: false,
+            type: SettingItemType.Bool,
+            public: true,
+            section: SECTION_ID,
+            label: 'Show breadcrumb bar above the editor',
+            description:
+                'Show the path of the heading at the top of the editor (e.g. Guide › Install › Linux) while scrolling. Click a heading to jump to it, or its arrow to pick a sibling.',
+        },
+        [SETTING_TOC_MIN_LEVEL]: {
+            value: DEFAULT_TABLE_OF_CONTENTS_OPTIONS.minLevel,
+            type: SettingItemType.Int,
+            public: true,
+            section: SECTION_ID,
+            label: 'Table of contents: highest heading level',
+            description: 'Headings above this level (e.g. H1 when set to 2) are left out of the table of contents.',
+            minimum: 1,
+            maximum: 6,
+            step: 1,
+        },
+        [SETTING_TOC_MAX_LEVEL]: {
+            value: DEFAULT_TABLE_OF_CONTENTS_OPTIONS.maxLevel,
+            type: SettingItemType.Int,
+            public: true,
+            section: SECTION_ID,
+            label: 'Table of contents: deepest heading level',
+            description: 'Headings below this level (e.g. H4 when set to 3) are left out of the table of contents.',
+            minimum: 1,
+            maximum: 6,
+            step: 1,
+        },
+        [SETTING_TOC_LIST_STYLE]: {
+            value: DEFAULT_TABLE_OF_CONTENTS_OPTIONS.listStyle,
+            type: SettingItemType.String,
+            isEnum: true,
+            public: true,
+            section: SECTION_ID,
+            label: 'Table of contents: list style',
+            options: {
+                bulleted: 'Bulleted',
+                numbered: 'Numbered',
+            },
+        },
+        [SETTING_TOC_EXCLUDE_OWN_HEADING]: {
+            value: DEFAULT_TABLE_OF_CONTENTS_OPTIONS.excludeOwnHeading,
+            type: SettingItemType.Bool,
+            public: true,
+            section: SECTION_ID,
+            label: 'Table of contents: exclude its own heading',
+            description:
+                'Leave out the heading directly above the table of contents (such as "Contents") from the generated list.',
+        },
+        [SETTING_TOC_AUTO_REFRESH]: {
+            value: DEFAULT_TABLE_OF_CONTENTS_OPTIONS.autoRefresh,
+            type: SettingItemType.Bool,
+            public: true,
+            section: SECTION_ID,
+            label: 'Table of contents: refresh automatically',
+            description: 'Regenerate the table of contents in the editor whenever the headings of the note change.',
+        },
+        [SETTING_LINK_STYLE]: {
+            value: DEFAULT_HEADING_LINK_OPTIONS.style,
+            type: SettingItemType.String,
+            isEnum: true,
+            public: true,
+            section: SECTION_ID,
+            label: 'Copied link style',
+            description: 'Format of the link created by "Copy heading link".',
+            options: {
+                headingAtNote: '[Heading @ Note](:/id#anchor)',
+                heading: '[Heading](:/id#anchor)',
+                note: '[Note](:/id#anchor)',
+                noteAndHeading: '[Note > Heading](:/id#anchor)',
+                wiki: '[[Note#Heading]]',
+                anchor: '#anchor (same note)',
+                html: '<a href=":/id#anchor">Heading</a>',
+                custom: 'Custom template',
+            },
+        },
+        [SETTING_LINK_TEMPLATE]: {
+            value: DEFAULT_HEADING_LINK_OPTIONS.customTemplate,
+            type: SettingItemType.String,
+            public: true,
+            section: SECTION_ID,
+            label: 'Custom link template',
+            description:
+                'Used when the link style is "Custom template". Placeholders: {heading}, {note}, {noteId}, {anchor} and {path} (parent headings and the heading, separated by " > ").',
+        },
+        [SETTING_LINK_TEMPLATE_FORMAT]: {
+            value: DEFAULT_HEADING_LINK_OPTIONS.customFormat,
+            type: SettingItemType.String,
+            isEnum: true,
+            public: true,
+            section: SECTION_ID,
+            label: 'Custom link template format',
+            description: 'Decides how heading and note titles are escaped when filling in the custom template.',
+            options: {
+                markdown: 'Markdown',
+                wiki: 'Wiki link',
+                html: 'HTML',
+                plain: 'Plain text (no escaping)',
+            },
+        },
+        [SETTING_SECTION_COPY_FORMAT]: {
+            value: DEFAULT_SECTION_COPY_FORMAT,
+            type: SettingItemType.String,
+            isEnum: true,
+            public: true,
+            section: SECTION_ID,
+            label: 'Copied section format',
+            description:
+                'Format used by "Copy Section" (Alt+C in the panel). Rendered HTML can be pasted as formatted text into apps that support it.',
+            options: {
+                markdown: 'Markdown',
+                rebasedMarkdown: 'Markdown, headings starting at H1',
+                html: 'Rendered HTML',
+                plainText: 'Plain text',
+            },
+        },
+        // Remembers whether the outline sidebar was open; toggled through its command only
+        [SETTING_OUTLINE_VISIBLE]: {
+            value: false,
+            type: SettingItemType.Bool,
+            public: false,
+            section: SECTION_ID,
+            label: 'Outline sidebar visible',
+        },
+        // Recently visited headings by note id; kept on this device only, unlike pinned headings
+        [SETTING_RECENT_HEADINGS]: {
+            value: {},
+            type: SettingItemType.Object,
+            public: false,
+            section: SECTION_ID,
+            label: 'Recently visited headings',
+        },
     });
 }
 
@@ -84,3 +360,146 @@ export async function loadPanelDimensions(): Promise<PanelDimensions> {
         maxHeightRatio: heightResult.value / 100,
     };
 }
+
+export async function loadPanelOptions(): Promise<PanelOptions> {
+    const dimensions = await loadPanelDimensions();
+    const values = await joplin.settings.values([
+        SETTING_FILTER_MODE,
+        SETTING_INCLUDE_SUBHEADINGS,
+        SETTING_RECENT_HEADINGS_COUNT,
+        SETTING_SHOW_OUTLINE_NUMBERS,
+        SETTING_SHOW_BACKLINK_COUNTS,
+        SETTING_SHOW_SECTION_STATISTICS,
+        SETTING_FOCUS_MODE_STYLE,
+        SETTING_MAX_LEVEL,
+        SETTING_FILTER_BEYOND_MAX_LEVEL,
+    ]);
+
+    const filterModeResult = normalizeFilterMode(values[SETTING_FILTER_MODE]);
+    if (filterModeResult.changed) {
+        logger.warn(`Invalid filter mode setting: ${values[SETTING_FILTER_MODE]}. Using ${filterModeResult.value}.`);
+    }
+
+    const focusModeStyleResult = normalizeFocusModeStyle(values[SETTING_FOCUS_MODE_STYLE]);
+    if (focusModeStyleResult.changed) {
+        logger.warn(
+            `Invalid focus mode setting: ${values[SETTING_FOCUS_MODE_STYLE]}. Using ${focusModeStyleResult.value}.`
+        );
+    }
+
+    const maxLevelResult = normalizeMaxLevel(values[SETTING_MAX_LEVEL]);
+    if (maxLevelResult.changed) {
+        logger.warn(`Invalid max level setting: ${values[SETTING_MAX_LEVEL]}. Using ${maxLevelResult.value}.`);
+    }
+
+    const recentResult = normalizeRecentHeadingsCount(values[SETTING_RECENT_HEADINGS_COUNT]);
+    if (recentResult.changed) {
+        logger.warn(
+            `Invalid recent headings setting: ${values[SETTING_RECENT_HEADINGS_COUNT]}. Using ${recentResult.value}.`
+        );
+    }
+
+    return {
+        ...dimensions,
+        filterMode: filterModeResult.value,
+        includeSubheadings: normalizeBoolean(
+            values[SETTING_INCLUDE_SUBHEADINGS],
+            DEFAULT_PANEL_OPTIONS.includeSubheadings
+        ),
+        recentHeadingsCount: recentResult.value,
+        showOutlineNumbers: normalizeBoolean(
+            values[SETTING_SHOW_OUTLINE_NUMBERS],
+            DEFAULT_PANEL_OPTIONS.showOutlineNumbers
+        ),
+        showBacklinkCounts: normalizeBoolean(
+            values[SETTING_SHOW_BACKLINK_COUNTS],
+            DEFAULT_PANEL_OPTIONS.showBacklinkCounts
+        ),
+        showSectionStatistics: normalizeBoolean(
+            values[SETTING_SHOW_SECTION_STATISTICS],
+            DEFAULT_PANEL_OPTIONS.showSectionStatistics
+        ),
+        focusModeStyle: focusModeStyleResult.value,
+        maxLevel: maxLevelResult.value,
+        filterBeyondMaxLevel: normalizeBoolean(
+            values[SETTING_FILTER_BEYOND_MAX_LEVEL],
+            DEFAULT_PANEL_OPTIONS.filterBeyondMaxLevel
+        ),
+    };
+}
+
+export async function loadTableOfContentsOptions(): Promise<TableOfContentsOptions> {
+    const values = await joplin.settings.values([
+        SETTING_TOC_MIN_LEVEL,
+        SETTING_TOC_MAX_LEVEL,
+        SETTING_TOC_LIST_STYLE,
+        SETTING_TOC_EXCLUDE_OWN_HEADING,
+        SETTING_TOC_AUTO_REFRESH,
+    ]);
+
+    return normalizeTableOfContentsOptions({
+        minLevel: values[SETTING_TOC_MIN_LEVEL] as number,
+        maxLevel: values[SETTING_TOC_MAX_LEVEL] as number,
+        listStyle: values[SETTING_TOC_LIST_STYLE] as TableOfContentsOptions['listStyle'],
+        excludeOwnHeading: values[SETTING_TOC_EXCLUDE_OWN_HEADING] as boolean,
+        autoRefresh: values[SETTING_TOC_AUTO_REFRESH] as boolean,
+    });
+}
+
+export async function loadHeadingLinkOptions(): Promise<HeadingLinkOptions> {
+    const values = await joplin.settings.values([
+        SETTING_LINK_STYLE,
+        SETTING_LINK_TEMPLATE,
+        SETTING_LINK_TEMPLATE_FORMAT,
+    ]);
+
+    return normalizeHeadingLinkOptions({
+        style: values[SETTING_LINK_STYLE] as HeadingLinkOptions['style'],
+        customTemplate: values[SETTING_LINK_TEMPLATE] as string,
+        customFormat: values[SETTING_LINK_TEMPLATE_FORMAT] as HeadingLinkOptions['customFormat'],
+    });
+}
+
+export async function loadSectionCopyFormat(): Promise<SectionCopyFormat> {
+    const value = await joplin.settings.value(SETTING_SECTION_COPY_FORMAT);
+    const result = normalizeSectionCopyFormat(value);
+    if (result.changed) {
+        logger.warn(`Invalid section copy format setting: ${value}. Using ${result.value}.`);
+    }
+    return result.value;
+}
+
+export async function loadOutlineVisible(): Promise<boolean> {
+    return normalizeBoolean(await joplin.settings.value(SETTING_OUTLINE_VISIBLE), false);
+}
+
+export async function loadShowBreadcrumbBar(): Promise<boolean> {
+    return normalizeBoolean(await joplin.settings.value(SETTING_SHOW_BREADCRUMB_BAR), false);
+}
+
+/**
+ * Calls `handler` with the new value whenever the breadcrumb bar setting changes.
+ */
+export async function onShowBreadcrumbBarChange(handler: (enabled: boolean) => Promise<void>): Promise<void> {
+    await joplin.settings.onChange(async ({ keys }) => {
+        if (keys.includes(SETTING_SHOW_BREADCRUMB_BAR)) {
+            await handler(await loadShowBreadcrumbBar());
+        }
+    });
+}
+
+export async function saveOutlineVisible(visible: boolean): Promise<void> {
+    await joplin.settings.setValue(SETTING_OUTLINE_VISIBLE, visible);
+}
+
+/**
+ * Returns the stored recently visited headings of all notes, by note id (not validated).
+ */
+export async function loadRecentHeadingsByNote(): Promise<Record<string, unknown>> {
+    const value = await joplin.settings.value(SETTING_RECENT_HEADINGS);
+    return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+export async function saveRecentHeadingsByNote(value: Record<string, HeadingReference[]>): Promise<void> {
+    await joplin.settings.setValue(SETTING_RECENT_HEADINGS, value);
+}
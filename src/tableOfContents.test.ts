@@ -0,0 +1,161 @@
+import { extractHeadings } from './headingExtractor';
+import type { TextChange } from './headingSections';
+import {
+    computeTableOfContentsInsert,
+    computeTableOfContentsRefresh,
+    findTableOfContentsBlock,
+    normalizeTableOfContentsOptions,
+    renderTableOfContentsList,
+    TOC_END_MARKER,
+    TOC_START_MARKER,
+} from './tableOfContents';
+import { DEFAULT_TABLE_OF_CONTENTS_OPTIONS, type TableOfContentsOptions } from './types';
+
+function applyChange(content: string, change: TextChange): string {
+    return content.slice(0, change.from) + change.insert + content.slice(change.to);
+}
+
+const options: TableOfContentsOptions = { ...DEFAULT_TABLE_OF_CONTENTS_OPTIONS, minLevel: 1, maxLevel: 6 };
+
+const content = ['# Guide', '## Install', '### Linux', '## Usage', '## Usage', '#### Deep'].join('\n');
+
+describe('normalizeTableOfContentsOptions', () => {
+    it('falls back to defaults for missing or invalid values', () => {
+        expect(normalizeTableOfContentsOptions()).toEqual(DEFAULT_TABLE_OF_CONTENTS_OPTIONS);
+        expect(
+            normalizeTableOfContentsOptions({
+                minLevel: Number.NaN,
+                listStyle: 'dashed' as TableOfContentsOptions['listStyle'],
+            })
+        ).toEqual(DEFAULT_TABLE_OF_CONTENTS_OPTIONS);
+    });
+
+    it('clamps levels and keeps the range ordered', () => {
+        expect(normalizeTableOfContentsOptions({ minLevel: 5, maxLevel: 9 })).toMatchObject({
+            minLevel: 5,
+            maxLevel: 6,
+        });
+        expect(normalizeTableOfContentsOptions({ minLevel: 4, maxLevel: 2 })).toMatchObject({
+            minLevel: 2,
+            maxLevel: 4,
+        });
+    });
+});
+
+describe('renderTableOfContentsList', () => {
+    it('renders a nested bulleted list with deduplicated anchors', () => {
+        expect(renderTableOfContentsList(extractHeadings(content), options)).toBe(
+            [
+                '- [Guide](#guide)',
+                '    - [Install](#install)',
+                '        - [Linux](#linux)',
+                '    - [Usage](#usage)',
+                '    - [Usage](#usage-2)',
+                '        - [Deep](#deep)',
+            ].join('\n')
+        );
+    });
+
+    it('numbers items per nesting level', () => {
+        const list = renderTableOfContentsList(extractHeadings(content), { ...options, listStyle: 'numbered' });
+        expect(list.split('\n')).toEqual([
+            '1. [Guide](#guide)',
+            '    1. [Install](#install)',
+            '        1. [Linux](#linux)',
+            '    2. [Usage](#usage)',
+            '    3. [Usage](#usage-2)',
+            '        1. [Deep](#deep)',
+        ]);
+    });
+
+    it('applies the level range without over-indenting', () => {
+        const list = renderTableOfContentsList(extractHeadings(content), { ...options, minLevel: 2, maxLevel: 3 });
+        expect(list.split('\n')).toEqual([
+            '- [Install](#install)',
+            '    - [Linux](#linux)',
+            '- [Usage](#usage)',
+            '- [Usage](#usage-2)',
+        ]);
+    });
+
+    it('escapes link text', () => {
+        const headings = extractHeadings('# Install & Configure');
+        expect(renderTableOfContentsList(headings, options)).toBe('- [Install \\& Configure](#install-configure)');
+    });
+});
+
+describe('findTableOfContentsBlock', () => {
+    it('locates the markers', () => {
+        const note = `intro\n${TOC_START_MARKER}\n- item\n${TOC_END_MARKER}\nafter`;
+        const block = findTableOfContentsBlock(note);
+        expect(block).toEqual({ from: 6, to: note.length - '\nafter'.length });
+    });
+
+    it('ignores markers that are not at the start of a line or have no end marker', () => {
+        expect(findTableOfContentsBlock(`see ${TOC_START_MARKER}\n${TOC_END_MARKER}`)).toBeNull();
+        expect(findTableOfContentsBlock(`${TOC_START_MARKER}\n- item`)).toBeNull();
+    });
+
+    it('ignores markers inside code', () => {
+        const example = `\`\`\`markdown\n${TOC_START_MARKER}\n- [Old](#old)\n${TOC_END_MARKER}\n\`\`\``;
+        expect(findTableOfContentsBlock(`# Notes\n\n${example}\n`)).toBeNull();
+
+        const note = `${example}\n\n${TOC_START_MARKER}\n- item\n${TOC_END_MARKER}\n`;
+        const block = findTableOfContentsBlock(note);
+        expect(block).toEqual({ from: example.length + 2, to: note.length - 1 });
+
+        const unclosed = `${TOC_START_MARKER}\n\`\`\`\n${TOC_END_MARKER}\n\`\`\`\n- item\n${TOC_END_MARKER}`;
+        expect(findTableOfContentsBlock(unclosed)).toEqual({ from: 0, to: unclosed.length });
+    });
+});
+
+describe('computeTableOfContentsInsert', () => {
+    it('inserts directly below its own heading and leaves that heading out', () => {
+        const note = '# Contents\n\n## Install\n## Usage';
+        const change = computeTableOfContentsInsert(note, extractHeadings(note), '# Contents\n'.length, options);
+        expect(applyChange(note, change)).toBe(
+            [
+                '# Contents',
+                TOC_START_MARKER,
+                '- [Install](#install)',
+                '- [Usage](#usage)',
+                TOC_END_MARKER,
+                '',
+                '## Install',
+                '## Usage',
+            ].join('\n')
+        );
+    });
+
+    it('keeps its own heading when exclusion is disabled', () => {
+        const note = '# Contents\n';
+        const change = computeTableOfContentsInsert(note, extractHeadings(note), note.length, {
+            ...options,
+            excludeOwnHeading: false,
+        });
+        expect(change.insert).toBe(`${TOC_START_MARKER}\n- [Contents](#contents)\n${TOC_END_MARKER}\n`);
+    });
+
+    it('separates the block from surrounding paragraphs', () => {
+        const note = 'intro\nmore';
+        const change = computeTableOfContentsInsert(note, extractHeadings(note), 'intro'.length, options);
+        expect(applyChange(note, change)).toBe(`intro\n\n${TOC_START_MARKER}\n${TOC_END_MARKER}\n\nmore`);
+    });
+});
+
+describe('computeTableOfContentsRefresh', () => {
+    it('regenerates an outdated block', () => {
+        const note = `# Contents\n${TOC_START_MARKER}\n- [Old](#old)\n${TOC_END_MARKER}\n\n## New`;
+        const change = computeTableOfContentsRefresh(note, extractHeadings(note), options);
+        expect(change).not.toBeNull();
+        expect(applyChange(note, change!)).toBe(
+            `# Contents\n${TOC_START_MARKER}\n- [New](#new)\n${TOC_END_MARKER}\n\n## New`
+        );
+    });
+
+    it('returns null when the block is current or missing', () => {
+        const note = `${TOC_START_MARKER}\n- [Only](#only)\n${TOC_END_MARKER}\n\n# Only`;
+        expect(computeTableOfContentsRefresh(note, extractHeadings(note), options)).toBeNull();
+        expect(computeTableOfContentsRefresh('# Only', extractHeadings('# Only'), options)).toBeNull();
+    });
+});
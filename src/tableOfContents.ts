@@ -0,0 +1,257 @@
+/**
+ * Managed table-of-contents blocks.
+ *
+ * A TOC block is a nested Markdown list of `[text](#anchor)` links wrapped in HTML comment markers
+ * (hidden in Joplin's viewer) so it can be found and regenerated later:
+ *
+ * ```markdown
+ * <!-- heading-navigator:toc -->
+ * - [Install](#install)
+ *     - [Linux](#linux)
+ * <!-- /heading-navigator:toc -->
+ * ```
+ *
+ * Links use the same deduplicated anchors as `extractHeadings`, so they match Joplin's rendered
+ * heading ids. Only the first block in a note is managed; markers inside code (such as a fenced
+ * example of a TOC block) are ignored.
+ */
+
+import { parser } from '@lezer/markdown';
+import type { Tree } from '@lezer/common';
+import type { HeadingItem, TableOfContentsListStyle, TableOfContentsOptions } from './types';
+import { DEFAULT_TABLE_OF_CONTENTS_OPTIONS } from './types';
+import { escapeLinkText } from './linkFormatting';
+import { clamp } from './panelDimensions';
+import type { TextChange } from './headingSections';
+
+export const TOC_START_MARKER = '<!-- heading-navigator:toc -->';
+export const TOC_END_MARKER = '<!-- /heading-navigator:toc -->';
+
+const CODE_NODES = new Set(['FencedCode', 'CodeBlock', 'InlineCode']);
+
+const TOC_LIST_STYLES: readonly TableOfContentsListStyle[] = ['bulleted', 'numbered'];
+
+// Nested list indentation; 4 spaces is valid for both "- " and "10. " parents
+const TOC_INDENT = '    ';
+
+export interface TableOfContentsBlock {
+    /** Start of the start marker line */
+    from: number;
+    /** End of the end marker (excluding its line break) */
+    to: number;
+}
+
+export function normalizeTableOfContentsOptions(options?: Partial<TableOfContentsOptions>): TableOfContentsOptions {
+    const defaults = DEFAULT_TABLE_OF_CONTENTS_OPTIONS;
+    const normalizeLevel = (raw: unknown, fallback: number): number =>
+        typeof raw === 'number' && !Number.isNaN(raw) ? clamp(Math.round(raw), 1, 6) : fallback;
+
+    const minLevel = normalizeLevel(options?.minLevel, defaults.minLevel);
+    const maxLevel = normalizeLevel(options?.maxLevel, defaults.maxLevel);
+    const listStyle = options?.listStyle;
+
+    return {
+        minLevel: Math.min(minLevel, maxLevel),
+        maxLevel: Math.max(minLevel, maxLevel),
+        listStyle:
+            typeof listStyle === 'string' && TOC_LIST_STYLES.includes(listStyle) ? listStyle : defaults.listStyle,
+        excludeOwnHeading:
+            typeof options?.excludeOwnHeading === 'boolean' ? options.excludeOwnHeading : defaults.excludeOwnHeading,
+        autoRefresh: typeof options?.autoRefresh === 'boolean' ? options.autoRefresh : defaults.autoRefresh,
+    };
+}
+
+/**
+ * Locates the managed TOC block, if any.
+ *
+ * Markers must start their line (ignoring indentation) so that mentions of them in regular
+ * text aren't mistaken for a block, and markers inside code are skipped.
+ */
+export function findTableOfContentsBlock(content: string): TableOfContentsBlock | null {
+    if (!content.includes(TOC_START_MARKER)) {
+        return null;
+    }
+
+    // Parsed only once a marker is present, which most notes don't have
+    const tree = parser.parse(content);
+    const startPattern = new RegExp(`^[ \\t]*${escapeRegExp(TOC_START_MARKER)}`, 'gm');
+    let start = startPattern.exec(content);
+    while (start && isInCode(tree, start.index + start[0].length - 1)) {
+        start = startPattern.exec(content);
+    }
+    if (!start) {
+        return null;
+    }
+
+    let endIndex = content.indexOf(TOC_END_MARKER, start.index + start[0].length);
+    while (endIndex >= 0 && isInCode(tree, endIndex)) {
+        endIndex = content.indexOf(TOC_END_MARKER, endIndex + TOC_END_MARKER.length);
+    }
+    if (endIndex < 0) {
+        return null;
+    }
+
+    return { from: start.index, to: endIndex + TOC_END_MARKER.length };
+}
+
+function isInCode(tree: Tree, position: number): boolean {
+    for (let node: ReturnType<Tree['resolveInner']> | null = tree.resolveInner(position, 1); node; node = node.parent) {
+        if (CODE_NODES.has(node.name)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Returns the heading a TOC at `position` belongs to: the closest heading before it with only
+ * whitespace in between (e.g. a "Contents" heading directly above the block).
+ */
+export function findOwnHeading(content: string, headings: HeadingItem[], position: number): HeadingItem | null {
+    let candidate: HeadingItem | null = null;
+    for (const heading of headings) {
+        if (heading.to > position) {
+            break;
+        }
+        candidate = heading;
+    }
+
+    if (!candidate || content.slice(candidate.to, position).trim()) {
+        return null;
+    }
+
+    return candidate;
+}
+
+/**
+ * Renders the nested list for a TOC (without markers).
+ *
+ * Nesting follows the hierarchy of the included headings, so skipped levels don't produce
+ * over-indented items.
+ *
+ * @param headings - Headings in document order
+ * @param options - Level range and list style
+ * @param excludedHeadingId - Heading to leave out (the TOC's own heading)
+ */
+export function renderTableOfContentsList(
+    headings: HeadingItem[],
+    options: TableOfContentsOptions,
+    excludedHeadingId: string | null = null
+): string {
+    const included = headings.filter(
+        (heading) =>
+            heading.level >= options.minLevel && heading.level <= options.maxLevel && heading.id !== excludedHeadingId
+    );
+
+    const levelStack: number[] = [];
+    // Next item number per nesting depth (numbered lists only)
+    const counters: number[] = [];
+    const lines: string[] = [];
+
+    for (const heading of included) {
+        while (levelStack.length && levelStack[levelStack.length - 1] >= heading.level) {
+            levelStack.pop();
+        }
+        const depth = levelStack.length;
+        levelStack.push(heading.level);
+
+        counters.length = depth + 1;
+        counters[depth] = (counters[depth] ?? 0) + 1;
+
+        const marker = options.listStyle === 'numbered' ? `${counters[depth]}.` : '-';
+        lines.push(`${TOC_INDENT.repeat(depth)}${marker} [${escapeLinkText(heading.text)}](#${heading.anchor})`);
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Renders a complete TOC block including markers.
+ */
+export function renderTableOfContentsBlock(
+    headings: HeadingItem[],
+    options: TableOfContentsOptions,
+    excludedHeadingId: string | null = null
+): string {
+    const list = renderTableOfContentsList(headings, options, excludedHeadingId);
+    return [TOC_START_MARKER, ...(list ? [list] : []), TOC_END_MARKER].join('\n');
+}
+
+function getExcludedHeadingId(
+    content: string,
+    headings: HeadingItem[],
+    position: number,
+    options: TableOfContentsOptions
+): string | null {
+    return options.excludeOwnHeading ? (findOwnHeading(content, headings, position)?.id ?? null) : null;
+}
+
+/**
+ * Computes the change that brings an existing TOC block up to date.
+ *
+ * @returns The change, or null when there is no block or it is already current
+ */
+export function computeTableOfContentsRefresh(
+    content: string,
+    headings: HeadingItem[],
+    options: TableOfContentsOptions
+): TextChange | null {
+    const block = findTableOfContentsBlock(content);
+    if (!block) {
+        return null;
+    }
+
+    const insert = renderTableOfContentsBlock(
+        headings,
+        options,
+        getExcludedHeadingId(content, headings, block.from, options)
+    );
+
+    if (content.slice(block.from, block.to) === insert) {
+        return null;
+    }
+
+    return { from: block.from, to: block.to, insert };
+}
+
+/**
+ * Computes the change that inserts a new TOC block at `position`.
+ *
+ * The block is placed on its own lines, surrounded by blank lines where needed so it doesn't
+ * merge with adjacent paragraphs.
+ */
+export function computeTableOfContentsInsert(
+    content: string,
+    headings: HeadingItem[],
+    position: number,
+    options: TableOfContentsOptions
+): TextChange {
+    const before = content.slice(0, position);
+    const after = content.slice(position);
+
+    // A heading directly above may be followed immediately; anything else needs a blank line
+    const needsBlankLineBefore = Boolean(before.trim()) && !findOwnHeading(content, headings, position);
+    let prefix = '';
+    if (before && !before.endsWith('\n')) {
+        prefix = needsBlankLineBefore ? '\n\n' : '\n';
+    } else if (needsBlankLineBefore && !before.endsWith('\n\n')) {
+        prefix = '\n';
+    }
+
+    let suffix = '\n\n';
+    if (!after || after.startsWith('\n')) {
+        suffix = after.startsWith('\n\n') ? '' : '\n';
+    }
+
+    const block = renderTableOfContentsBlock(
+        headings,
+        options,
+        getExcludedHeadingId(content, headings, position, options)
+    );
+
+    return { from: position, to: position, insert: `${prefix}${block}${suffix}` };
+}
@@ -18,3 +18,166 @@ export const DEFAULT_PANEL_DIMENSIONS: PanelDimensions = {
     // Represents 75% of the editor viewport height
     maxHeightRatio: 0.75,
 };
+
+export type HeadingFilterMode = 'fuzzy' | 'substring' | 'prefix';
+
+/** How focus mode treats the text outside the focused section */
+export type FocusModeStyle = 'dim' | 'hide';
+
+/**
+ * Panel configuration sent from the plugin host when the panel is toggled.
+ */
+export interface PanelOptions extends PanelDimensions {
+    filterMode: HeadingFilterMode;
+    // Whether promoting/demoting a heading also shifts its subheadings
+    includeSubheadings: boolean;
+    // Number of recently visited headings listed in the panel (0 disables the group)
+    recentHeadingsCount: number;
+    // Whether panel rows show outline numbers (1., 1.1, ...)
+    showOutlineNumbers: boolean;
+    // Whether panel rows show how many other notes link to the heading
+    showBacklinkCounts: boolean;
+    // Whether panel rows show word counts, reading time and a size bar per section
+    showSectionStatistics: boolean;
+    // Style used when focus mode is toggled from the panel
+    focusModeStyle: FocusModeStyle;
+    // Deepest heading level listed when the panel opens (Ctrl+1…6 changes it while open)
+    maxLevel: number;
+    // Whether the text filter also matches headings deeper than `maxLevel`
+    filterBeyondMaxLevel: boolean;
+}
+
+export const MAX_RECENT_HEADINGS_COUNT = 20;
+
+export const DEFAULT_PANEL_OPTIONS: PanelOptions = {
+    ...DEFAULT_PANEL_DIMENSIONS,
+    filterMode: 'fuzzy',
+    includeSubheadings: true,
+    recentHeadingsCount: 5,
+    showOutlineNumbers: true,
+    showBacklinkCounts: true,
+    showSectionStatistics: false,
+    focusModeStyle: 'dim',
+    maxLevel: 6,
+    filterBeyondMaxLevel: false,
+};
+
+/**
+ * Arguments accepted by the promote/demote editor commands.
+ */
+export interface HeadingLevelCommandOptions {
+    includeSubheadings?: boolean;
+}
+
+/**
+ * Arguments accepted by the focus mode editor command.
+ */
+export interface FocusModeCommandOptions {
+    style?: FocusModeStyle;
+}
+
+/**
+ * Arguments accepted by the go-to-anchor editor command.
+ */
+export interface HeadingNavigationTarget {
+    // When set, the command only navigates if this note is the one open in the editor
+    noteId?: string;
+    anchor: string;
+}
+
+/**
+ * Number of other notes linking to a heading, by anchor.
+ */
+export interface HeadingBacklinkCount {
+    anchor: string;
+    count: number;
+}
+
+/**
+ * Range of a note, as accepted by the select-range editor command.
+ */
+export interface EditorRangeTarget {
+    // The command only acts if this note is the one open in the editor
+    noteId: string;
+    from: number;
+    to: number;
+}
+
+/**
+ * Replacement accepted by the replace-range editor command. Applied only while the range still
+ * contains `expected`, so stale edits never overwrite text the user changed since.
+ */
+export interface EditorRangeReplacement extends EditorRangeTarget {
+    expected: string;
+    insert: string;
+}
+
+/**
+ * Stored reference to a heading of a note (e.g. a pinned heading).
+ *
+ * Resolved by anchor first and by text as a fallback, so references survive edits that shift
+ * duplicate-heading anchors (`usage-2` becoming `usage`).
+ */
+export interface HeadingReference {
+    anchor: string;
+    text: string;
+}
+
+/**
+ * Built-in heading link styles, or `custom` to use a user-defined template.
+ */
+export type HeadingLinkStyle =
+    | 'headingAtNote'
+    | 'heading'
+    | 'note'
+    | 'noteAndHeading'
+    | 'wiki'
+    | 'anchor'
+    | 'html'
+    | 'custom';
+
+/**
+ * Output format of a link template; decides how placeholder values are escaped.
+ */
+export type LinkTemplateFormat = 'markdown' | 'wiki' | 'html' | 'plain';
+
+export interface HeadingLinkOptions {
+    style: HeadingLinkStyle;
+    // Used only when `style` is `custom`
+    customTemplate: string;
+    customFormat: LinkTemplateFormat;
+}
+
+export const DEFAULT_HEADING_LINK_OPTIONS: HeadingLinkOptions = {
+    style: 'headingAtNote',
+    customTemplate: '[{heading} @ {note}](:/{noteId}#{anchor})',
+    customFormat: 'markdown',
+};
+
+/**
+ * Clipboard format used when copying a whole section.
+ */
+export type SectionCopyFormat = 'markdown' | 'rebasedMarkdown' | 'html' | 'plainText';
+
+export type TableOfContentsListStyle = 'bulleted' | 'numbered';
+
+/**
+ * Options for generating managed table-of-contents blocks.
+ */
+export interface TableOfContentsOptions {
+    minLevel: number;
+    maxLevel: number;
+    listStyle: TableOfContentsListStyle;
+    // Whether to leave out the heading the TOC is placed under (e.g. "Contents")
+    excludeOwnHeading: boolean;
+    // Whether to regenerate the TOC block automatically when headings change
+    autoRefresh: boolean;
+}
+
+export const DEFAULT_TABLE_OF_CONTENTS_OPTIONS: TableOfContentsOptions = {
+    minLevel: 1,
+    maxLevel: 3,
+    listStyle: 'bulleted',
+    excludeOwnHeading: true,
+    autoRefresh: true,
+};
@@ -0,0 +1,68 @@
+import { filterRenderedHeadings, ViewerCommandBridge, type ViewerCommand } from './viewerNavigation';
+import { DEFAULT_PANEL_OPTIONS } from './types';
+
+const command: ViewerCommand = { type: 'togglePanel', options: DEFAULT_PANEL_OPTIONS, css: '' };
+
+describe('ViewerCommandBridge', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('delivers commands to the waiting poll', async () => {
+        const bridge = new ViewerCommandBridge();
+        const poll = bridge.waitForCommand();
+
+        expect(bridge.send(command)).toBe(true);
+        await expect(poll).resolves.toBe(command);
+        expect(bridge.send(command)).toBe(false);
+    });
+
+    it('delivers commands to every waiting poll', async () => {
+        const bridge = new ViewerCommandBridge();
+        const first = bridge.waitForCommand();
+        const second = bridge.waitForCommand();
+
+        expect(bridge.send(command)).toBe(true);
+        await expect(first).resolves.toBe(command);
+        await expect(second).resolves.toBe(command);
+    });
+
+    it('releases timed out polls with null', async () => {
+        const bridge = new ViewerCommandBridge(1000);
+        const first = bridge.waitForCommand();
+        jest.advanceTimersByTime(500);
+        const second = bridge.waitForCommand();
+
+        jest.advanceTimersByTime(500);
+        await expect(first).resolves.toBeNull();
+        expect(bridge.send(command)).toBe(true);
+        await expect(second).resolves.toBe(command);
+        expect(bridge.send(command)).toBe(false);
+    });
+});
+
+describe('filterRenderedHeadings', () => {
+    const headings = [
+        { text: 'Setup', level: 1, anchor: 'setup' },
+        { text: 'Linux', level: 2, anchor: 'linux' },
+        { text: 'Install & Configure', level: 2, anchor: 'install-configure' },
+    ];
+
+    it('returns matches by index with highlight indices', () => {
+        expect(filterRenderedHeadings(headings, 'instcfg', 'fuzzy')).toEqual([
+            { index: 2, indices: [0, 1, 2, 3, 10, 13, 15] },
+        ]);
+    });
+
+    it('supports path queries using heading levels', () => {
+        expect(filterRenderedHeadings(headings, 'setup > linux', 'substring').map((match) => match.index)).toEqual([1]);
+    });
+
+    it('returns every heading in document order for an empty query', () => {
+        expect(filterRenderedHeadings(headings, '', 'fuzzy').map((match) => match.index)).toEqual([0, 1, 2]);
+    });
+});
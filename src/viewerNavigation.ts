@@ -0,0 +1,118 @@
+/**
+ * Host-side support for heading navigation in the Markdown viewer.
+ *
+ * The viewer script (`contentScripts/viewer/headingNavigatorViewer.js`) runs inside the note
+ * viewer webview. Plugins can't push messages to viewer scripts, so commands are delivered by
+ * long polling: each viewer keeps one `waitForCommand` request pending and the host resolves them
+ * when "Go to Heading" is routed to the viewer.
+ *
+ * Filtering is also done here so the viewer panel matches headings exactly like the editor panel.
+ *
+ * See:
+ * - contentScripts/viewerHeadingNavigator.ts - Markdown-it content script that loads the viewer script
+ * - index.ts - Routes commands to the editor or viewer
+ */
+
+import type { HeadingFilterMode, HeadingItem, PanelOptions } from './types';
+import { filterHeadings } from './headingFilter';
+
+// Pending polls are released periodically so a closed viewer doesn't leave requests hanging
+export const VIEWER_POLL_TIMEOUT_MS = 60_000;
+
+export interface ViewerTogglePanelCommand {
+    type: 'togglePanel';
+    options: PanelOptions;
+    css: string;
+}
+
+export type ViewerCommand = ViewerTogglePanelCommand;
+
+/**
+ * Heading collected from the rendered note (`h1`-`h6` elements).
+ */
+export interface RenderedHeading {
+    text: string;
+    level: number;
+    /** Element id assigned by Joplin's renderer */
+    anchor: string;
+}
+
+export interface RenderedHeadingMatch {
+    /** Index into the list of rendered headings */
+    index: number;
+    indices: number[];
+}
+
+interface PendingPoll {
+    resolve: (command: ViewerCommand | null) => void;
+    timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Hands commands from the host to the viewers' pending poll requests.
+ */
+export class ViewerCommandBridge {
+    private readonly pending = new Set<PendingPoll>();
+
+    constructor(private readonly pollTimeoutMs = VIEWER_POLL_TIMEOUT_MS) {}
+
+    /**
+     * Waits for the next command. Every poll is kept until a command arrives or it times out:
+     * several viewer webviews may be polling at once, and releasing one poll early would only
+     * make its viewer poll again.
+     */
+    waitForCommand(): Promise<ViewerCommand | null> {
+        return new Promise((resolve) => {
+            const poll: PendingPoll = {
+                resolve,
+                timeoutId: setTimeout(() => {
+                    this.pending.delete(poll);
+                    resolve(null);
+                }, this.pollTimeoutMs),
+            };
+            this.pending.add(poll);
+        });
+    }
+
+    /**
+     * Delivers a command to every waiting viewer.
+     *
+     * @returns false when no viewer is waiting (e.g. the viewer isn't loaded)
+     */
+    send(command: ViewerCommand): boolean {
+        const polls = [...this.pending];
+        this.pending.clear();
+
+        for (const poll of polls) {
+            clearTimeout(poll.timeoutId);
+            poll.resolve(command);
+        }
+        return polls.length > 0;
+    }
+}
+
+/**
+ * Filters rendered headings with the panel's matching rules.
+ *
+ * @returns Matches in display order (ranked for fuzzy mode), referring to headings by index
+ */
+export function filterRenderedHeadings(
+    headings: RenderedHeading[],
+    query: string,
+    mode: HeadingFilterMode
+): RenderedHeadingMatch[] {
+    const items: HeadingItem[] = headings.map((heading, index) => ({
+        id: String(index),
+        text: heading.text,
+        level: heading.level,
+        from: index,
+        to: index,
+        line: index,
+        anchor: heading.anchor,
+    }));
+
+    return filterHeadings(items, query, mode).map((match) => ({
+        index: Number(match.heading.id),
+        indices: match.indices,
+    }));
+}